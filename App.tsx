@@ -1,17 +1,67 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { analyzeResume, getNextInterviewerMessage, evaluateAnswer } from './services/geminiService';
-import { ResumeAnalysis, InterviewConfig, EvaluationResult, ChatMessage } from './types';
+import {
+  analyzeResume, streamNextInterviewerMessage, evaluateAnswer, generateQuestionBank, generateCodingProblem,
+  evaluateCodingSubmission, evaluateDesignAnswer, generateSessionDebrief, analyzeJobDescription, choosePanelSpeaker,
+  getCoachingReply, InterviewerTurnOptions, PanelTurn,
+} from './services/geminiService';
+import { describeProvider } from './services/providers';
+import { getSessionTiming, formatClock, answerLatency, DURATION_MINUTES, WRAP_UP_THRESHOLD } from './services/timing';
+import { findQuestionIndex, lastAnswerIndex } from './services/transcript';
+import { buildSessionReport, renderMarkdown, renderJson, renderPrintableHtml } from './services/report';
+import { downloadFile, printHtml } from './services/download';
+import { parseSessionFile } from './services/sessionImport';
+import { ingestResume, ingestResumeText, describeRedactions, needsAttachment } from './services/resumeIngestion';
+import { buildInterviewPlan, recordPlanAnswer, moveToPhase } from './services/interviewPlan';
+import { HINT_POLICIES, DEFAULT_HINT_POLICY, applyHintPenalty, coachingForQuestion, nextHintLevel, describeHintPenalty } from './services/coaching';
+import { loadReviewCards, saveReviewCards, addCardFromEvaluation, reviewCard, dueCards, replaceCard, DRILL_SIZE, LOW_SCORE_THRESHOLD } from './services/practice';
+import { emptyDesign, isEmptyDesign } from './services/designGraph';
+import { createAdaptiveState, applyScore, clampDifficulty, DIFFICULTY_LEVELS } from './services/adaptiveDifficulty';
+import { loadCustomRubrics, saveCustomRubrics, rubricsForCategory, resolveRubric, parseRubricFile, DEFAULT_RUBRICS } from './services/rubrics';
+import { BUILT_IN_PERSONAS, loadCustomPersonas, saveCustomPersonas, resolvePersona, personaById, parsePersonaFile, serializePersonas, emptyPersona } from './services/personas';
+import { CATEGORY_OPTIONS, coveredCompetencies, findGuardrailFlags } from './services/categoryFlows';
+import { DEFAULT_PANEL, MIN_PANELISTS, MAX_PANELISTS, createPanelist, findPanelist, panelistLabel, lastSpeaker, rotateSpeaker, enforceTurnLimits } from './services/panel';
+import { speak, cancelSpeech, startRecognition, computeDeliveryMetrics, isSpeechRecognitionSupported, isSpeechSynthesisSupported, Recorder } from './services/speech';
+import { listSessions, saveSession, deleteSession, duplicateSession, createSessionId, SESSION_SCHEMA_VERSION } from './services/sessionStore';
+import {
+  ResumeAnalysis, InterviewConfig, EvaluationResult, ChatMessage, Duration, InterviewQuestion, SessionRecord,
+  CodingProblem, CodingEvaluation, CodeLanguage, TestResult, DesignGraph, DesignEvaluation, Rubric, SessionDebrief,
+  AdaptiveState, Difficulty, JobDescriptionAnalysis, Persona, Panelist, ResumeProfile, InterviewPlan, InterviewPhase,
+  CoachingExchange, HintPolicyId, ReviewCard,
+} from './types';
+import QuestionBank from './components/QuestionBank';
+import SessionList from './components/SessionList';
+import ProgressDashboard from './components/ProgressDashboard';
+import SessionReplay from './components/SessionReplay';
+import CodingRound from './components/CodingRound';
+import DesignCanvas from './components/DesignCanvas';
+import DebriefView from './components/DebriefView';
+import SkillMatrix from './components/SkillMatrix';
+import PersonaBuilder from './components/PersonaBuilder';
+import CategoryInsights from './components/CategoryInsights';
+import PhaseTracker from './components/PhaseTracker';
+import CoachPanel from './components/CoachPanel';
+import DailyDrill from './components/DailyDrill';
+
+const QUESTION_BANK_SIZE = 9;
 
 const App: React.FC = () => {
-  const [view, setView] = useState<'landing' | 'dashboard'>('landing');
+  const [view, setView] = useState<'landing' | 'dashboard' | 'question-bank' | 'progress' | 'replay' | 'debrief' | 'drill'>('landing');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const [role, setRole] = useState('Senior Frontend Developer');
   const [resumeText, setResumeText] = useState('');
-  const [resumeFile, setResumeFile] = useState<{ data: string; mimeType: string; name: string } | null>(null);
+  // `unreadable`: an image or scanned PDF, which can only be sent as is.
+  const [resumeFile, setResumeFile] = useState<{ data: string; mimeType: string; name: string; unreadable: boolean } | null>(null);
+  const [sendResumeAsIs, setSendResumeAsIs] = useState(false);
+  // The redacted text pulled from resumeFile; sessions keep this since the file itself isn't saved.
+  const [extractedResumeText, setExtractedResumeText] = useState('');
+  const [resumeProfile, setResumeProfile] = useState<ResumeProfile | null>(null);
   const [analysis, setAnalysis] = useState<ResumeAnalysis | null>(null);
+  const [jdText, setJdText] = useState('');
+  const [jdFile, setJdFile] = useState<{ data: string; mimeType: string; name: string } | null>(null);
+  const [jobDescription, setJobDescription] = useState<JobDescriptionAnalysis | null>(null);
 
   const [config, setConfig] = useState<InterviewConfig>({
     difficulty: 'intermediate',
@@ -26,14 +76,139 @@ const App: React.FC = () => {
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
   const [showModelAnswer, setShowModelAnswer] = useState(false);
   const [evaluationHistory, setEvaluationHistory] = useState<Record<number, EvaluationResult>>({});
+  // The last scoring call that failed, shown above the input with a retry.
+  const [evaluationError, setEvaluationError] = useState<{ message: string; retry: () => Promise<void> } | null>(null);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+  const [sessionClosed, setSessionClosed] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [questionBank, setQuestionBank] = useState<InterviewQuestion[]>([]);
+  const [pinnedQuestions, setPinnedQuestions] = useState<InterviewQuestion[]>([]);
+  const [sessionMeta, setSessionMeta] = useState<{ id: string; createdAt: number } | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [replay, setReplay] = useState<{ session: SessionRecord; sourceName: string } | null>(null);
+  const [voiceMode, setVoiceMode] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [voiceError, setVoiceError] = useState<string | null>(null);
+  // Raw recognizer output for the answer being composed; metrics are computed from
+  // this, not the edited textbox, so cleaning up the text doesn't hide fillers.
+  const [spokenDraft, setSpokenDraft] = useState<{ transcript: string; speakingMs: number } | null>(null);
+  const [codingProblem, setCodingProblem] = useState<CodingProblem | null>(null);
+  const [codingEvaluation, setCodingEvaluation] = useState<CodingEvaluation | null>(null);
+  // The diagram outlives the panel: closing the whiteboard hides it but keeps it in the session.
+  const [design, setDesign] = useState<DesignGraph | null>(null);
+  const [designOpen, setDesignOpen] = useState(false);
+  const [designEvaluation, setDesignEvaluation] = useState<DesignEvaluation | null>(null);
+  const [customRubrics, setCustomRubrics] = useState<Rubric[]>(loadCustomRubrics);
+  const [rubricError, setRubricError] = useState<string | null>(null);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+  const [personaError, setPersonaError] = useState<string | null>(null);
+  const [debrief, setDebrief] = useState<SessionDebrief | null>(null);
+  const [debriefLoading, setDebriefLoading] = useState(false);
+  const [debriefError, setDebriefError] = useState<string | null>(null);
+  const [adaptiveState, setAdaptiveState] = useState<AdaptiveState | null>(null);
+  const [plan, setPlan] = useState<InterviewPlan | null>(null);
+  const [coaching, setCoaching] = useState<CoachingExchange[]>([]);
+  const [coachLoading, setCoachLoading] = useState(false);
+  const [coachError, setCoachError] = useState<string | null>(null);
+  const [reviewCards, setReviewCards] = useState<ReviewCard[]>(loadReviewCards);
+  const [drillQueue, setDrillQueue] = useState<ReviewCard[]>([]);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const rubricInputRef = useRef<HTMLInputElement>(null);
+  const personaInputRef = useRef<HTMLInputElement>(null);
+  const jdInputRef = useRef<HTMLInputElement>(null);
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const recorderRef = useRef<Recorder | null>(null);
+  const lastSpokenRef = useRef(-1);
+  // Background evaluations resolve after later renders, so they read and write these instead of closure state.
+  const configRef = useRef(config);
+  configRef.current = config;
+  const adaptiveRef = useRef(adaptiveState);
+  adaptiveRef.current = adaptiveState;
+  const reviewCardsRef = useRef(reviewCards);
+  reviewCardsRef.current = reviewCards;
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages, isTyping]);
 
+  const timing = getSessionTiming(config.duration, sessionStartedAt, now);
+
+  // Once spoken answers have been graded, their delivery scores replace the resume-based guess.
+  const deliveryScores = Object.values<EvaluationResult>(evaluationHistory).flatMap(e => e.communication_score !== undefined ? [e.communication_score] : []);
+  const observedCommunication = deliveryScores.length
+    ? Math.round((deliveryScores.reduce((a, b) => a + b, 0) / deliveryScores.length) * 10)
+    : null;
+
+  useEffect(() => {
+    if (!sessionStartedAt || sessionClosed) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [sessionStartedAt, sessionClosed]);
+
+  useEffect(() => {
+    if (sessionStartedAt && !sessionClosed && !isTyping && timing.remainingMs <= 0) closeSession();
+  }, [sessionStartedAt, sessionClosed, isTyping, timing.remainingMs]);
+
+  useEffect(() => {
+    if (!voiceMode) return;
+    const lastIdx = messages.length - 1;
+    const last = messages[lastIdx];
+    if (!last || last.role !== 'interviewer' || last.status || lastIdx <= lastSpokenRef.current) return;
+    lastSpokenRef.current = lastIdx;
+    speak(last.text);
+  }, [voiceMode, messages]);
+
+  useEffect(() => {
+    if (voiceMode) return;
+    cancelSpeech();
+    recorderRef.current?.abort();
+    lastSpokenRef.current = messages.length - 1;
+  }, [voiceMode]);
+
+  const refreshSessions = () => {
+    listSessions().then(setSessions).catch(err => console.error(err));
+  };
+
+  useEffect(() => {
+    if (view === 'landing' || view === 'progress') refreshSessions();
+  }, [view]);
+
+  const currentSessionRecord = (): SessionRecord => ({
+    id: sessionMeta?.id ?? createSessionId(),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    createdAt: sessionMeta?.createdAt ?? Date.now(),
+    updatedAt: Date.now(),
+    role,
+    resumeText: resumeFile ? extractedResumeText : resumeText,
+    resumeFileName: resumeFile?.name,
+    resumeProfile: resumeProfile ?? undefined,
+    plan: plan ?? undefined,
+    coaching: coaching.length ? coaching : undefined,
+    config,
+    analysis,
+    messages,
+    evaluationHistory,
+    elapsedMs: getSessionTiming(config.duration, sessionStartedAt, Date.now()).elapsedMs,
+    closed: sessionClosed,
+    design: design ?? undefined,
+    debrief: debrief ?? undefined,
+    adaptive: adaptiveState ?? undefined,
+    jobDescription: jobDescription ?? undefined,
+  });
+
+  useEffect(() => {
+    if (!sessionMeta || messages.length === 0 || messages.some(m => m.status === 'streaming')) return;
+    saveSession(currentSessionRecord()).catch(err => console.error(err));
+  }, [sessionMeta, messages, evaluationHistory, config, analysis, sessionClosed, design, debrief, adaptiveState, plan, coaching]);
+
+  // Extraction and redaction run in the browser; only the redacted result is sent on.
+  const ingestCurrentResume = () => ingestResume(resumeFile ? { file: { data: resumeFile.data, mimeType: resumeFile.mimeType } } : { text: resumeText }, { attach: sendResumeAsIs });
+
   const fileToBase64 = (file: File): Promise<string> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -43,7 +218,83 @@ const App: React.FC = () => {
     });
   };
 
-  const handleStart = async () => {
+  // Picks who speaks next in panel mode. The coordinator's pick is capped so no one
+  // dominates, and if the coordinator fails the panel simply rotates.
+  const choosePanelTurn = async (history: ChatMessage[]): Promise<PanelTurn | undefined> => {
+    const panel = config.panel;
+    if (!panel) return undefined;
+    const last = lastSpeaker(panel, history);
+    if (!last) return { panel, speaker: panel[0] };
+    let proposed = rotateSpeaker(panel, history);
+    let followUp = false;
+    try {
+      const decision = await choosePanelSpeaker(panel, history, role);
+      proposed = findPanelist(panel, decision.speakerId) ?? proposed;
+      followUp = decision.followUp;
+    } catch {
+      // Keep the rotation pick; a coordinator hiccup shouldn't stall the interview.
+    }
+    return { panel, speaker: enforceTurnLimits(panel, history, proposed), followUpOf: followUp ? last : undefined };
+  };
+
+  // Appends the interviewer's reply to `history` as it streams in. A stopped or
+  // failed stream keeps whatever text arrived and is flagged in the transcript.
+  const streamInterviewerTurn = async (history: ChatMessage[], options: InterviewerTurnOptions, profile = resumeProfile) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+    let text = '';
+    let speakerId: string | undefined;
+    const updateReply = (reply: Omit<ChatMessage, 'role'>) => setMessages(prev => [...prev.slice(0, -1), { role: 'interviewer', speakerId, ...reply }]);
+    setMessages([...history, { role: 'interviewer', text: '', status: 'streaming' }]);
+    try {
+      const panelTurn = options.panelTurn ?? await choosePanelTurn(history);
+      speakerId = panelTurn?.speaker.id;
+      const turnOptions: InterviewerTurnOptions = {
+        design: designOpen && design ? design : undefined,
+        jobDescription: jobDescription ?? undefined,
+        skillMatrix: analysis?.skillMatrix,
+        persona: panelTurn ? personaById(panelTurn.speaker.personaId, customPersonas) : resolvePersona(config, customPersonas),
+        panelTurn,
+        coveredCompetencies: coveredCompetencies(Object.values(evaluationHistory)),
+        plan: plan ?? undefined,
+        ...options,
+      };
+      await streamNextInterviewerMessage(config, history, role, profile, turnOptions, {
+        signal: controller.signal,
+        onChunk: (chunk) => {
+          text += chunk;
+          updateReply({ text, status: 'streaming' });
+        },
+      });
+      const guardrailFlags = findGuardrailFlags(text);
+      updateReply({ text: text || "I apologize, could you repeat that?", sentAt: Date.now(), ...(guardrailFlags.length ? { guardrailFlags } : {}) });
+    } catch (err: any) {
+      updateReply(controller.signal.aborted
+        ? { text, sentAt: Date.now(), status: 'stopped' }
+        : { text, sentAt: Date.now(), status: 'failed', error: err.message || "The response stream failed." });
+    } finally {
+      streamAbortRef.current = null;
+    }
+  };
+
+  const handleStop = () => streamAbortRef.current?.abort();
+
+  // Drops the failed reply and asks again from the same point in the conversation.
+  const handleRetryTurn = async () => {
+    const failed = messages[messages.length - 1];
+    if (failed?.status !== 'failed' || isTyping || loading) return;
+    const history = messages.slice(0, -1);
+    setMessages(history);
+    if (failed.retryAction === 'coding-problem') return handleStartCodingRound();
+    setIsTyping(true);
+    try {
+      await streamInterviewerTurn(history, { timing: getSessionTiming(config.duration, sessionStartedAt, Date.now()) });
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  const handleStart = async (seedQuestion?: InterviewQuestion) => {
     if (!role || (!resumeText && !resumeFile)) {
       setError("Please provide a role and a resume to continue.");
       return;
@@ -51,15 +302,42 @@ const App: React.FC = () => {
     setLoading(true);
     setError(null);
     try {
-      const resumeInput = resumeFile ? { file: { data: resumeFile.data, mimeType: resumeFile.mimeType } } : { text: resumeText };
-      const analysisData = await analyzeResume(resumeInput, role);
+      const ingested = await ingestCurrentResume();
+      const jdInput = jdFile ? { file: { data: jdFile.data, mimeType: jdFile.mimeType } } : jdText.trim() ? { text: jdText } : null;
+      const jd = jdInput ? await analyzeJobDescription(jdInput) : null;
+      const analysisData = await analyzeResume(ingested.text, role, jd ?? undefined, ingested.attachment);
+      setExtractedResumeText(resumeFile ? ingested.text : '');
+      setResumeProfile(ingested.profile);
+      setJobDescription(jd);
       setAnalysis(analysisData);
       setView('dashboard');
       setEvaluationHistory({});
+      setEvaluationError(null);
       setMessages([]);
+      setSessionStartedAt(null);
+      setSessionClosed(false);
+      setSpokenDraft(null);
+      setCodingProblem(null);
+      setDesign(null);
+      setDesignOpen(false);
+      setDebrief(null);
+      setAdaptiveState(config.adaptive ? createAdaptiveState(config.difficulty) : null);
+      const sessionPlan = buildInterviewPlan(config, analysisData, seedQuestion);
+      setPlan(sessionPlan);
+      setCoaching([]);
+      setCoachError(null);
+      setSessionMeta({ id: createSessionId(), createdAt: Date.now() });
       setIsTyping(true);
-      const firstMsg = await getNextInterviewerMessage(config, [], role, resumeText || "File provided");
-      setMessages([{ role: 'interviewer', text: firstMsg }]);
+      // Fresh analysis, profile and plan aren't in state yet when the opening turn is built, so pass them directly.
+      await streamInterviewerTurn([], {
+        timing: getSessionTiming(config.duration, null, 0),
+        plan: sessionPlan,
+        jobDescription: jd ?? undefined,
+        skillMatrix: analysisData.skillMatrix,
+      }, ingested.profile);
+      const startedAt = Date.now();
+      setSessionStartedAt(startedAt);
+      setNow(startedAt);
     } catch (err: any) {
       setError(err.message || "Failed to initialize interview.");
     } finally {
@@ -68,77 +346,545 @@ const App: React.FC = () => {
     }
   };
 
+  const handleResumeSession = (record: SessionRecord) => {
+    const resumedAt = Date.now();
+    setRole(record.role);
+    setResumeText(record.resumeText);
+    setResumeFile(null);
+    setExtractedResumeText('');
+    // Sessions saved before local ingestion only kept the raw text.
+    setResumeProfile(record.resumeProfile ?? (record.resumeText ? ingestResumeText(record.resumeText).profile : null));
+    setAnalysis(record.analysis);
+    setJobDescription(record.jobDescription ?? null);
+    setConfig(record.config);
+    setMessages(record.messages);
+    setEvaluationHistory(record.evaluationHistory);
+    setEvaluation(null);
+    setEvaluationError(null);
+    setCodingProblem(null);
+    setDesign(record.design ?? null);
+    setDesignOpen(false);
+    setDesignEvaluation(null);
+    setDebrief(record.debrief ?? null);
+    setAdaptiveState(record.adaptive ?? null);
+    setPlan(record.plan ?? null);
+    setCoaching(record.coaching ?? []);
+    setCoachError(null);
+    setSessionClosed(record.closed);
+    setSessionStartedAt(resumedAt - record.elapsedMs);
+    setNow(resumedAt);
+    setSessionMeta({ id: record.id, createdAt: record.createdAt });
+    setError(null);
+    setView('dashboard');
+  };
+
+  const handleDuplicateSession = async (record: SessionRecord) => {
+    try {
+      await duplicateSession(record.id);
+      refreshSessions();
+    } catch (err: any) {
+      setError(err.message || "Failed to duplicate the session.");
+    }
+  };
+
+  const handleDeleteSession = async (record: SessionRecord) => {
+    if (!window.confirm(`Delete the ${record.role} session from ${new Date(record.updatedAt).toLocaleString()}?`)) return;
+    try {
+      await deleteSession(record.id);
+      refreshSessions();
+    } catch (err: any) {
+      setError(err.message || "Failed to delete the session.");
+    }
+  };
+
+  const handleImportSession = async (file: File) => {
+    setError(null);
+    try {
+      setReplay({ session: parseSessionFile(await file.text()), sourceName: file.name });
+      setView('replay');
+    } catch (err: any) {
+      setError(err.message || "Could not import that session file.");
+    }
+  };
+
+  const updateCustomRubrics = (next: Rubric[]) => {
+    setCustomRubrics(next);
+    saveCustomRubrics(next);
+  };
+
+  const handleImportRubric = async (file: File) => {
+    setRubricError(null);
+    try {
+      const imported = parseRubricFile(await file.text());
+      // Re-importing a rubric with the same id replaces the earlier version.
+      updateCustomRubrics([...customRubrics.filter(r => !imported.some(i => i.id === r.id)), ...imported]);
+      const forCategory = imported.find(r => r.category === config.category);
+      if (forCategory) setConfig(prev => ({ ...prev, rubricId: forCategory.id }));
+    } catch (err: any) {
+      setRubricError(err.message || "Could not import that rubric.");
+    }
+  };
+
+  const handleDeleteRubric = (rubric: Rubric) => {
+    updateCustomRubrics(customRubrics.filter(r => r.id !== rubric.id));
+    if (config.rubricId === rubric.id) setConfig(prev => ({ ...prev, rubricId: undefined }));
+  };
+
+  const updateCustomPersonas = (next: Persona[]) => {
+    setCustomPersonas(next);
+    saveCustomPersonas(next);
+  };
+
+  const handleSavePersona = (persona: Persona) => {
+    const exists = customPersonas.some(p => p.id === persona.id);
+    updateCustomPersonas(exists ? customPersonas.map(p => p.id === persona.id ? persona : p) : [...customPersonas, persona]);
+    setConfig(prev => ({ ...prev, personaId: persona.id }));
+    setEditingPersona(null);
+  };
+
+  const handleDeletePersona = (persona: Persona) => {
+    updateCustomPersonas(customPersonas.filter(p => p.id !== persona.id));
+    if (config.personaId === persona.id) setConfig(prev => ({ ...prev, personaId: undefined }));
+  };
+
+  const handleImportPersonas = async (file: File) => {
+    setPersonaError(null);
+    try {
+      const imported = parsePersonaFile(await file.text());
+      // Re-importing a persona with the same id replaces the earlier version.
+      updateCustomPersonas([...customPersonas.filter(p => !imported.some(i => i.id === p.id)), ...imported]);
+      if (imported.length === 1) setConfig(prev => ({ ...prev, personaId: imported[0].id }));
+    } catch (err: any) {
+      setPersonaError(err.message || "Could not import that persona file.");
+    }
+  };
+
+  const handleBuildQuestionBank = async () => {
+    if (!role || (!resumeText && !resumeFile)) {
+      setError("Please provide a role and a resume to continue.");
+      return;
+    }
+    setLoading(true);
+    setError(null);
+    try {
+      const { profile } = await ingestCurrentResume();
+      setResumeProfile(profile);
+      const questions = await generateQuestionBank(role, profile, config, QUESTION_BANK_SIZE);
+      setQuestionBank(questions);
+      setView('question-bank');
+    } catch (err: any) {
+      setError(err.message || "Failed to generate the question bank.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const togglePinnedQuestion = (question: InterviewQuestion) => {
+    setPinnedQuestions(prev => prev.some(q => q.text === question.text)
+      ? prev.filter(q => q.text !== question.text)
+      : [...prev, question]);
+  };
+
+  const toggleRecording = () => {
+    if (recording) {
+      recorderRef.current?.stop();
+      return;
+    }
+    cancelSpeech();
+    setVoiceError(null);
+    const typedPrefix = userInput.trim();
+    const startedAt = Date.now();
+    try {
+      recorderRef.current = startRecognition({
+        onTranscript: (transcript) => setUserInput(typedPrefix ? `${typedPrefix} ${transcript}` : transcript),
+        onEnd: (finalTranscript) => {
+          recorderRef.current = null;
+          setRecording(false);
+          if (!finalTranscript) return;
+          const speakingMs = Date.now() - startedAt;
+          setSpokenDraft(prev => prev
+            ? { transcript: `${prev.transcript} ${finalTranscript}`, speakingMs: prev.speakingMs + speakingMs }
+            : { transcript: finalTranscript, speakingMs });
+        },
+        onError: setVoiceError,
+      });
+      setRecording(true);
+    } catch (err: any) {
+      setVoiceError(err.message);
+    }
+  };
+
+  // Answers given alongside a diagram are graded on the design rubric instead.
+  // Coaching used on the question comes off the score either way.
+  const scoreAnswer = async (history: ChatMessage[], answerIdx: number): Promise<EvaluationResult> => {
+    const answer = history[answerIdx];
+    const questionIdx = findQuestionIndex(history, answerIdx);
+    const question = history[questionIdx];
+    const result = answer.design
+      ? await evaluateDesignAnswer(question.text, answer.text, answer.design, role)
+      : await evaluateAnswer(question.text, answer.text, role, resolveRubric(config, customRubrics), answer.delivery, config.panel);
+    return applyHintPenalty(result, coaching, questionIdx, config.hintPolicy);
+  };
+
+  // The question on the table: the latest interviewer message with any text.
+  const currentQuestionIdx = findQuestionIndex(messages, messages.length);
+
+  const requestCoaching = async (kind: 'hint' | 'clarification', request?: string) => {
+    if (currentQuestionIdx === -1 || coachLoading) return;
+    const level = kind === 'hint' ? nextHintLevel(coaching, currentQuestionIdx) : undefined;
+    if (level === null) return;
+    setCoachLoading(true);
+    setCoachError(null);
+    try {
+      const reply = await getCoachingReply({
+        kind,
+        level,
+        request,
+        question: messages[currentQuestionIdx].text,
+        draft: userInput,
+        earlier: coachingForQuestion(coaching, currentQuestionIdx),
+      }, role, config.category);
+      setCoaching(prev => [...prev, { kind, level, request, reply, questionIndex: currentQuestionIdx, at: Date.now() }]);
+    } catch (err: any) {
+      setCoachError(err.message || "The coach couldn't answer just now.");
+    } finally {
+      setCoachLoading(false);
+    }
+  };
+
+  // Scores an answer and files the result; a failure is shown inline with a retry.
+  // Background scoring (adaptive mode) never replaces a result the user asked for.
+  const recordEvaluation = async (history: ChatMessage[], answerIdx: number, background: boolean): Promise<void> => {
+    setEvaluationError(null);
+    try {
+      const result = await scoreAnswer(history, answerIdx);
+      setEvaluationHistory(prev => background && prev[answerIdx] ? prev : { ...prev, [answerIdx]: result });
+      if (!background) {
+        if (history[answerIdx].design) setDesignEvaluation(result as DesignEvaluation);
+        setEvaluation(result);
+      }
+      trackAdaptiveScore(answerIdx, result.score);
+      // Answers drawn on the design canvas can't be re-asked as text, so they aren't drilled.
+      if (!history[answerIdx].design) queueForPractice(history[findQuestionIndex(history, answerIdx)].text, result);
+    } catch (err: any) {
+      setEvaluationError({
+        message: `${background ? 'Background scoring' : 'Evaluation'} failed: ${err.message || 'unknown error'}`,
+        retry: () => recordEvaluation(history, answerIdx, background),
+      });
+    }
+  };
+
+  const handleRetryEvaluation = async () => {
+    if (!evaluationError) return;
+    setLoading(true);
+    try {
+      await evaluationError.retry();
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateReviewCards = (next: ReviewCard[]) => {
+    reviewCardsRef.current = next;
+    setReviewCards(next);
+    saveReviewCards(next);
+  };
+
+  const queueForPractice = (question: string, result: EvaluationResult) => {
+    const current = reviewCardsRef.current;
+    const next = addCardFromEvaluation(current, { question, role, category: configRef.current.category, evaluation: result, sessionId: sessionMeta?.id });
+    if (next !== current) updateReviewCards(next);
+  };
+
+  const startDrill = () => {
+    setDrillQueue(dueCards(reviewCards).slice(0, DRILL_SIZE));
+    setView('drill');
+  };
+
+  // Drill answers are graded on the category's default rubric; the card's own history is the benchmark.
+  const handleGradeDrillCard = async (card: ReviewCard, answer: string): Promise<ReviewCard> => {
+    const evaluation = await evaluateAnswer(card.question, answer, card.role, DEFAULT_RUBRICS[card.category]);
+    const next = reviewCard(card, evaluation, answer);
+    updateReviewCards(replaceCard(reviewCardsRef.current, next));
+    return next;
+  };
+
+  const trackAdaptiveScore = (answerIdx: number, score: number) => {
+    const current = configRef.current;
+    if (!current.adaptive || !adaptiveRef.current) return;
+    const { state, difficulty } = applyScore(adaptiveRef.current, current.difficulty, current.adaptive, answerIdx, score);
+    adaptiveRef.current = state;
+    setAdaptiveState(state);
+    if (difficulty !== current.difficulty) {
+      configRef.current = { ...current, difficulty };
+      setConfig(prev => ({ ...prev, difficulty }));
+    }
+  };
+
+  const speakerOf = (m: ChatMessage) => findPanelist(config.panel ?? [], m.speakerId);
+
+  const togglePanel = () => setConfig(prev => ({ ...prev, panel: prev.panel ? undefined : DEFAULT_PANEL }));
+
+  const updatePanelist = (id: string, patch: Partial<Panelist>) =>
+    setConfig(prev => ({ ...prev, panel: prev.panel?.map(p => p.id === id ? { ...p, ...patch } : p) }));
+
+  const addPanelist = () =>
+    setConfig(prev => prev.panel && prev.panel.length < MAX_PANELISTS ? { ...prev, panel: [...prev.panel, createPanelist(prev.panel)] } : prev);
+
+  const removePanelist = (id: string) =>
+    setConfig(prev => prev.panel && prev.panel.length > MIN_PANELISTS ? { ...prev, panel: prev.panel.filter(p => p.id !== id) } : prev);
+
+  const toggleAdaptive = () => {
+    if (config.adaptive) {
+      setConfig(prev => ({ ...prev, adaptive: undefined }));
+      return;
+    }
+    setConfig(prev => ({ ...prev, adaptive: { min: 'beginner', max: 'advanced' } }));
+    if (!adaptiveState) setAdaptiveState(createAdaptiveState(config.difficulty));
+  };
+
+  const setAdaptiveBound = (bound: 'min' | 'max', value: Difficulty) => {
+    setConfig(prev => {
+      if (!prev.adaptive) return prev;
+      const next = { ...prev.adaptive, [bound]: value };
+      // Keep the range non-empty: moving one bound past the other drags it along.
+      if (DIFFICULTY_LEVELS.indexOf(next.min) > DIFFICULTY_LEVELS.indexOf(next.max)) next[bound === 'min' ? 'max' : 'min'] = value;
+      return { ...prev, adaptive: next, difficulty: clampDifficulty(prev.difficulty, next.min, next.max) };
+    });
+  };
+
   const handleSendMessage = async () => {
-    if (!userInput.trim() || isTyping) return;
-    const newUserMsg: ChatMessage = { role: 'user', text: userInput };
-    const currentMessages = [...messages, newUserMsg];
-    setMessages(currentMessages);
+    if (!userInput.trim() || isTyping || sessionClosed || recording) return;
+    const sentAt = Date.now();
+    const newUserMsg: ChatMessage = {
+      role: 'user',
+      text: userInput,
+      sentAt,
+      latencyMs: answerLatency(messages, sentAt),
+      delivery: spokenDraft ? computeDeliveryMetrics(spokenDraft.transcript, spokenDraft.speakingMs) : undefined,
+      design: designOpen && !isEmptyDesign(design) ? design! : undefined,
+    };
+    setSpokenDraft(null);
     setUserInput('');
     setIsTyping(true);
     setEvaluation(null);
     setShowModelAnswer(false);
 
+    const history = [...messages, newUserMsg];
+    const answerIdx = messages.length;
+    if (config.adaptive) {
+      // Runs alongside the interviewer's reply; a new difficulty applies from the next turn.
+      recordEvaluation(history, answerIdx, true);
+    }
+    const turnTiming = getSessionTiming(config.duration, sessionStartedAt, Date.now());
+    let nextPlan = plan && recordPlanAnswer(plan, answerIdx);
+    // Out of time: whatever the plan had left, the next turn closes.
+    if (nextPlan && turnTiming.remainingMs <= 0) nextPlan = moveToPhase(nextPlan, 'close', history.length);
+    setPlan(nextPlan);
+
     try {
-      const reply = await getNextInterviewerMessage(config, currentMessages, role, resumeText || "File provided");
-      setMessages(prev => [...prev, { role: 'interviewer', text: reply }]);
-    } catch (err) {
-      console.error(err);
+      await streamInterviewerTurn(history, { timing: turnTiming, plan: nextPlan ?? undefined });
     } finally {
       setIsTyping(false);
     }
   };
 
-  const handleEvaluate = async () => {
-    const lastUserMsg = [...messages].reverse().find(m => m.role === 'user');
-    let lastInterviewerMsgIdx = -1;
-    for (let i = messages.length - 1; i >= 0; i--) {
-      if (messages[i].role === 'interviewer') {
-        lastInterviewerMsgIdx = i;
-        break;
+  const closeSession = async () => {
+    const closingPlan = plan && moveToPhase(plan, 'close', messages.length);
+    setPlan(closingPlan);
+    setSessionClosed(true);
+    setIsTyping(true);
+    try {
+      await streamInterviewerTurn(messages, { timing: getSessionTiming(config.duration, sessionStartedAt, Date.now()), plan: closingPlan ?? undefined });
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  // Skipping ahead or revisiting takes effect at once: the interviewer moves the conversation there.
+  const handleMoveToPhase = async (phase: InterviewPhase) => {
+    if (!plan || isTyping || loading || sessionClosed) return;
+    const nextPlan = moveToPhase(plan, phase, messages.length);
+    setPlan(nextPlan);
+    setIsTyping(true);
+    try {
+      await streamInterviewerTurn(messages, { timing: getSessionTiming(config.duration, sessionStartedAt, Date.now()), plan: nextPlan });
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  const handleStartCodingRound = async () => {
+    if (isTyping || sessionClosed) return;
+    setLoading(true);
+    try {
+      const problem = await generateCodingProblem(role, config, resumeProfile);
+      setCodingProblem(problem);
+      setCodingEvaluation(null);
+      setDesignOpen(false);
+      setMessages(prev => [...prev, {
+        role: 'interviewer',
+        text: `Let's switch to a live coding exercise: ${problem.title}.\n\n${problem.statement}\n\nImplement ${problem.signature} in the editor, run the examples, and submit when you're ready.`,
+        sentAt: Date.now(),
+      }]);
+    } catch (err: any) {
+      setCodingProblem(null);
+      setMessages(prev => [...prev, { role: 'interviewer', text: '', status: 'failed', error: err.message || "Could not generate a coding problem.", retryAction: 'coding-problem', sentAt: Date.now() }]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmitCode = async (code: string, language: CodeLanguage, results: TestResult[]) => {
+    const problem = codingProblem;
+    if (!problem || isTyping || sessionClosed) return;
+    const sentAt = Date.now();
+    const passed = results.filter(r => r.passed).length;
+    const submission: ChatMessage = {
+      role: 'user',
+      text: `Submitted ${language} solution (${passed}/${results.length} hidden tests passed):\n\n\`\`\`${language}\n${code}\n\`\`\``,
+      sentAt,
+      latencyMs: answerLatency(messages, sentAt),
+      submission: { language, code, passed, total: results.length },
+    };
+    const answerIdx = messages.length;
+    const history = [...messages, submission];
+    setMessages(history);
+    // Held from here so a second submit can't land while this one is still being scored.
+    setIsTyping(true);
+    const scoreSubmission = async (): Promise<void> => {
+      setEvaluationError(null);
+      try {
+        const evalData = await evaluateCodingSubmission(problem, code, language, results, role);
+        setCodingEvaluation(evalData);
+        setEvaluationHistory(prev => ({ ...prev, [answerIdx]: evalData }));
+        trackAdaptiveScore(answerIdx, evalData.score);
+      } catch (err: any) {
+        setEvaluationError({ message: `Code evaluation failed: ${err.message || 'unknown error'}`, retry: scoreSubmission });
       }
+    };
+    const turnTiming = getSessionTiming(config.duration, sessionStartedAt, Date.now());
+    // A submission is an answer like any other: it counts toward the phase, and out of time the next turn closes.
+    let nextPlan = plan && recordPlanAnswer(plan, answerIdx);
+    if (nextPlan && turnTiming.remainingMs <= 0) nextPlan = moveToPhase(nextPlan, 'close', history.length);
+    setPlan(nextPlan);
+    try {
+      await scoreSubmission();
+      await streamInterviewerTurn(history, { timing: turnTiming, plan: nextPlan ?? undefined });
+    } finally {
+      setIsTyping(false);
     }
-    const lastInterviewerMsg = messages[lastInterviewerMsgIdx];
-    if (!lastUserMsg || !lastInterviewerMsg) return;
+  };
+
+  const handleStartDesignRound = async () => {
+    if (isTyping || sessionClosed) return;
+    setCodingProblem(null);
+    setDesignOpen(true);
+    if (design) return;
+    const fresh = emptyDesign();
+    setDesign(fresh);
+    setDesignEvaluation(null);
+    setIsTyping(true);
+    try {
+      await streamInterviewerTurn(messages, { timing: getSessionTiming(config.duration, sessionStartedAt, Date.now()), design: fresh });
+    } finally {
+      setIsTyping(false);
+    }
+  };
+
+  const handleEvaluate = async () => {
+    // Grade the latest answer against the question it was answering, not whatever the interviewer asked next.
+    const answerIdx = lastAnswerIndex(messages);
+    const questionIdx = answerIdx === -1 ? -1 : findQuestionIndex(messages, answerIdx);
+    if (questionIdx === -1) return;
 
     setLoading(true);
     try {
-      const evalData = await evaluateAnswer(lastInterviewerMsg.text, lastUserMsg.text, role);
-      setEvaluation(evalData);
-      setEvaluationHistory(prev => ({ ...prev, [lastInterviewerMsgIdx + 1]: evalData }));
-    } catch (err) {
-      console.error(err);
+      await recordEvaluation(messages, answerIdx, false);
     } finally {
       setLoading(false);
     }
   };
 
-  const handleExport = () => {
+  const handleGenerateDebrief = async () => {
+    setDebriefLoading(true);
+    setDebriefError(null);
+    try {
+      setDebrief(await generateSessionDebrief(messages, analysis, evaluationHistory, role, config));
+    } catch (err: any) {
+      setDebriefError(err.message || "Could not write the debrief.");
+    } finally {
+      setDebriefLoading(false);
+    }
+  };
+
+  const openDebrief = () => {
+    setView('debrief');
+    if (!debrief && !debriefLoading) handleGenerateDebrief();
+  };
+
+  const handleExport = (format: 'markdown' | 'json' | 'pdf') => {
+    setExportMenuOpen(false);
     if (messages.length === 0) return;
-    let report = `INTERVIEWGEN PRO - SESSION REPORT\n`;
-    report += `==========================================\n\n`;
-    report += `Role: ${role}\nDifficulty: ${config.difficulty}\nStyle: ${config.style}\nDate: ${new Date().toLocaleString()}\n\n`;
-    if (analysis) {
-      report += `RESUME INSIGHTS\n---------------\nMissing Skills: ${analysis.missingSkills.join(', ')}\n\n`;
+    const report = buildSessionReport(currentSessionRecord());
+    const basename = `InterviewGen_Report_${role.replace(/\s+/g, '_')}`;
+    try {
+      if (format === 'markdown') downloadFile(`${basename}.md`, renderMarkdown(report), 'text/markdown');
+      else if (format === 'json') downloadFile(`${basename}.json`, renderJson(report), 'application/json');
+      else printHtml(renderPrintableHtml(report));
+    } catch (err: any) {
+      window.alert(err.message || "Export failed.");
     }
-    report += `TRANSCRIPT\n----------\n`;
-    messages.forEach((m, idx) => {
-      report += `${m.role.toUpperCase()}: ${m.text}\n`;
-      if (evaluationHistory[idx]) {
-        report += `[EVALUATION] Score: ${evaluationHistory[idx].score}/10 | Feedback: ${evaluationHistory[idx].feedback}\n`;
-      }
-      report += `\n`;
-    });
-    const blob = new Blob([report], { type: 'text/plain' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `InterviewGen_Report_${role.replace(/\s+/g, '_')}.txt`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
   };
 
+  if (view === 'question-bank') {
+    return (
+      <QuestionBank
+        role={role}
+        questions={[...pinnedQuestions.filter(p => !questionBank.some(q => q.text === p.text)), ...questionBank]}
+        pinned={pinnedQuestions.map(q => q.text)}
+        loading={loading}
+        onTogglePin={togglePinnedQuestion}
+        onStart={(q) => handleStart(q)}
+        onRegenerate={handleBuildQuestionBank}
+        onBack={() => setView(messages.length > 0 ? 'dashboard' : 'landing')}
+      />
+    );
+  }
+
+  if (view === 'replay' && replay) {
+    return (
+      <SessionReplay
+        session={replay.session}
+        sourceName={replay.sourceName}
+        onEvaluate={(question, answer) => evaluateAnswer(question, answer, replay.session.role, resolveRubric(replay.session.config, customRubrics))}
+        onBack={() => setView('landing')}
+      />
+    );
+  }
+
+  if (view === 'debrief') {
+    return (
+      <DebriefView
+        role={role}
+        debrief={debrief}
+        stale={!!debrief && debrief.messageCount < messages.length}
+        loading={debriefLoading}
+        error={debriefError}
+        onRegenerate={handleGenerateDebrief}
+        onBack={() => setView('dashboard')}
+      />
+    );
+  }
+
+  if (view === 'drill') {
+    return <DailyDrill queue={drillQueue} totalCards={reviewCards.length} onGrade={handleGradeDrillCard} onBack={() => setView(messages.length > 0 ? 'dashboard' : 'landing')} />;
+  }
+
+  if (view === 'progress') {
+    return <ProgressDashboard sessions={sessions} onBack={() => setView(messages.length > 0 ? 'dashboard' : 'landing')} />;
+  }
+
   if (view === 'landing') {
     return (
       <div className="min-h-screen bg-[#f8fafc] dark:bg-[#0f172a] text-slate-900 dark:text-white flex flex-col items-center justify-center p-6 transition-colors duration-500">
@@ -172,12 +918,27 @@ const App: React.FC = () => {
                   onClick={() => fileInputRef.current?.click()}
                   className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 hover:border-indigo-500 rounded-3xl px-6 py-5 text-sm font-bold transition-all flex items-center justify-center gap-4 text-slate-600 dark:text-slate-400"
                 >
-                  {resumeFile ? `✓ ${resumeFile.name}` : "Drop your PDF or Image here"}
+                  {resumeFile ? `✓ ${resumeFile.name}` : "Drop your PDF, image or text file here"}
                 </button>
-                <input type="file" ref={fileInputRef} hidden accept="application/pdf,image/*" onChange={async (e) => {
+                <input type="file" ref={fileInputRef} hidden accept="application/pdf,image/*,text/plain,.txt,.md" onChange={async (e) => {
                   const file = e.target.files?.[0];
-                  if (file) setResumeFile({ data: await fileToBase64(file), mimeType: file.type, name: file.name });
+                  if (!file) return;
+                  setSendResumeAsIs(false);
+                  // Plain text goes straight into the editor so it can be checked before starting.
+                  if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
+                    const data = await fileToBase64(file);
+                    setResumeFile({ data, mimeType: file.type, name: file.name, unreadable: await needsAttachment({ data, mimeType: file.type }) });
+                  } else {
+                    setResumeFile(null);
+                    setResumeText(await file.text());
+                  }
                 }} />
+                {resumeFile?.unreadable && (
+                  <label className="flex items-start gap-3 px-2 text-left text-xs font-bold text-amber-600 dark:text-amber-400">
+                    <input type="checkbox" className="mt-0.5" checked={sendResumeAsIs} onChange={(e) => setSendResumeAsIs(e.target.checked)} />
+                    No text could be read from this file, so its contact details can't be redacted. Send the file to the model as is.
+                  </label>
+                )}
               </div>
             </div>
             <textarea 
@@ -186,15 +947,82 @@ const App: React.FC = () => {
               onChange={(e) => setResumeText(e.target.value)}
               className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-[2rem] px-8 py-6 h-40 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all resize-none font-medium"
             />
+            <div className="space-y-4 text-left">
+              <div className="flex items-center justify-between px-1">
+                <label className="text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest">Job Description (optional)</label>
+                <div className="flex items-center gap-4">
+                  {jdFile && <button onClick={() => setJdFile(null)} className="text-[10px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest">Remove {jdFile.name}</button>}
+                  <button onClick={() => jdInputRef.current?.click()} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">Upload</button>
+                </div>
+                <input type="file" ref={jdInputRef} hidden accept="application/pdf,image/*,text/plain,.txt,.md" onChange={async (e) => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (!file) return;
+                  // Plain-text postings go into the editor so they can be trimmed before analysis.
+                  if (file.type.startsWith('text/') || /\.(txt|md)$/i.test(file.name)) {
+                    setJdText(await file.text());
+                    setJdFile(null);
+                  } else {
+                    setJdFile({ data: await fileToBase64(file), mimeType: file.type, name: file.name });
+                  }
+                }} />
+              </div>
+              {!jdFile && (
+                <textarea
+                  placeholder="Paste the job posting to focus the interview on what this role actually asks for..."
+                  value={jdText}
+                  onChange={(e) => setJdText(e.target.value)}
+                  className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-[2rem] px-8 py-6 h-32 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all resize-none font-medium"
+                />
+              )}
+            </div>
+            <div className="space-y-4 text-left">
+              <label className="text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest px-1">Interview Category</label>
+              <div className="grid grid-cols-2 gap-3">
+                {CATEGORY_OPTIONS.map(c => (
+                  <button key={c.value} onClick={() => setConfig(prev => ({ ...prev, category: c.value }))}
+                    className={`px-6 py-4 rounded-2xl text-left border transition-all ${config.category === c.value ? 'border-indigo-500 bg-indigo-500/5 text-slate-900 dark:text-white' : 'border-slate-200 dark:border-slate-700 text-slate-500 hover:border-indigo-300'}`}>
+                    <div className="text-sm font-black">{c.label}</div>
+                    <div className="text-[10px] font-medium opacity-70 mt-1">{c.description}</div>
+                  </button>
+                ))}
+              </div>
+            </div>
             <button 
-              onClick={handleStart}
+              onClick={() => handleStart()}
               disabled={loading}
               className="w-full bg-gradient-to-r from-indigo-600 via-purple-600 to-teal-500 hover:scale-[1.01] text-white font-black py-6 rounded-3xl shadow-2xl shadow-indigo-500/20 transition-all active:scale-95 disabled:opacity-50 text-xl"
             >
               {loading ? 'Crunching Global Standards...' : 'Launch AI Assessment'}
             </button>
-            {error && <p className="text-red-500 text-sm font-bold">{error}</p>}
+            <button
+              onClick={handleBuildQuestionBank}
+              disabled={loading}
+              className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 hover:border-indigo-500 text-slate-600 dark:text-slate-300 font-black py-5 rounded-3xl transition-all disabled:opacity-50"
+            >
+              Build Question Bank
+            </button>
+            {error && <p className="text-red-500 text-sm font-bold whitespace-pre-line text-left">{error}</p>}
           </div>
+
+          <div className="flex items-center justify-center gap-10">
+            {reviewCards.length > 0 && (
+              <button onClick={startDrill} className="text-xs font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">
+                Daily Drill · {dueCards(reviewCards).length} of {reviewCards.length} due →
+              </button>
+            )}
+            {sessions.length > 0 && (
+              <button onClick={() => setView('progress')} className="text-xs font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">View Progress Across {sessions.length} Sessions →</button>
+            )}
+            <button onClick={() => importInputRef.current?.click()} className="text-xs font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">Import & Replay Session</button>
+            <input type="file" ref={importInputRef} hidden accept="application/json,.json" onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) handleImportSession(file);
+            }} />
+          </div>
+
+          <SessionList sessions={sessions} onResume={handleResumeSession} onDuplicate={handleDuplicateSession} onDelete={handleDeleteSession} />
         </div>
       </div>
     );
@@ -211,6 +1039,19 @@ const App: React.FC = () => {
         </div>
 
         <div className="p-8 space-y-10 overflow-y-auto no-scrollbar">
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Interview Category</h3>
+            <div className="space-y-2">
+              {CATEGORY_OPTIONS.map(c => (
+                <button key={c.value} onClick={() => setConfig(prev => ({ ...prev, category: c.value }))}
+                  className={`w-full px-5 py-3 rounded-2xl transition-all text-left ${config.category === c.value ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+                  <div className="text-xs font-bold">{c.label}</div>
+                  <div className="text-[9px] font-medium opacity-70 leading-tight mt-1">{c.description}</div>
+                </button>
+              ))}
+            </div>
+          </section>
+
           <section className="space-y-4">
             <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Difficulty Matrix</h3>
             <div className="space-y-2">
@@ -221,19 +1062,174 @@ const App: React.FC = () => {
                 </button>
               ))}
             </div>
+            <button onClick={toggleAdaptive}
+              className={`w-full px-5 py-3 rounded-2xl text-xs font-bold transition-all text-left ${config.adaptive ? 'bg-teal-500 text-white shadow-xl shadow-teal-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+              {config.adaptive ? '⇅ Adaptive: follows your scores' : 'Adaptive difficulty: off'}
+            </button>
+            {config.adaptive && (
+              <div className="grid grid-cols-2 gap-2">
+                {(['min', 'max'] as const).map(bound => (
+                  <label key={bound} className="space-y-1">
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{bound === 'min' ? 'Floor' : 'Ceiling'}</span>
+                    <select value={config.adaptive![bound]} onChange={(e) => setAdaptiveBound(bound, e.target.value as Difficulty)}
+                      className="w-full bg-slate-50 dark:bg-slate-800/50 rounded-xl px-3 py-2 text-xs font-bold capitalize outline-none">
+                      {DIFFICULTY_LEVELS.map(d => <option key={d} value={d}>{d}</option>)}
+                    </select>
+                  </label>
+                ))}
+              </div>
+            )}
+            {adaptiveState && (adaptiveState.estimate !== null || adaptiveState.adjustments.length > 0) && (
+              <div className="space-y-2">
+                <div className="flex justify-between text-[10px] font-black">
+                  <span className="text-slate-400 uppercase tracking-widest">Running estimate</span>
+                  <span>{adaptiveState.estimate !== null ? `${adaptiveState.estimate}/10` : '—'}</span>
+                </div>
+                <ol className="space-y-1.5 text-[10px] font-bold text-slate-500">
+                  <li className="capitalize">● Started at {adaptiveState.startedAt}</li>
+                  {adaptiveState.adjustments.map((a, i) => (
+                    <li key={i} title={a.reason} className={DIFFICULTY_LEVELS.indexOf(a.to) > DIFFICULTY_LEVELS.indexOf(a.from) ? 'text-teal-600' : 'text-amber-600'}>
+                      {DIFFICULTY_LEVELS.indexOf(a.to) > DIFFICULTY_LEVELS.indexOf(a.from) ? '▲' : '▼'} {a.from} → {a.to} <span className="text-slate-400">(est. {a.estimate}/10)</span>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
           </section>
 
           <section className="space-y-4">
-            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Interviewer Persona</h3>
-            <div className="space-y-2">
-              {['faang', 'startup', 'service-based'].map(s => (
-                <button key={s} onClick={() => setConfig(prev => ({...prev, style: s as any}))}
-                  className={`w-full px-6 py-5 rounded-[2rem] text-left border ${config.style === s ? 'bg-white dark:bg-slate-800 border-indigo-500/50 text-slate-900 dark:text-white shadow-2xl' : 'border-transparent text-slate-400 hover:bg-slate-50'}`}>
-                  <div className="text-xs font-black capitalize">{s.replace('-', ' ')}</div>
-                  <div className="text-[9px] font-medium opacity-60 leading-tight mt-1">{s === 'faang' ? 'Analytical & Probing' : s === 'startup' ? 'Dynamic & Practical' : 'Structured & Thorough'}</div>
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Voice Mode</h3>
+            <button onClick={() => setVoiceMode(!voiceMode)} disabled={!isSpeechSynthesisSupported() && !isSpeechRecognitionSupported()}
+              className={`w-full px-5 py-3 rounded-2xl text-xs font-bold transition-all text-left disabled:opacity-40 ${voiceMode ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+              {voiceMode ? '🎙 On: spoken interview' : 'Off: typed interview'}
+            </button>
+            {voiceMode && !isSpeechRecognitionSupported() && <p className="text-[10px] font-bold text-amber-500">This browser can't transcribe speech; type your answers instead.</p>}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Hint Policy</h3>
+            <div className="grid grid-cols-2 gap-2">
+              {(Object.keys(HINT_POLICIES) as HintPolicyId[]).map(id => (
+                <button key={id} onClick={() => setConfig(prev => ({ ...prev, hintPolicy: id }))} title={HINT_POLICIES[id].description}
+                  className={`px-3 py-3 rounded-2xl text-xs font-bold transition-all ${(config.hintPolicy ?? DEFAULT_HINT_POLICY) === id ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+                  {HINT_POLICIES[id].label}
                 </button>
               ))}
             </div>
+            <p className="text-[10px] font-bold text-slate-400">{HINT_POLICIES[config.hintPolicy ?? DEFAULT_HINT_POLICY].description}.</p>
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Session Length</h3>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(DURATION_MINUTES) as Duration[]).map(d => (
+                <button key={d} onClick={() => setConfig(prev => ({...prev, duration: d}))}
+                  className={`px-3 py-3 rounded-2xl text-xs font-bold transition-all ${config.duration === d ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+                  {DURATION_MINUTES[d]} min
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Scoring Rubric</h3>
+              <button onClick={() => rubricInputRef.current?.click()} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">Import JSON</button>
+              <input type="file" ref={rubricInputRef} hidden accept="application/json,.json" onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImportRubric(file);
+              }} />
+            </div>
+            <div className="space-y-2">
+              {rubricsForCategory(config.category, customRubrics).map(r => {
+                const active = resolveRubric(config, customRubrics).id === r.id;
+                return (
+                  <div key={r.id} className={`flex items-center gap-2 rounded-2xl ${active ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+                    <button onClick={() => setConfig(prev => ({ ...prev, rubricId: r.id }))} className="flex-1 px-5 py-3 text-left">
+                      <div className="text-xs font-bold">{r.name}</div>
+                      <div className="text-[9px] font-medium opacity-70 leading-tight mt-1">{r.criteria.map(c => c.name).join(' · ')}</div>
+                    </button>
+                    {!r.builtIn && (
+                      <button onClick={() => handleDeleteRubric(r)} title="Remove rubric" className="px-4 text-xs font-black opacity-60 hover:opacity-100">×</button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {rubricError && <p className="text-[10px] font-bold text-red-500 whitespace-pre-wrap">{rubricError}</p>}
+          </section>
+
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Interviewer Persona</h3>
+              <div className="flex gap-3">
+                <button onClick={() => setEditingPersona(emptyPersona())} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">New</button>
+                <button onClick={() => personaInputRef.current?.click()} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">Import</button>
+                <button onClick={() => downloadFile('interviewgen-personas.json', serializePersonas(customPersonas), 'application/json')} disabled={customPersonas.length === 0}
+                  className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest disabled:opacity-30">Export</button>
+              </div>
+              <input type="file" ref={personaInputRef} hidden accept="application/json,.json" onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) handleImportPersonas(file);
+              }} />
+            </div>
+            <div className="space-y-2">
+              {[...Object.values(BUILT_IN_PERSONAS), ...customPersonas].map(p => {
+                const active = resolvePersona(config, customPersonas).id === p.id;
+                return (
+                  <div key={p.id} className={`flex items-center gap-2 rounded-[2rem] border ${active ? 'bg-white dark:bg-slate-800 border-indigo-500/50 text-slate-900 dark:text-white shadow-2xl' : 'border-transparent text-slate-400 hover:bg-slate-50'}`}>
+                    <button onClick={() => setConfig(prev => p.builtIn ? { ...prev, style: p.id as InterviewConfig['style'], personaId: undefined } : { ...prev, personaId: p.id })}
+                      className="flex-1 px-6 py-5 text-left">
+                      <div className="text-xs font-black">{p.name}</div>
+                      <div className="text-[9px] font-medium opacity-60 leading-tight mt-1">{p.tone}</div>
+                    </button>
+                    {!p.builtIn && (
+                      <>
+                        <button onClick={() => setEditingPersona(p)} title="Edit persona" className="text-[10px] font-black opacity-60 hover:opacity-100">✎</button>
+                        <button onClick={() => handleDeletePersona(p)} title="Remove persona" className="pr-5 pl-2 text-xs font-black opacity-60 hover:opacity-100">×</button>
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {personaError && <p className="text-[10px] font-bold text-red-500 whitespace-pre-wrap">{personaError}</p>}
+          </section>
+
+          <section className="space-y-4">
+            <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Interview Panel</h3>
+            <button onClick={togglePanel}
+              className={`w-full px-5 py-3 rounded-2xl text-xs font-bold transition-all text-left ${config.panel ? 'bg-teal-500 text-white shadow-xl shadow-teal-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+              {config.panel ? `👥 Panel of ${config.panel.length} taking turns` : 'Panel mode: off (one-on-one)'}
+            </button>
+            {config.panel && (
+              <div className="space-y-3">
+                {config.panel.map(p => (
+                  <div key={p.id} className="bg-slate-50 dark:bg-slate-800/50 rounded-2xl p-4 space-y-2">
+                    <div className="flex gap-2">
+                      <input value={p.name} onChange={(e) => updatePanelist(p.id, { name: e.target.value })} placeholder="Name"
+                        className="w-1/2 bg-white dark:bg-slate-900/50 rounded-xl px-3 py-2 text-xs font-bold outline-none" />
+                      <input value={p.title} onChange={(e) => updatePanelist(p.id, { title: e.target.value })} placeholder="Title"
+                        className="w-1/2 bg-white dark:bg-slate-900/50 rounded-xl px-3 py-2 text-xs font-bold outline-none" />
+                      {config.panel!.length > MIN_PANELISTS && (
+                        <button onClick={() => removePanelist(p.id)} title="Remove panelist" className="px-1 text-xs font-black text-slate-400 hover:text-red-500">×</button>
+                      )}
+                    </div>
+                    <select value={p.personaId} onChange={(e) => updatePanelist(p.id, { personaId: e.target.value })}
+                      className="w-full bg-white dark:bg-slate-900/50 rounded-xl px-3 py-2 text-xs font-bold outline-none">
+                      {[...Object.values(BUILT_IN_PERSONAS), ...customPersonas].map(persona => <option key={persona.id} value={persona.id}>{persona.name}</option>)}
+                    </select>
+                    <input value={p.focus} onChange={(e) => updatePanelist(p.id, { focus: e.target.value })} placeholder="Focus, e.g. API design and testing"
+                      className="w-full bg-white dark:bg-slate-900/50 rounded-xl px-3 py-2 text-xs font-medium outline-none" />
+                  </div>
+                ))}
+                {config.panel.length < MAX_PANELISTS && (
+                  <button onClick={addPanelist} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">+ Add panelist</button>
+                )}
+              </div>
+            )}
           </section>
         </div>
 
@@ -247,26 +1243,61 @@ const App: React.FC = () => {
         <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12 z-10">
           <div className="flex flex-col">
             <div className="flex items-center gap-3">
-              <div className="w-2.5 h-2.5 rounded-full bg-teal-500 animate-pulse" />
+              <div className={`w-2.5 h-2.5 rounded-full ${sessionClosed ? 'bg-slate-400' : 'bg-teal-500 animate-pulse'}`} />
               <h2 className="text-base font-black tracking-tight dark:text-white">Active Session: {role}</h2>
             </div>
-            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{config.style} Expert Mode</span>
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{resolvePersona(config, customPersonas).name} Expert Mode · {CATEGORY_OPTIONS.find(c => c.value === config.category)?.label}</span>
           </div>
           <div className="flex items-center gap-8">
-            <button onClick={handleExport} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest flex items-center gap-2">REPORT <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" strokeWidth="2" strokeLinecap="round"/></svg></button>
-            <button onClick={() => {setMessages([]); handleStart();}} className="px-6 py-2.5 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:scale-105 transition-transform">RESTART</button>
+            <div className="flex flex-col items-end">
+              <span className={`text-2xl font-black tabular-nums tracking-tight ${timing.remainingMs / timing.totalMs <= WRAP_UP_THRESHOLD ? 'text-red-500' : 'text-slate-900 dark:text-white'}`}>{formatClock(timing.remainingMs)}</span>
+              <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">{sessionClosed ? 'Session Closed' : 'Time Remaining'}</span>
+            </div>
+            <button onClick={handleStartCodingRound} disabled={loading || isTyping || sessionClosed} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest disabled:opacity-50">{codingProblem ? 'NEW PROBLEM' : 'CODE'}</button>
+            <button onClick={handleStartDesignRound} disabled={isTyping || sessionClosed || designOpen} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest disabled:opacity-50">DESIGN</button>
+            <button onClick={openDebrief} disabled={!messages.some(m => m.role === 'user')} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest disabled:opacity-50">DEBRIEF</button>
+            <button onClick={() => questionBank.length > 0 ? setView('question-bank') : handleBuildQuestionBank()} disabled={loading} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest disabled:opacity-50">BANK</button>
+            <div className="relative">
+              <button onClick={() => setExportMenuOpen(!exportMenuOpen)} disabled={messages.length === 0} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest flex items-center gap-2 disabled:opacity-50">REPORT <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" strokeWidth="2" strokeLinecap="round"/></svg></button>
+              {exportMenuOpen && (
+                <div className="absolute right-0 top-8 w-44 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl shadow-2xl overflow-hidden z-20">
+                  {([['markdown', 'Markdown (.md)'], ['json', 'JSON (.json)'], ['pdf', 'Print / PDF']] as const).map(([format, label]) => (
+                    <button key={format} onClick={() => handleExport(format)} className="w-full px-5 py-3 text-left text-xs font-bold text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700">{label}</button>
+                  ))}
+                </div>
+              )}
+            </div>
+            {/* Imported sessions, and PDF sessions saved before the extracted text was kept, have no resume to restart from. */}
+            <button onClick={() => handleStart()} disabled={loading || isTyping || (!resumeText && !resumeFile)} title={!resumeText && !resumeFile ? 'This session has no saved resume to restart from.' : undefined} className="px-6 py-2.5 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:scale-105 transition-transform disabled:opacity-50 disabled:hover:scale-100">RESTART</button>
           </div>
         </header>
+        {error && <p className="px-12 pt-4 text-red-500 text-sm font-bold whitespace-pre-line">{error}</p>}
+
+        {plan && <PhaseTracker plan={plan} onSelect={handleMoveToPhase} disabled={isTyping || loading || sessionClosed} />}
 
+        <div className="flex-1 flex min-h-0">
+        <div className="flex-1 flex flex-col min-w-0">
         <div className="flex-1 overflow-y-auto p-12 space-y-12 no-scrollbar scroll-smooth">
-          {messages.map((m, i) => (
+          {messages.map((m, i) => m.status === 'streaming' && !m.text ? null : (
             <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2`}>
-              <div className={`max-w-[70%] rounded-[2.5rem] px-10 py-6 shadow-sm ${m.role === 'user' ? 'bg-gradient-to-tr from-indigo-600 to-purple-600 text-white shadow-indigo-500/10' : 'bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-800 dark:text-slate-100'}`}>
-                <p className="text-base leading-relaxed whitespace-pre-wrap font-medium">{m.text}</p>
+              <div className={`max-w-[70%] rounded-[2.5rem] px-10 py-6 shadow-sm ${m.role === 'user' ? 'bg-gradient-to-tr from-indigo-600 to-purple-600 text-white shadow-indigo-500/10' : m.status === 'failed' ? 'bg-red-50 dark:bg-red-950/30 border border-red-200 dark:border-red-900 text-slate-800 dark:text-slate-100' : 'bg-slate-50 dark:bg-slate-800 border border-slate-100 dark:border-slate-700 text-slate-800 dark:text-slate-100'}`}>
+                {speakerOf(m) && <p className="mb-2 text-[10px] font-black text-indigo-500 uppercase tracking-widest">{panelistLabel(speakerOf(m)!)}</p>}
+                <p className="text-base leading-relaxed whitespace-pre-wrap font-medium">{m.text}{m.status === 'streaming' && <span className="inline-block w-2 h-4 ml-1 align-middle bg-indigo-500 animate-pulse" />}</p>
+                {m.delivery && <p className="mt-3 text-[10px] font-black uppercase tracking-widest opacity-70">🎙 {m.delivery.wordsPerMinute} wpm · {m.delivery.fillerCount} filler{m.delivery.fillerCount === 1 ? '' : 's'} · {formatClock(m.delivery.speakingMs)}</p>}
+                {m.guardrailFlags && <p className="mt-3 text-[10px] font-black text-amber-500 uppercase tracking-widest">⚠ Off-limits topic flagged: {m.guardrailFlags.join(', ')}</p>}
+                {m.status === 'stopped' && <p className="mt-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Stopped</p>}
+                {m.status === 'failed' && (
+                  <div className="mt-3 flex items-start justify-between gap-6">
+                    <p className="text-[10px] font-black text-red-500 uppercase tracking-widest whitespace-pre-line">⚠ Response interrupted: {m.error}</p>
+                    {i === messages.length - 1 && (
+                      <button onClick={handleRetryTurn} disabled={isTyping || loading} className="shrink-0 px-4 py-2 bg-red-500 text-white text-[10px] font-black rounded-xl uppercase tracking-widest disabled:opacity-50">Retry</button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           ))}
-          {isTyping && (
+          {isTyping && !messages[messages.length - 1]?.text && (
             <div className="flex justify-start">
               <div className="bg-slate-50 dark:bg-slate-800 rounded-full px-8 py-5 flex gap-2">
                 <div className="w-1.5 h-1.5 bg-indigo-500 rounded-full animate-bounce [animation-delay:-0.3s]" />
@@ -289,6 +1320,48 @@ const App: React.FC = () => {
                  </div>
                  <div className="p-10 space-y-6">
                     <p className="text-base text-slate-600 dark:text-slate-300 italic font-medium leading-relaxed">"{evaluation.feedback}"</p>
+                    {evaluation.hintPenalty && (
+                      <p className="text-[10px] font-black text-amber-600 uppercase tracking-widest">{describeHintPenalty(evaluation.hintPenalty)}</p>
+                    )}
+                    {evaluation.score < LOW_SCORE_THRESHOLD && evaluation !== designEvaluation && (
+                      <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">This question is now in your Daily Drill practice queue</p>
+                    )}
+                    {evaluation.criteria && evaluation.criteria.length > 0 && (
+                      <div className="space-y-4">
+                        {evaluation.criteria.map(c => (
+                          <div key={c.criterionId} className="space-y-1.5">
+                            <div className="flex justify-between items-center text-[10px] font-black">
+                              <span className="text-slate-500 uppercase tracking-widest">{c.name} <span className="text-slate-300 dark:text-slate-600">· weight {c.weight}</span></span>
+                              <span className="text-slate-900 dark:text-white">{c.score}/10</span>
+                            </div>
+                            <div className="h-2 bg-slate-100 dark:bg-slate-900 rounded-full">
+                              <div className="h-full bg-gradient-to-r from-indigo-500 to-teal-500 rounded-full" style={{ width: `${c.score * 10}%` }} />
+                            </div>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{c.justification}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {evaluation.categoryDetails && <CategoryInsights details={evaluation.categoryDetails} />}
+                    {evaluation.panel && evaluation.panel.length > 0 && (
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {evaluation.panel.map(p => (
+                          <div key={p.panelistId} className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-3xl px-6 py-4 space-y-1">
+                            <div className="flex justify-between text-[10px] font-black">
+                              <span className="text-slate-500 uppercase tracking-widest">{p.name}</span>
+                              <span className="text-slate-900 dark:text-white">{p.score}/10</span>
+                            </div>
+                            <p className="text-xs text-slate-500 dark:text-slate-400">{p.impression}</p>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    {evaluation.communication_score !== undefined && (
+                      <div className="flex items-start gap-4 bg-teal-500/5 border border-teal-500/20 rounded-3xl px-6 py-4">
+                        <span className="text-[10px] font-black text-teal-600 uppercase tracking-widest whitespace-nowrap">Delivery {evaluation.communication_score}/10</span>
+                        <span className="text-xs text-slate-500 dark:text-slate-400">{evaluation.delivery_feedback}</span>
+                      </div>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-10">
                        <div className="space-y-4">
                           <h4 className="text-[10px] font-black text-indigo-500 uppercase tracking-widest">Optimizations</h4>
@@ -310,15 +1383,50 @@ const App: React.FC = () => {
             </div>
           )}
 
+          {evaluationError && (
+            <div className="mb-3 px-4 flex items-start gap-4">
+              <p className="flex-1 text-xs font-bold text-red-500 whitespace-pre-line">{evaluationError.message}</p>
+              <button onClick={handleRetryEvaluation} disabled={loading} className="text-[10px] font-black text-red-500 hover:text-red-700 uppercase tracking-widest disabled:opacity-50">Retry</button>
+              <button onClick={() => setEvaluationError(null)} className="text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest">Dismiss</button>
+            </div>
+          )}
+          {voiceError && <p className="mb-3 px-4 text-xs font-bold text-red-500">{voiceError}</p>}
+          {!sessionClosed && currentQuestionIdx !== -1 && (
+            <CoachPanel
+              exchanges={coachingForQuestion(coaching, currentQuestionIdx)}
+              nextLevel={nextHintLevel(coaching, currentQuestionIdx)}
+              policy={config.hintPolicy ?? DEFAULT_HINT_POLICY}
+              onHint={() => requestCoaching('hint')}
+              onClarify={(request) => requestCoaching('clarification', request)}
+              loading={coachLoading}
+              error={coachError}
+              disabled={isTyping}
+            />
+          )}
           <div className="relative">
-            <textarea rows={3} placeholder="Articulate your response using the STAR framework..." value={userInput} onChange={(e) => setUserInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); } }}
-              className="w-full bg-slate-50 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] px-10 py-8 pr-44 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all resize-none shadow-2xl font-medium" />
+            <textarea rows={3} disabled={sessionClosed} placeholder={sessionClosed ? "Time's up. Export the report or restart for a new session." : "Articulate your response using the STAR framework..."} value={userInput} onChange={(e) => setUserInput(e.target.value)} onKeyDown={(e) => { if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendMessage(); } }}
+              className="w-full bg-slate-50 dark:bg-slate-800/80 border border-slate-200 dark:border-slate-700 rounded-[2.5rem] px-10 py-8 pr-72 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all resize-none shadow-2xl font-medium disabled:opacity-50" />
             <div className="absolute right-6 bottom-6 flex gap-4">
+               {voiceMode && isSpeechRecognitionSupported() && (
+                 <button onClick={toggleRecording} disabled={sessionClosed || isTyping} className={`px-6 py-4 text-[10px] font-black rounded-2xl transition-all border shadow-sm disabled:opacity-30 ${recording ? 'bg-red-500 text-white border-red-500 animate-pulse' : 'bg-white dark:bg-slate-700 border-slate-200 dark:border-slate-600'}`}>{recording ? '■ DONE' : '🎙 SPEAK'}</button>
+               )}
                <button onClick={handleEvaluate} disabled={loading || messages.length < 2} className="px-8 py-4 bg-white dark:bg-slate-700 hover:bg-slate-50 text-[10px] font-black rounded-2xl transition-all border border-slate-200 dark:border-slate-600 shadow-sm disabled:opacity-30">EVALUATE</button>
-               <button onClick={handleSendMessage} className="px-8 py-4 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-2xl shadow-xl hover:scale-105 transition-all">TRANSMIT</button>
+               {isTyping ? (
+                 <button onClick={handleStop} className="px-8 py-4 bg-red-500 text-white text-[10px] font-black rounded-2xl shadow-xl hover:scale-105 transition-all">STOP</button>
+               ) : (
+                 <button onClick={handleSendMessage} disabled={sessionClosed} className="px-8 py-4 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-2xl shadow-xl hover:scale-105 transition-all disabled:opacity-30 disabled:hover:scale-100">TRANSMIT</button>
+               )}
             </div>
           </div>
         </div>
+        </div>
+        {codingProblem && (
+          <CodingRound problem={codingProblem} evaluation={codingEvaluation} onSubmit={handleSubmitCode} onClose={() => setCodingProblem(null)} />
+        )}
+        {designOpen && design && (
+          <DesignCanvas graph={design} onChange={setDesign} evaluation={designEvaluation} onClose={() => setDesignOpen(false)} />
+        )}
+        </div>
       </main>
 
       {/* Analytics Feed */}
@@ -330,9 +1438,10 @@ const App: React.FC = () => {
         <div className="p-8 space-y-12">
           <section className="space-y-6">
              <div className="flex items-center justify-between">
-                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Experience Gaps</h3>
+                <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{analysis?.skillMatrix ? 'Job Fit Matrix' : 'Experience Gaps'}</h3>
                 <span className="text-[9px] px-2.5 py-1 bg-red-500/10 text-red-500 rounded-full font-black">CRITICAL</span>
              </div>
+             {analysis?.skillMatrix ? <SkillMatrix jobDescription={jobDescription} matrix={analysis.skillMatrix} /> : (
              <div className="space-y-4">
                {analysis?.missingSkills.map((s, i) => (
                  <div key={i} className="flex items-center gap-4 bg-slate-50 dark:bg-slate-800/30 p-5 rounded-3xl border border-slate-100 dark:border-slate-700/50">
@@ -341,15 +1450,35 @@ const App: React.FC = () => {
                  </div>
                ))}
              </div>
+             )}
           </section>
 
+          {resumeProfile && (
+            <section className="space-y-4">
+               <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Resume Profile</h3>
+               <div className="bg-slate-50 dark:bg-slate-800/30 p-5 rounded-3xl border border-slate-100 dark:border-slate-700/50 space-y-3">
+                 <p className="text-xs font-bold text-slate-700 dark:text-slate-300">{resumeProfile.roles.length} role(s) · {resumeProfile.projects.length} project(s)</p>
+                 {resumeProfile.technologies.length > 0 && (
+                   <div className="flex flex-wrap gap-1.5">
+                     {resumeProfile.technologies.slice(0, 12).map(t => (
+                       <span key={t} className="text-[9px] px-2 py-0.5 bg-indigo-500/10 text-indigo-500 rounded-full font-black">{t}</span>
+                     ))}
+                   </div>
+                 )}
+                 <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{resumeProfile.sentUnredacted ? 'Sent as a file, unredacted' : `${describeRedactions(resumeProfile.redactions)} before sending`}</p>
+               </div>
+            </section>
+          )}
+
           <section className="space-y-8">
              <h3 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Neural Skill Coverage</h3>
              <div className="space-y-8">
                {[
                  { label: 'DSA Core', value: analysis?.skillMap.dsa || 0, color: 'from-blue-500 to-indigo-500' },
                  { label: 'Architecture', value: analysis?.skillMap.systemDesign || 0, color: 'from-purple-500 to-indigo-500' },
-                 { label: 'Eloquence', value: analysis?.skillMap.communication || 0, color: 'from-teal-500 to-emerald-500' }
+                 observedCommunication !== null
+                   ? { label: 'Eloquence (observed)', value: observedCommunication, color: 'from-teal-500 to-emerald-500' }
+                   : { label: 'Eloquence', value: analysis?.skillMap.communication || 0, color: 'from-teal-500 to-emerald-500' }
                ].map((item, i) => (
                  <div key={i} className="space-y-3">
                     <div className="flex justify-between items-center text-[10px] font-black">
@@ -363,6 +1492,8 @@ const App: React.FC = () => {
                ))}
              </div>
           </section>
+
+          <button onClick={() => setView('progress')} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">Progress Across Sessions →</button>
         </div>
 
         <div className="mt-auto p-8 bg-indigo-500/5 dark:bg-indigo-900/10 border-t border-slate-100 dark:border-slate-800">
@@ -371,12 +1502,13 @@ const App: React.FC = () => {
                  <svg viewBox="0 0 100 100" className="w-8 h-8"><path d="M50 20 L80 50 L50 80 L20 50 Z" fill="none" stroke="white" strokeWidth="6"/><circle cx="50" cy="50" r="12" fill="white"/></svg>
               </div>
               <div className="flex flex-col">
-                 <span className="text-xs font-black text-slate-900 dark:text-white uppercase">Engine: Gemini 3 Pro</span>
+                 <span className="text-xs font-black text-slate-900 dark:text-white uppercase">Engine: {describeProvider()}</span>
                  <span className="text-[9px] font-bold text-slate-400 uppercase tracking-tighter">Adaptive Reasoning Verified</span>
               </div>
            </div>
         </div>
       </aside>
+      {editingPersona && <PersonaBuilder initial={editingPersona} onSave={handleSavePersona} onCancel={() => setEditingPersona(null)} />}
     </div>
   );
 };
@@ -0,0 +1,72 @@
+import React from 'react';
+import { CategoryDetails, StarPresence } from '../types';
+import { STAR_ELEMENTS } from '../services/categoryFlows';
+
+interface CategoryInsightsProps {
+  details: CategoryDetails;
+}
+
+const PRESENCE_CLASSES: Record<StarPresence, string> = {
+  clear: 'bg-teal-500/10 text-teal-600',
+  vague: 'bg-amber-500/10 text-amber-600',
+  missing: 'bg-red-500/10 text-red-500',
+};
+
+const Tags: React.FC<{ label: string; items: string[]; empty: string; tone?: 'neutral' | 'warn' }> = ({ label, items, empty, tone = 'neutral' }) => (
+  <div className="space-y-2">
+    <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{label}</h4>
+    {items.length === 0 ? <p className="text-xs text-slate-400">{empty}</p> : (
+      <div className="flex flex-wrap gap-2">
+        {items.map(item => (
+          <span key={item} className={`text-[10px] font-bold px-3 py-1 rounded-full ${tone === 'warn' ? 'bg-amber-500/10 text-amber-600' : 'bg-indigo-500/10 text-indigo-600'}`}>{item}</span>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const CategoryInsights: React.FC<CategoryInsightsProps> = ({ details }) => {
+  switch (details.category) {
+    case 'technical':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Tags label="Concepts Covered" items={details.conceptsCovered} empty="None identified." />
+          <Tags label="Misconceptions" items={details.misconceptions} empty="None spotted." tone="warn" />
+        </div>
+      );
+    case 'behavioral':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">STAR Coverage</h4>
+            <div className="flex flex-wrap gap-2">
+              {STAR_ELEMENTS.map(e => (
+                <span key={e} className={`text-[10px] font-black uppercase px-3 py-1 rounded-full ${PRESENCE_CLASSES[details.star[e]]}`}>{e}: {details.star[e]}</span>
+              ))}
+            </div>
+          </div>
+          <Tags label="Competencies" items={details.competencies} empty="No competency clearly evidenced." />
+        </div>
+      );
+    case 'scenario':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Tags label={`Decisions · Adaptability ${details.adaptabilityScore}/10`} items={details.decisions} empty="No clear decisions." />
+          <Tags label="Risks Missed" items={details.risksMissed} empty="None." tone="warn" />
+        </div>
+      );
+    case 'hr-fit':
+      return (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <Tags label="Motivations" items={details.motivations} empty="None stated." />
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Compensation Expectation</h4>
+            <p className="text-xs font-bold text-slate-600 dark:text-slate-300">{details.compensationExpectation ?? 'Not discussed'}</p>
+            {details.concerns.length > 0 && <Tags label="Concerns" items={details.concerns} empty="" tone="warn" />}
+          </div>
+        </div>
+      );
+  }
+};
+
+export default CategoryInsights;
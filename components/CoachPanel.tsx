@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { CoachingExchange, HintLevel, HintPolicyId } from '../types';
+import { HINT_LEVELS, HINT_POLICIES, hintLevelLabel } from '../services/coaching';
+
+interface CoachPanelProps {
+  // Coaching already given on the current question, oldest first.
+  exchanges: CoachingExchange[];
+  nextLevel: HintLevel | null;
+  policy: HintPolicyId;
+  onHint: () => void;
+  onClarify: (request: string) => void;
+  loading: boolean;
+  error: string | null;
+  disabled: boolean;
+}
+
+const CoachPanel: React.FC<CoachPanelProps> = ({ exchanges, nextLevel, policy, onHint, onClarify, loading, error, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const [clarification, setClarification] = useState('');
+  const costs = HINT_POLICIES[policy];
+
+  const submitClarification = () => {
+    if (!clarification.trim()) return;
+    onClarify(clarification.trim());
+    setClarification('');
+  };
+
+  return (
+    <div className="mb-3 px-4 space-y-3">
+      <div className="flex items-center gap-4">
+        <button onClick={() => setOpen(!open)} className="text-[10px] font-black text-amber-600 hover:text-amber-700 uppercase tracking-widest">
+          {open ? '▾' : '▸'} Coach{exchanges.length > 0 && ` · ${exchanges.length} used`}
+        </button>
+        <span className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Off the record · {costs.label} policy</span>
+      </div>
+      {open && (
+        <div className="bg-amber-500/5 border border-amber-500/20 rounded-3xl p-5 space-y-4">
+          {exchanges.length > 0 && (
+            <ul className="space-y-3 max-h-48 overflow-y-auto no-scrollbar">
+              {exchanges.map((c, i) => (
+                <li key={i} className="text-xs text-slate-600 dark:text-slate-300 space-y-1">
+                  <span className="block text-[9px] font-black text-amber-600 uppercase tracking-widest">
+                    {c.kind === 'hint' && c.level ? `Hint · ${hintLevelLabel(c.level)}` : `Clarification · "${c.request}"`}
+                  </span>
+                  <p className="whitespace-pre-line">{c.reply}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-3">
+            <button onClick={onHint} disabled={disabled || loading || !nextLevel}
+              title={nextLevel ? HINT_LEVELS.find(l => l.value === nextLevel)?.description : 'No further hints for this question'}
+              className="px-4 py-2 bg-amber-500 text-white text-[10px] font-black rounded-xl uppercase tracking-widest disabled:opacity-40 whitespace-nowrap">
+              {nextLevel ? `Hint · ${hintLevelLabel(nextLevel)}${costs.costs[nextLevel] ? ` (−${costs.costs[nextLevel]})` : ''}` : 'No more hints'}
+            </button>
+            <input type="text" value={clarification} disabled={disabled || loading} placeholder="What does this question mean?"
+              onChange={(e) => setClarification(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') submitClarification(); }}
+              className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-2 text-xs outline-none focus:ring-2 focus:ring-amber-500/20" />
+            <button onClick={submitClarification} disabled={disabled || loading || !clarification.trim()}
+              className="text-[10px] font-black text-amber-600 hover:text-amber-700 uppercase tracking-widest disabled:opacity-40 whitespace-nowrap">
+              {loading ? 'Thinking…' : `Clarify${costs.clarification ? ` (−${costs.clarification})` : ''}`}
+            </button>
+          </div>
+          <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">The coach sees your unsent draft, so you can think aloud there first.</p>
+          {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CoachPanel;
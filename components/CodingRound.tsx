@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { CodeLanguage, CodingEvaluation, CodingProblem, TestResult } from '../types';
+import { runTests, DEFAULT_TEST_TIMEOUT_MS } from '../services/codeSandbox';
+
+interface CodingRoundProps {
+  problem: CodingProblem;
+  evaluation: CodingEvaluation | null;
+  onSubmit: (code: string, language: CodeLanguage, results: TestResult[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const INDENT = '  ';
+
+const CodingRound: React.FC<CodingRoundProps> = ({ problem, evaluation, onSubmit, onClose }) => {
+  const [language, setLanguage] = useState<CodeLanguage>('javascript');
+  const [code, setCode] = useState(problem.starterCode.javascript);
+  const [exampleResults, setExampleResults] = useState<TestResult[] | null>(null);
+  const [hiddenResults, setHiddenResults] = useState<TestResult[] | null>(null);
+  const [busy, setBusy] = useState<'run' | 'submit' | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLanguage('javascript');
+    setCode(problem.starterCode.javascript);
+    setExampleResults(null);
+    setHiddenResults(null);
+  }, [problem]);
+
+  const switchLanguage = (next: CodeLanguage) => {
+    // Only swap in the other starter when the candidate hasn't written anything yet.
+    if (code.trim() === problem.starterCode[language].trim()) setCode(problem.starterCode[next]);
+    setLanguage(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    // React clears currentTarget once the handler returns, so keep the element for the callback.
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    setCode(code.slice(0, selectionStart) + INDENT + code.slice(selectionEnd));
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  const execute = async (mode: 'run' | 'submit') => {
+    setBusy(mode);
+    setRunError(null);
+    try {
+      if (mode === 'run') {
+        setExampleResults(await runTests(code, language, problem.functionName, problem.examples));
+      } else {
+        const results = await runTests(code, language, problem.functionName, problem.hiddenTests);
+        setHiddenResults(results);
+        await onSubmit(code, language, results);
+      }
+    } catch (err: any) {
+      setRunError(err.message || "Could not run the code.");
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const passedHidden = hiddenResults?.filter(r => r.passed).length ?? 0;
+  const scoreRow = (label: string, value: number) => (
+    <div className="flex justify-between text-xs font-bold"><span className="text-slate-500">{label}</span><span>{value}/10</span></div>
+  );
+
+  return (
+    <section className="w-[46%] shrink-0 border-l border-slate-100 dark:border-slate-800 flex flex-col min-h-0 bg-slate-50/50 dark:bg-slate-900/30">
+      <div className="px-8 py-5 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+        <h3 className="text-sm font-black dark:text-white">{problem.title}</h3>
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">Close Round</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-8 space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">{problem.statement}</p>
+          <code className="block text-xs bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3 font-mono">{problem.signature}</code>
+          <ul className="text-xs text-slate-500 space-y-1">{problem.constraints.map((c, i) => <li key={i}>• {c}</li>)}</ul>
+          {problem.examples.map((ex, i) => (
+            <div key={i} className="text-xs font-mono bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-3">
+              <div>Input: {JSON.stringify(ex.args).slice(1, -1)}</div>
+              <div>Output: {JSON.stringify(ex.expected)}</div>
+              {ex.explanation && <div className="text-slate-400 font-sans mt-1">{ex.explanation}</div>}
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center gap-2">
+            {(['javascript', 'typescript'] as const).map(l => (
+              <button key={l} onClick={() => switchLanguage(l)}
+                className={`px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${language === l ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-500 border border-slate-200 dark:border-slate-700'}`}>
+                {l}
+              </button>
+            ))}
+            <span className="ml-auto text-[10px] font-bold text-slate-400">{DEFAULT_TEST_TIMEOUT_MS / 1000}s limit per test</span>
+          </div>
+          <textarea value={code} onChange={(e) => setCode(e.target.value)} onKeyDown={handleKeyDown} spellCheck={false} rows={14}
+            className="w-full font-mono text-xs leading-relaxed bg-[#0f172a] text-slate-100 rounded-2xl p-5 outline-none focus:ring-4 focus:ring-indigo-500/20 resize-y" />
+          <div className="flex gap-3">
+            <button onClick={() => execute('run')} disabled={busy !== null} className="px-6 py-3 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-[10px] font-black rounded-xl disabled:opacity-30">
+              {busy === 'run' ? 'RUNNING...' : 'RUN EXAMPLES'}
+            </button>
+            <button onClick={() => execute('submit')} disabled={busy !== null} className="px-6 py-3 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl disabled:opacity-30">
+              {busy === 'submit' ? 'SUBMITTING...' : 'SUBMIT'}
+            </button>
+          </div>
+          {runError && <p className="text-xs font-bold text-red-500 whitespace-pre-wrap">{runError}</p>}
+        </div>
+
+        {exampleResults && (
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Examples</h4>
+            {exampleResults.map(r => (
+              <div key={r.index} className={`text-xs font-mono rounded-xl px-4 py-2 border ${r.passed ? 'border-teal-200 bg-teal-50 text-teal-700' : 'border-red-200 bg-red-50 text-red-700'}`}>
+                {r.passed ? '✓' : '✗'} Example {r.index + 1}: {r.error ?? `returned ${JSON.stringify(r.actual)}`} ({r.durationMs.toFixed(1)} ms)
+                {r.logs.map((log, i) => <div key={i} className="text-slate-500">› {log}</div>)}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {hiddenResults && (
+          <div className="space-y-2">
+            <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Hidden Tests: {passedHidden}/{hiddenResults.length} passed</h4>
+            <div className="flex flex-wrap gap-1.5">
+              {hiddenResults.map(r => (
+                <span key={r.index} title={r.error} className={`w-6 h-6 rounded-md text-[10px] font-black flex items-center justify-center ${r.passed ? 'bg-teal-500 text-white' : r.timedOut ? 'bg-amber-500 text-white' : 'bg-red-500 text-white'}`}>{r.index + 1}</span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {evaluation && (
+          <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-5 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Coding Evaluation</span>
+              <span className="text-xl font-black text-indigo-600">{evaluation.score}/10</span>
+            </div>
+            {scoreRow('Correctness', evaluation.correctness_score)}
+            {scoreRow('Complexity', evaluation.complexity_score)}
+            {scoreRow('Style', evaluation.style_score)}
+            <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Time {evaluation.time_complexity} · Space {evaluation.space_complexity}</p>
+            <p className="text-xs text-slate-600 dark:text-slate-300 italic">“{evaluation.feedback}”</p>
+            <ul className="space-y-1">{evaluation.improvement_tips.map((t, i) => <li key={i} className="text-xs text-slate-500">✓ {t}</li>)}</ul>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default CodingRound;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ReviewCard } from '../types';
+import { CATEGORY_OPTIONS } from '../services/categoryFlows';
+
+interface DailyDrillProps {
+  // Due cards when the drill started; reviewed cards stay listed until the drill ends.
+  queue: ReviewCard[];
+  totalCards: number;
+  // Grades the new answer and returns the rescheduled card.
+  onGrade: (card: ReviewCard, answer: string) => Promise<ReviewCard>;
+  onBack: () => void;
+}
+
+const formatInterval = (days: number) => days === 1 ? 'tomorrow' : `in ${days} days`;
+
+const DailyDrill: React.FC<DailyDrillProps> = ({ queue, totalCards, onGrade, onBack }) => {
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [reviewed, setReviewed] = useState<ReviewCard | null>(null);
+  const [scores, setScores] = useState<number[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const panelClass = 'bg-white dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700/50 rounded-[2.5rem] p-8 space-y-6';
+  const headingClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+  const card = queue[index];
+  const previous = card?.reviews[card.reviews.length - 1];
+
+  const submit = async () => {
+    if (!card || !answer.trim()) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const next = await onGrade(card, answer);
+      setReviewed(next);
+      setScores(prev => [...prev, next.score]);
+    } catch (err: any) {
+      setError(err.message || "Couldn't grade that answer.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const advance = () => {
+    setIndex(index + 1);
+    setAnswer('');
+    setReviewed(null);
+  };
+
+  return (
+    <div className="min-h-screen bg-[#f1f5f9] dark:bg-[#0b1120] text-slate-800 dark:text-slate-200">
+      <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12">
+        <div className="flex flex-col">
+          <h2 className="text-base font-black tracking-tight dark:text-white">Daily Drill</h2>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {card ? `Card ${index + 1} of ${queue.length}` : 'Done for today'} · {totalCards} card{totalCards === 1 ? '' : 's'} in the practice queue
+          </span>
+        </div>
+        <button onClick={onBack} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">← Back</button>
+      </header>
+
+      <div className="p-12 space-y-8 max-w-4xl mx-auto">
+        {!card && (
+          <section className={panelClass}>
+            <h3 className={headingClass}>Drill complete</h3>
+            <p className="text-sm text-slate-600 dark:text-slate-300">
+              {scores.length
+                ? `You reviewed ${scores.length} card${scores.length === 1 ? '' : 's'} with an average score of ${(scores.reduce((a, b) => a + b, 0) / scores.length).toFixed(1)}/10. Each one is rescheduled by how well you did.`
+                : 'Nothing is due right now. Weak answers from your interviews land here the day after.'}
+            </p>
+          </section>
+        )}
+
+        {card && (
+          <>
+            <section className={panelClass}>
+              <div className="flex items-center justify-between">
+                <h3 className={headingClass}>{CATEGORY_OPTIONS.find(c => c.value === card.category)?.label} · {card.role}</h3>
+                <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                  {previous ? `Last review ${previous.score}/10` : `First scored ${card.score}/10`}
+                </span>
+              </div>
+              <p className="text-lg font-bold text-slate-800 dark:text-white leading-relaxed">{card.question}</p>
+              <textarea rows={6} value={answer} disabled={loading || !!reviewed} onChange={(e) => setAnswer(e.target.value)} placeholder="Answer it again, from memory..."
+                className="w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-[2rem] px-8 py-6 focus:ring-4 focus:ring-indigo-500/10 outline-none transition-all resize-none font-medium disabled:opacity-60" />
+              {error && <p className="text-xs font-bold text-red-500">{error}</p>}
+              <div className="flex justify-end gap-4">
+                {!reviewed && <button onClick={advance} disabled={loading} className="text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest disabled:opacity-50">Skip for now</button>}
+                {reviewed
+                  ? <button onClick={advance} className="px-8 py-4 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-2xl">{index + 1 < queue.length ? 'NEXT CARD' : 'FINISH'}</button>
+                  : <button onClick={submit} disabled={loading || !answer.trim()} className="px-8 py-4 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-2xl disabled:opacity-30">{loading ? 'GRADING...' : 'SUBMIT'}</button>}
+              </div>
+            </section>
+
+            {reviewed && (
+              <section className={panelClass}>
+                <div className="flex items-center justify-between">
+                  <span className="text-3xl font-black bg-gradient-to-r from-indigo-500 to-teal-500 bg-clip-text text-transparent">{reviewed.score}/10</span>
+                  <span className="text-[10px] font-black text-teal-600 uppercase tracking-widest">Next review {formatInterval(reviewed.intervalDays)}</span>
+                </div>
+                <p className="text-sm text-slate-600 dark:text-slate-300 italic">"{reviewed.feedback}"</p>
+                <div className="space-y-3">
+                  <h4 className={headingClass}>Improvement tips</h4>
+                  <ul className="space-y-2">
+                    {reviewed.improvementTips.map((t, i) => <li key={i} className="text-xs text-slate-500 dark:text-slate-400 flex gap-3"><span className="text-teal-500 font-bold">✓</span>{t}</li>)}
+                  </ul>
+                </div>
+                <div className="space-y-3">
+                  <h4 className={headingClass}>Model answer outline</h4>
+                  <p className="text-xs text-slate-500 bg-slate-50 dark:bg-slate-900 p-6 rounded-3xl border border-slate-100 dark:border-slate-700 whitespace-pre-line">{reviewed.modelAnswerOutline}</p>
+                </div>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DailyDrill;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { HiringSignal, SessionDebrief } from '../types';
+import { SIGNAL_LABELS } from '../services/report';
+
+interface DebriefViewProps {
+  role: string;
+  debrief: SessionDebrief | null;
+  stale: boolean;
+  loading: boolean;
+  error: string | null;
+  onRegenerate: () => void;
+  onBack: () => void;
+}
+
+const SIGNAL_CLASSES: Record<HiringSignal, string> = {
+  'strong-hire': 'bg-teal-500 text-white',
+  'hire': 'bg-teal-500/15 text-teal-600',
+  'no-hire': 'bg-red-500/15 text-red-500',
+  'strong-no-hire': 'bg-red-500 text-white',
+};
+
+const DebriefView: React.FC<DebriefViewProps> = ({ role, debrief, stale, loading, error, onRegenerate, onBack }) => {
+  const panelClass = 'bg-white dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700/50 rounded-[2.5rem] p-8 space-y-6';
+  const headingClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+  return (
+    <div className="min-h-screen bg-[#f1f5f9] dark:bg-[#0b1120] text-slate-800 dark:text-slate-200">
+      <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12">
+        <div className="flex flex-col">
+          <h2 className="text-base font-black tracking-tight dark:text-white">Debrief: {role}</h2>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {debrief ? `Written ${new Date(debrief.generatedAt).toLocaleString()} from ${debrief.messageCount} messages` : 'Whole-session assessment'}
+          </span>
+        </div>
+        <div className="flex items-center gap-6">
+          <button onClick={onRegenerate} disabled={loading} className="px-6 py-2.5 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl disabled:opacity-40">
+            {loading ? 'WRITING...' : debrief ? 'REGENERATE' : 'WRITE DEBRIEF'}
+          </button>
+          <button onClick={onBack} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">← Back</button>
+        </div>
+      </header>
+
+      <div className="p-12 space-y-8 max-w-6xl mx-auto">
+        {error && <p className="text-red-500 text-sm font-bold">{error}</p>}
+        {stale && debrief && <p className="text-xs font-bold text-amber-500">The interview has continued since this debrief was written. Regenerate it to include the latest answers.</p>}
+        {!debrief && !loading && <p className="text-sm font-bold text-slate-400">No debrief yet. Write one once the interview has a few answers in it.</p>}
+
+        {debrief && (
+          <>
+            <section className={`${panelClass} flex items-start gap-8 space-y-0`}>
+              <span className={`shrink-0 px-6 py-4 rounded-3xl text-sm font-black uppercase tracking-widest ${SIGNAL_CLASSES[debrief.signal]}`}>{SIGNAL_LABELS[debrief.signal]}</span>
+              <p className="text-base text-slate-600 dark:text-slate-300 font-medium leading-relaxed">{debrief.summary}</p>
+            </section>
+
+            <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+              <section className={panelClass}>
+                <h3 className={headingClass}>Strengths</h3>
+                {debrief.strengths.length === 0 && <p className="text-xs font-bold text-slate-400">None identified.</p>}
+                <ul className="space-y-3">
+                  {debrief.strengths.map((s, i) => <li key={i} className="text-sm text-slate-600 dark:text-slate-300 flex gap-3"><span className="text-teal-500 font-bold">✓</span>{s}</li>)}
+                </ul>
+              </section>
+
+              <section className={panelClass}>
+                <h3 className={headingClass}>Red Flags</h3>
+                {debrief.redFlags.length === 0 && <p className="text-xs font-bold text-slate-400">None identified.</p>}
+                <ul className="space-y-3">
+                  {debrief.redFlags.map((f, i) => <li key={i} className="text-sm text-slate-600 dark:text-slate-300 flex gap-3"><span className="text-red-500 font-bold">⚠</span>{f}</li>)}
+                </ul>
+              </section>
+
+              <section className={panelClass}>
+                <h3 className={headingClass}>Coverage of Resume Gaps</h3>
+                {debrief.skillCoverage.length === 0 && <p className="text-xs font-bold text-slate-400">The resume review flagged no missing skills.</p>}
+                <ul className="space-y-3">
+                  {debrief.skillCoverage.map(c => (
+                    <li key={c.skill} className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-3xl p-5 space-y-1">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-bold text-slate-800 dark:text-white">{c.skill}</span>
+                        <span className={`text-[10px] font-black uppercase tracking-widest ${c.covered ? 'text-teal-500' : 'text-red-500'}`}>{c.covered ? 'Covered' : 'Not covered'}</span>
+                      </div>
+                      <p className="text-xs text-slate-500 dark:text-slate-400">{c.evidence}</p>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+
+              <section className={panelClass}>
+                <h3 className={headingClass}>Follow-ups Never Probed</h3>
+                {debrief.unprobedFollowUps.length === 0 && <p className="text-xs font-bold text-slate-400">Every suggested follow-up came up.</p>}
+                <ul className="space-y-3">
+                  {debrief.unprobedFollowUps.map((q, i) => <li key={i} className="text-sm text-slate-600 dark:text-slate-300">“{q}”</li>)}
+                </ul>
+              </section>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DebriefView;
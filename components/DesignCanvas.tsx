@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { DesignComponentKind, DesignEvaluation, DesignGraph } from '../types';
+import {
+  DESIGN_COMPONENT_KINDS, addNode, connect, removeEdge, removeNode, updateEdge, updateNode,
+} from '../services/designGraph';
+
+interface DesignCanvasProps {
+  graph: DesignGraph;
+  onChange: (graph: DesignGraph) => void;
+  evaluation: DesignEvaluation | null;
+  onClose: () => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+const NODE_W = 132;
+const NODE_H = 48;
+
+const KIND_COLORS: Record<DesignComponentKind, string> = {
+  'client': '#64748b',
+  'load-balancer': '#0ea5e9',
+  'service': '#6366f1',
+  'database': '#14b8a6',
+  'cache': '#f59e0b',
+  'queue': '#a855f7',
+  'storage': '#10b981',
+};
+
+type Selection = { type: 'node' | 'edge'; id: string } | null;
+
+const DesignCanvas: React.FC<DesignCanvasProps> = ({ graph, onChange, evaluation, onClose }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [selection, setSelection] = useState<Selection>(null);
+  const [connectFrom, setConnectFrom] = useState<string | null>(null);
+  const [connecting, setConnecting] = useState(false);
+  const [drag, setDrag] = useState<{ id: string; dx: number; dy: number } | null>(null);
+
+  // Maps a pointer position onto viewBox units so dragging works at any panel width.
+  const toCanvas = (e: React.PointerEvent) => {
+    const ctm = svgRef.current?.getScreenCTM();
+    if (!ctm) return { x: 0, y: 0 };
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: point.x, y: point.y };
+  };
+
+  const handleAdd = (kind: DesignComponentKind) => {
+    // Cascade new components so they don't stack exactly on top of each other.
+    const offset = (graph.nodes.length % 8) * 24;
+    onChange(addNode(graph, kind, 80 + offset, 60 + offset));
+  };
+
+  const handleNodePointerDown = (e: React.PointerEvent, id: string) => {
+    e.stopPropagation();
+    if (connecting) {
+      if (!connectFrom) setConnectFrom(id);
+      else {
+        onChange(connect(graph, connectFrom, id));
+        setConnectFrom(null);
+      }
+      return;
+    }
+    const node = graph.nodes.find(n => n.id === id)!;
+    const { x, y } = toCanvas(e);
+    setSelection({ type: 'node', id });
+    setDrag({ id, dx: x - node.x, dy: y - node.y });
+    (e.target as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const { x, y } = toCanvas(e);
+    onChange(updateNode(graph, drag.id, {
+      x: Math.max(0, Math.min(WIDTH - NODE_W, x - drag.dx)),
+      y: Math.max(0, Math.min(HEIGHT - NODE_H, y - drag.dy)),
+    }));
+  };
+
+  const handleDelete = () => {
+    if (!selection) return;
+    onChange(selection.type === 'node' ? removeNode(graph, selection.id) : removeEdge(graph, selection.id));
+    setSelection(null);
+  };
+
+  const selectedNode = selection?.type === 'node' ? graph.nodes.find(n => n.id === selection.id) : undefined;
+  const selectedEdge = selection?.type === 'edge' ? graph.edges.find(e => e.id === selection.id) : undefined;
+  const center = (id: string) => {
+    const n = graph.nodes.find(node => node.id === id);
+    return n ? { x: n.x + NODE_W / 2, y: n.y + NODE_H / 2 } : null;
+  };
+  const scoreRow = (label: string, value: number) => (
+    <div className="flex justify-between text-xs font-bold"><span className="text-slate-500">{label}</span><span>{value}/10</span></div>
+  );
+
+  return (
+    <section className="w-[46%] shrink-0 border-l border-slate-100 dark:border-slate-800 flex flex-col min-h-0 bg-slate-50/50 dark:bg-slate-900/30">
+      <div className="px-8 py-5 border-b border-slate-100 dark:border-slate-800 flex items-center justify-between">
+        <h3 className="text-sm font-black dark:text-white">System Design Whiteboard</h3>
+        <button onClick={onClose} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">Close Round</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar p-8 space-y-5">
+        <div className="flex flex-wrap gap-2">
+          {DESIGN_COMPONENT_KINDS.map(({ kind, label }) => (
+            <button key={kind} onClick={() => handleAdd(kind)}
+              className="px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:border-indigo-400">
+              <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ background: KIND_COLORS[kind] }} />+ {label}
+            </button>
+          ))}
+          <button onClick={() => { setConnecting(!connecting); setConnectFrom(null); }}
+            className={`px-3 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest ${connecting ? 'bg-indigo-600 text-white' : 'bg-white dark:bg-slate-800 text-slate-500 border border-slate-200 dark:border-slate-700'}`}>
+            {connecting ? (connectFrom ? 'Pick target…' : 'Pick source…') : 'Connect'}
+          </button>
+        </div>
+
+        <svg ref={svgRef} viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-2xl touch-none select-none"
+          onPointerMove={handlePointerMove} onPointerUp={() => setDrag(null)} onPointerDown={() => { setSelection(null); setConnectFrom(null); }}>
+          <defs>
+            <marker id="design-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+              <path d="M 0 0 L 10 5 L 0 10 z" fill="#94a3b8" />
+            </marker>
+          </defs>
+          {graph.edges.map(edge => {
+            const a = center(edge.from);
+            const b = center(edge.to);
+            if (!a || !b) return null;
+            // Stop the arrow at the target box edge rather than its centre.
+            const dx = b.x - a.x;
+            const dy = b.y - a.y;
+            const t = 1 - Math.min(1, Math.min(Math.abs((NODE_W / 2) / (dx || 1e-6)), Math.abs((NODE_H / 2) / (dy || 1e-6))));
+            const selected = selection?.type === 'edge' && selection.id === edge.id;
+            return (
+              <g key={edge.id} onPointerDown={(e) => { e.stopPropagation(); setSelection({ type: 'edge', id: edge.id }); }} className="cursor-pointer">
+                <line x1={a.x} y1={a.y} x2={a.x + dx * t} y2={a.y + dy * t} stroke="transparent" strokeWidth={14} />
+                <line x1={a.x} y1={a.y} x2={a.x + dx * t} y2={a.y + dy * t} stroke={selected ? '#6366f1' : '#94a3b8'} strokeWidth={selected ? 3 : 2} markerEnd="url(#design-arrow)" />
+                {edge.label && (
+                  <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2 - 6} textAnchor="middle" fontSize={12} className="fill-slate-500 font-bold">{edge.label}</text>
+                )}
+              </g>
+            );
+          })}
+          {graph.nodes.map(node => {
+            const selected = (selection?.type === 'node' && selection.id === node.id) || connectFrom === node.id;
+            return (
+              <g key={node.id} transform={`translate(${node.x} ${node.y})`} onPointerDown={(e) => handleNodePointerDown(e, node.id)} className={connecting ? 'cursor-crosshair' : 'cursor-move'}>
+                <rect width={NODE_W} height={NODE_H} rx={12} fill="white" stroke={KIND_COLORS[node.kind]} strokeWidth={selected ? 4 : 2} />
+                <rect width={8} height={NODE_H} rx={4} fill={KIND_COLORS[node.kind]} />
+                <text x={NODE_W / 2 + 4} y={NODE_H / 2 + 5} textAnchor="middle" fontSize={13} fontWeight={700} fill="#0f172a">
+                  {node.label.length > 16 ? `${node.label.slice(0, 15)}…` : node.label}
+                </text>
+              </g>
+            );
+          })}
+          {graph.nodes.length === 0 && (
+            <text x={WIDTH / 2} y={HEIGHT / 2} textAnchor="middle" fontSize={14} fill="#94a3b8">Add components above, then connect them to sketch your architecture.</text>
+          )}
+        </svg>
+
+        {(selectedNode || selectedEdge) && (
+          <div className="flex items-center gap-3">
+            <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest whitespace-nowrap">{selectedNode ? selectedNode.kind : 'Connection'}</span>
+            <input
+              value={selectedNode ? selectedNode.label : selectedEdge!.label}
+              placeholder={selectedEdge ? 'e.g. REST, async, replicates' : ''}
+              onChange={(e) => onChange(selectedNode ? updateNode(graph, selectedNode.id, { label: e.target.value }) : updateEdge(graph, selectedEdge!.id, e.target.value))}
+              className="flex-1 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl px-4 py-2 text-xs font-bold outline-none focus:ring-4 focus:ring-indigo-500/20"
+            />
+            <button onClick={handleDelete} className="text-[10px] font-black text-red-500 hover:text-red-700 uppercase tracking-widest">Delete</button>
+          </div>
+        )}
+        <p className="text-[10px] font-bold text-slate-400">
+          {graph.nodes.length} components · {graph.edges.length} connections · the interviewer sees this diagram with every answer you send
+        </p>
+
+        {evaluation && (
+          <div className="bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-2xl p-5 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Design Evaluation</span>
+              <span className="text-xl font-black text-indigo-600">{evaluation.score}/10</span>
+            </div>
+            {scoreRow('Scalability', evaluation.scalability_score)}
+            {scoreRow('Consistency', evaluation.consistency_score)}
+            {scoreRow('Trade-offs', evaluation.tradeoffs_score)}
+            {evaluation.bottlenecks.length > 0 && (
+              <ul className="space-y-1">{evaluation.bottlenecks.map((b, i) => <li key={i} className="text-xs text-amber-600">⚠ {b}</li>)}</ul>
+            )}
+            <p className="text-xs text-slate-600 dark:text-slate-300 italic">“{evaluation.feedback}”</p>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default DesignCanvas;
@@ -0,0 +1,64 @@
+import React from 'react';
+
+export interface ChartSeries {
+  label: string;
+  color: string;
+  points: { x: number; y: number }[];
+}
+
+interface LineChartProps {
+  series: ChartSeries[];
+  yMax: number;
+  height?: number;
+  formatX?: (x: number) => string;
+}
+
+const WIDTH = 560;
+const PADDING = { top: 16, right: 16, bottom: 28, left: 32 };
+
+// Dependency-free SVG line chart; x values are plotted on a linear scale.
+const LineChart: React.FC<LineChartProps> = ({ series, yMax, height = 220, formatX = (x) => new Date(x).toLocaleDateString() }) => {
+  const xs = series.flatMap(s => s.points.map(p => p.x));
+  if (xs.length === 0) {
+    return <p className="text-xs font-bold text-slate-400">Not enough data yet.</p>;
+  }
+
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const scaleX = (x: number) => PADDING.left + (maxX === minX ? plotWidth / 2 : ((x - minX) / (maxX - minX)) * plotWidth);
+  const scaleY = (y: number) => PADDING.top + plotHeight - (Math.min(y, yMax) / yMax) * plotHeight;
+  const gridLines = [0, 0.25, 0.5, 0.75, 1].map(f => Math.round(f * yMax));
+
+  return (
+    <div className="space-y-3">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto">
+        {gridLines.map(y => (
+          <g key={y}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={scaleY(y)} y2={scaleY(y)} stroke="#e2e8f0" strokeWidth="1" />
+            <text x={PADDING.left - 8} y={scaleY(y) + 3} textAnchor="end" fontSize="9" fill="#94a3b8">{y}</text>
+          </g>
+        ))}
+        <text x={PADDING.left} y={height - 8} fontSize="9" fill="#94a3b8">{formatX(minX)}</text>
+        <text x={WIDTH - PADDING.right} y={height - 8} textAnchor="end" fontSize="9" fill="#94a3b8">{formatX(maxX)}</text>
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline fill="none" stroke={s.color} strokeWidth="2.5" strokeLinejoin="round" points={s.points.map(p => `${scaleX(p.x)},${scaleY(p.y)}`).join(' ')} />
+            {s.points.map((p, i) => <circle key={i} cx={scaleX(p.x)} cy={scaleY(p.y)} r="3.5" fill={s.color} />)}
+          </g>
+        ))}
+      </svg>
+      <div className="flex flex-wrap gap-4">
+        {series.map(s => (
+          <span key={s.label} className="flex items-center gap-2 text-[10px] font-black text-slate-500 uppercase tracking-widest">
+            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default LineChart;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Persona, ProbingDepth } from '../types';
+import { Issues, validatePersona } from '../services/validation';
+
+interface PersonaBuilderProps {
+  initial: Persona;
+  onSave: (persona: Persona) => void;
+  onCancel: () => void;
+}
+
+type ListField = 'focusAreas' | 'bannedTopics' | 'openingLines' | 'sampleQuestions';
+
+const LIST_FIELDS: { key: ListField; label: string; placeholder: string }[] = [
+  { key: 'focusAreas', label: 'Focus Areas', placeholder: 'Distributed systems\nOperational excellence' },
+  { key: 'bannedTopics', label: 'Banned Topics', placeholder: 'Salary expectations\nBrain teasers' },
+  { key: 'openingLines', label: 'Opening Lines', placeholder: "Hi, I'm Sam from the payments team. Thanks for making the time." },
+  { key: 'sampleQuestions', label: 'Sample Questions', placeholder: 'Walk me through the last incident you were on call for.' },
+];
+
+const DEPTHS: { value: ProbingDepth; label: string; hint: string }[] = [
+  { value: 'light', label: 'Light', hint: 'One follow-up, then move on' },
+  { value: 'moderate', label: 'Moderate', hint: 'A couple of follow-ups' },
+  { value: 'deep', label: 'Deep', hint: 'Drill until the limits' },
+];
+
+const toLines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const PersonaBuilder: React.FC<PersonaBuilderProps> = ({ initial, onSave, onCancel }) => {
+  const [persona, setPersona] = useState<Persona>(initial);
+  // List fields are edited as raw text so blank lines don't vanish mid-typing.
+  const [lists, setLists] = useState<Record<ListField, string>>(() => ({
+    focusAreas: initial.focusAreas.join('\n'),
+    bannedTopics: initial.bannedTopics.join('\n'),
+    openingLines: initial.openingLines.join('\n'),
+    sampleQuestions: initial.sampleQuestions.join('\n'),
+  }));
+  const [errors, setErrors] = useState<Issues>([]);
+
+  const inputClass = 'w-full bg-slate-50 dark:bg-slate-900/50 border border-slate-200 dark:border-slate-700 rounded-2xl px-5 py-3 text-sm font-medium outline-none focus:ring-4 focus:ring-indigo-500/10';
+  const labelClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+  const handleSave = () => {
+    const next: Persona = {
+      ...persona,
+      name: persona.name.trim(),
+      tone: persona.tone.trim(),
+      focusAreas: toLines(lists.focusAreas),
+      bannedTopics: toLines(lists.bannedTopics),
+      openingLines: toLines(lists.openingLines),
+      sampleQuestions: toLines(lists.sampleQuestions),
+    };
+    const issues: Issues = [];
+    validatePersona(next, 'persona', issues);
+    setErrors(issues);
+    if (issues.length === 0) onSave(next);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/60 backdrop-blur-sm flex items-center justify-center p-8" onClick={onCancel}>
+      <div onClick={(e) => e.stopPropagation()} className="bg-white dark:bg-[#101935] border border-slate-200 dark:border-slate-700 rounded-[2.5rem] w-full max-w-3xl max-h-full overflow-y-auto p-10 space-y-6 text-slate-800 dark:text-slate-200">
+        <h2 className="text-xl font-black tracking-tight dark:text-white">{initial.name ? `Edit ${initial.name}` : 'New Persona'}</h2>
+
+        <div className="grid grid-cols-2 gap-6">
+          <div className="space-y-2">
+            <label className={labelClass}>Name</label>
+            <input value={persona.name} onChange={(e) => setPersona(p => ({ ...p, name: e.target.value }))} placeholder="Stripe bar raiser" className={inputClass} />
+          </div>
+          <div className="space-y-2">
+            <label className={labelClass}>Tone</label>
+            <input value={persona.tone} onChange={(e) => setPersona(p => ({ ...p, tone: e.target.value }))} placeholder="Warm but exacting" className={inputClass} />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Probing Depth</label>
+          <div className="grid grid-cols-3 gap-2">
+            {DEPTHS.map(d => (
+              <button key={d.value} onClick={() => setPersona(p => ({ ...p, probingDepth: d.value }))}
+                className={`px-5 py-3 rounded-2xl text-left transition-all ${persona.probingDepth === d.value ? 'bg-indigo-600 text-white shadow-xl shadow-indigo-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-500 hover:bg-slate-100'}`}>
+                <div className="text-xs font-bold">{d.label}</div>
+                <div className="text-[9px] font-medium opacity-70 mt-1">{d.hint}</div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-6">
+          {LIST_FIELDS.map(f => (
+            <div key={f.key} className="space-y-2">
+              <label className={labelClass}>{f.label} <span className="normal-case tracking-normal font-bold">(one per line)</span></label>
+              <textarea value={lists[f.key]} onChange={(e) => setLists(l => ({ ...l, [f.key]: e.target.value }))} placeholder={f.placeholder}
+                className={`${inputClass} h-28 resize-none`} />
+            </div>
+          ))}
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-[10px] font-bold text-red-500 space-y-1">
+            {errors.map((e, i) => <li key={i}>{e}</li>)}
+          </ul>
+        )}
+
+        <div className="flex justify-end gap-4">
+          <button onClick={onCancel} className="px-6 py-3 text-[10px] font-black text-slate-400 hover:text-slate-600 uppercase tracking-widest">Cancel</button>
+          <button onClick={handleSave} className="px-8 py-3 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl uppercase tracking-widest">Save Persona</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaBuilder;
@@ -0,0 +1,51 @@
+import React from 'react';
+import { InterviewPhase, InterviewPlan } from '../types';
+import { INTERVIEW_PHASES, activePlanItem, phaseItems } from '../services/interviewPlan';
+
+interface PhaseTrackerProps {
+  plan: InterviewPlan;
+  // Moving ahead skips what's left of the phases in between; moving back revisits.
+  onSelect: (phase: InterviewPhase) => void;
+  disabled: boolean;
+}
+
+const PhaseTracker: React.FC<PhaseTrackerProps> = ({ plan, onSelect, disabled }) => {
+  const currentIndex = INTERVIEW_PHASES.findIndex(p => p.value === plan.phase);
+  const current = activePlanItem(plan);
+
+  return (
+    <div className="px-12 py-4 border-b border-slate-100 dark:border-slate-800 space-y-3">
+      <ol className="flex items-center gap-2">
+        {INTERVIEW_PHASES.map((phase, i) => {
+          const items = phaseItems(plan, phase.value);
+          const covered = items.filter(it => it.status === 'covered').length;
+          const skipped = items.some(it => it.status === 'skipped');
+          const active = phase.value === plan.phase;
+          return (
+            <li key={phase.value} className="flex-1">
+              <button
+                onClick={() => onSelect(phase.value)}
+                disabled={disabled || active}
+                title={active ? phase.goal : i < currentIndex ? `Revisit: ${phase.goal}` : `Skip to: ${phase.goal}`}
+                className={`w-full rounded-2xl px-3 py-2 text-left transition-all disabled:cursor-default ${active ? 'bg-indigo-600 text-white' : i < currentIndex ? 'bg-teal-500/10 text-teal-600 dark:text-teal-400 hover:bg-teal-500/20' : 'bg-slate-50 dark:bg-slate-800/50 text-slate-400 hover:text-indigo-600'} ${disabled && !active ? 'opacity-60' : ''}`}
+              >
+                <span className="block text-[9px] font-black uppercase tracking-widest">{i + 1}. {phase.label}</span>
+                <span className="block text-[9px] font-bold opacity-80">
+                  {items.length ? `${covered}/${items.length} covered${skipped ? ' · skipped' : ''}` : active ? 'In progress' : '—'}
+                </span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      {current && (
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest truncate">
+          Topic: <span className="text-slate-600 dark:text-slate-300 normal-case tracking-normal">{current.topic}</span>
+          {current.answersNeeded > 1 && ` · ${Math.min(current.answers.length, current.answersNeeded)}/${current.answersNeeded} answers`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PhaseTracker;
@@ -0,0 +1,82 @@
+import React, { useMemo } from 'react';
+import { SessionRecord } from '../types';
+import { buildProgress, ScorePoint } from '../services/analytics';
+import LineChart, { ChartSeries } from './LineChart';
+
+interface ProgressDashboardProps {
+  sessions: SessionRecord[];
+  onBack: () => void;
+}
+
+const PALETTE = ['#6366f1', '#14b8a6', '#f59e0b', '#ef4444', '#a855f7'];
+
+const toSeries = (groups: Partial<Record<string, ScorePoint[]>>): ChartSeries[] =>
+  Object.entries(groups).map(([label, points], i) => ({
+    label: label.replace('-', ' '),
+    color: PALETTE[i % PALETTE.length],
+    points: (points ?? []).map(p => ({ x: p.at, y: p.score })),
+  }));
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ sessions, onBack }) => {
+  const progress = useMemo(() => buildProgress(sessions), [sessions]);
+
+  const skillSeries: ChartSeries[] = [
+    { label: 'DSA Core', color: '#6366f1', points: progress.skills.map(s => ({ x: s.at, y: s.dsa })) },
+    { label: 'Architecture', color: '#a855f7', points: progress.skills.map(s => ({ x: s.at, y: s.systemDesign })) },
+    { label: 'Eloquence', color: '#14b8a6', points: progress.skills.map(s => ({ x: s.at, y: s.communication })) },
+  ];
+
+  const panelClass = 'bg-white dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700/50 rounded-[2.5rem] p-8 space-y-6';
+  const headingClass = 'text-[10px] font-black text-slate-400 uppercase tracking-widest';
+
+  return (
+    <div className="min-h-screen bg-[#f1f5f9] dark:bg-[#0b1120] text-slate-800 dark:text-slate-200">
+      <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12">
+        <div className="flex flex-col">
+          <h2 className="text-base font-black tracking-tight dark:text-white">Progress Analytics</h2>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {progress.totalSessions} sessions · {progress.totalEvaluations} graded answers · avg {progress.averageScore.toFixed(1)}/10
+          </span>
+        </div>
+        <button onClick={onBack} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">← Back</button>
+      </header>
+
+      <div className="p-12 grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <section className={panelClass}>
+          <h3 className={headingClass}>Score by Category</h3>
+          <LineChart series={toSeries(progress.byCategory)} yMax={10} />
+        </section>
+
+        <section className={panelClass}>
+          <h3 className={headingClass}>Score by Interviewer Style</h3>
+          <LineChart series={toSeries(progress.byStyle)} yMax={10} />
+        </section>
+
+        <section className={panelClass}>
+          <h3 className={headingClass}>Skill Coverage Over Time</h3>
+          <LineChart series={skillSeries} yMax={100} />
+        </section>
+
+        <section className={panelClass}>
+          <h3 className={headingClass}>Weakest Recurring Themes</h3>
+          {progress.weakThemes.length === 0 && <p className="text-xs font-bold text-slate-400">Evaluate some answers to surface recurring themes.</p>}
+          <ol className="space-y-4">
+            {progress.weakThemes.map((t, i) => (
+              <li key={t.theme} className="bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-3xl p-5 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-bold text-slate-800 dark:text-white">{i + 1}. {t.theme}</span>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{t.occurrences}× · avg {t.averageScore.toFixed(1)}/10</span>
+                </div>
+                <ul className="space-y-1">
+                  {t.examples.map((e, j) => <li key={j} className="text-xs text-slate-500 dark:text-slate-400">“{e}”</li>)}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
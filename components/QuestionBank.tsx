@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { InterviewQuestion } from '../types';
+import QuestionCard from './QuestionCard';
+
+interface QuestionBankProps {
+  role: string;
+  questions: InterviewQuestion[];
+  pinned: string[];
+  loading: boolean;
+  onTogglePin: (question: InterviewQuestion) => void;
+  onStart: (question: InterviewQuestion) => void;
+  onRegenerate: () => void;
+  onBack: () => void;
+}
+
+const ALL = 'all';
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ role, questions, pinned, loading, onTogglePin, onStart, onRegenerate, onBack }) => {
+  const [typeFilter, setTypeFilter] = useState(ALL);
+  const [difficultyFilter, setDifficultyFilter] = useState(ALL);
+  const [skillFilter, setSkillFilter] = useState(ALL);
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+
+  const types = useMemo(() => Array.from(new Set(questions.map(q => q.type))).sort(), [questions]);
+  const skills = useMemo(() => Array.from(new Set(questions.flatMap(q => q.skills))).sort(), [questions]);
+
+  const visible = questions.filter(q =>
+    (typeFilter === ALL || q.type === typeFilter) &&
+    (difficultyFilter === ALL || q.difficulty === difficultyFilter) &&
+    (skillFilter === ALL || q.skills.includes(skillFilter)) &&
+    (!pinnedOnly || pinned.includes(q.text))
+  );
+
+  const selectClass = 'bg-slate-50 dark:bg-slate-800/50 border border-slate-200 dark:border-slate-700 rounded-2xl px-4 py-3 text-xs font-bold text-slate-600 dark:text-slate-300 outline-none capitalize';
+
+  return (
+    <div className="min-h-screen bg-[#f1f5f9] dark:bg-[#0b1120] text-slate-800 dark:text-slate-200">
+      <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12">
+        <div className="flex flex-col">
+          <h2 className="text-base font-black tracking-tight dark:text-white">Question Bank: {role}</h2>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">{visible.length} of {questions.length} questions · {pinned.length} pinned</span>
+        </div>
+        <div className="flex items-center gap-8">
+          <button onClick={onBack} className="text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">← Back</button>
+          <button onClick={onRegenerate} disabled={loading} className="px-6 py-2.5 bg-slate-900 dark:bg-indigo-600 text-white text-[10px] font-black rounded-xl hover:scale-105 transition-transform disabled:opacity-50">
+            {loading ? 'GENERATING...' : 'REGENERATE'}
+          </button>
+        </div>
+      </header>
+
+      <div className="px-12 py-8 flex flex-wrap items-center gap-4">
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value)} className={selectClass}>
+          <option value={ALL}>All types</option>
+          {types.map(t => <option key={t} value={t}>{t.replace('-', ' ')}</option>)}
+        </select>
+        <select value={difficultyFilter} onChange={(e) => setDifficultyFilter(e.target.value)} className={selectClass}>
+          <option value={ALL}>All difficulties</option>
+          {['easy', 'medium', 'hard'].map(d => <option key={d} value={d}>{d}</option>)}
+        </select>
+        <select value={skillFilter} onChange={(e) => setSkillFilter(e.target.value)} className={selectClass}>
+          <option value={ALL}>All skills</option>
+          {skills.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+          <input type="checkbox" checked={pinnedOnly} onChange={(e) => setPinnedOnly(e.target.checked)} />
+          Pinned only
+        </label>
+      </div>
+
+      <div className="px-12 pb-12 grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+        {visible.map((q, i) => (
+          <QuestionCard
+            key={`${q.text}-${i}`}
+            question={q}
+            pinned={pinned.includes(q.text)}
+            onTogglePin={() => onTogglePin(q)}
+            onStart={() => onStart(q)}
+          />
+        ))}
+        {!loading && visible.length === 0 && (
+          <p className="text-sm font-bold text-slate-400">No questions match these filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuestionBank;
@@ -4,9 +4,12 @@ import { InterviewQuestion } from '../types';
 
 interface QuestionCardProps {
   question: InterviewQuestion;
+  pinned?: boolean;
+  onTogglePin?: () => void;
+  onStart?: () => void;
 }
 
-const QuestionCard: React.FC<QuestionCardProps> = ({ question }) => {
+const QuestionCard: React.FC<QuestionCardProps> = ({ question, pinned, onTogglePin, onStart }) => {
   const difficultyColors = {
     easy: 'bg-green-100 text-green-700 border-green-200',
     medium: 'bg-amber-100 text-amber-700 border-amber-200',
@@ -69,6 +72,21 @@ const QuestionCard: React.FC<QuestionCardProps> = ({ question }) => {
             </ul>
           </div>
         )}
+        {(onTogglePin || onStart) && (
+          <div className="flex gap-2 mt-4">
+            {onTogglePin && (
+              <button onClick={onTogglePin}
+                className={`flex-1 px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${pinned ? 'bg-amber-50 text-amber-700 border-amber-200' : 'bg-white text-slate-500 border-slate-200 hover:border-indigo-300'}`}>
+                {pinned ? '★ Pinned' : '☆ Pin for practice'}
+              </button>
+            )}
+            {onStart && (
+              <button onClick={onStart} className="flex-1 px-3 py-2 rounded-lg text-xs font-bold bg-indigo-600 text-white hover:bg-indigo-700 transition-colors">
+                Start interview
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
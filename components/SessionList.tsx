@@ -0,0 +1,41 @@
+import React from 'react';
+import { SessionRecord } from '../types';
+
+interface SessionListProps {
+  sessions: SessionRecord[];
+  onResume: (session: SessionRecord) => void;
+  onDuplicate: (session: SessionRecord) => void;
+  onDelete: (session: SessionRecord) => void;
+}
+
+const SessionList: React.FC<SessionListProps> = ({ sessions, onResume, onDuplicate, onDelete }) => {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800/40 border border-slate-200 dark:border-slate-700/50 rounded-[3rem] p-10 text-left space-y-6">
+      <h3 className="text-xs font-black text-slate-400 dark:text-slate-500 uppercase tracking-widest px-1">Past Sessions</h3>
+      <ul className="space-y-3">
+        {sessions.map(s => {
+          const answers = s.messages.filter(m => m.role === 'user').length;
+          return (
+            <li key={s.id} className="flex items-center justify-between gap-6 bg-slate-50 dark:bg-slate-900/50 border border-slate-100 dark:border-slate-700 rounded-3xl px-6 py-4">
+              <div className="flex flex-col min-w-0">
+                <span className="text-sm font-bold text-slate-800 dark:text-white truncate">{s.role}</span>
+                <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {new Date(s.updatedAt).toLocaleString()} · {s.config.style} · {s.config.difficulty} · {answers} answer{answers === 1 ? '' : 's'}{s.closed ? ' · closed' : ''}
+                </span>
+              </div>
+              <div className="flex items-center gap-4 shrink-0">
+                <button onClick={() => onResume(s)} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest">{s.closed ? 'Review' : 'Resume'}</button>
+                <button onClick={() => onDuplicate(s)} className="text-[10px] font-black text-slate-400 hover:text-slate-700 uppercase tracking-widest">Duplicate</button>
+                <button onClick={() => onDelete(s)} className="text-[10px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest">Delete</button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionList;
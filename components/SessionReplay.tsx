@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { EvaluationResult, SessionRecord } from '../types';
+import { findQuestionIndex } from '../services/transcript';
+
+interface SessionReplayProps {
+  session: SessionRecord;
+  sourceName: string;
+  onEvaluate: (question: string, answer: string) => Promise<EvaluationResult>;
+  onBack: () => void;
+}
+
+const PLAYBACK_STEP_MS = 1500;
+
+const SessionReplay: React.FC<SessionReplayProps> = ({ session, sourceName, onEvaluate, onBack }) => {
+  const [step, setStep] = useState(1);
+  const [playing, setPlaying] = useState(false);
+  const [reEvaluations, setReEvaluations] = useState<Record<number, EvaluationResult>>({});
+  const [pending, setPending] = useState<number | null>(null);
+  const [evalError, setEvalError] = useState<string | null>(null);
+
+  const total = session.messages.length;
+
+  useEffect(() => {
+    if (!playing) return;
+    if (step >= total) {
+      setPlaying(false);
+      return;
+    }
+    const id = setTimeout(() => setStep(s => s + 1), PLAYBACK_STEP_MS);
+    return () => clearTimeout(id);
+  }, [playing, step, total]);
+
+  const handleReEvaluate = async (answerIdx: number) => {
+    const questionIdx = findQuestionIndex(session.messages, answerIdx);
+    if (questionIdx === -1) return;
+    setPending(answerIdx);
+    setEvalError(null);
+    try {
+      const result = await onEvaluate(session.messages[questionIdx].text, session.messages[answerIdx].text);
+      setReEvaluations(prev => ({ ...prev, [answerIdx]: result }));
+    } catch (err: any) {
+      setEvalError(err.message || "Re-evaluation failed.");
+    } finally {
+      setPending(null);
+    }
+  };
+
+  const controlClass = 'px-5 py-2.5 bg-slate-50 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-[10px] font-black rounded-xl uppercase tracking-widest disabled:opacity-30';
+
+  return (
+    <div className="min-h-screen bg-[#f1f5f9] dark:bg-[#0b1120] text-slate-800 dark:text-slate-200">
+      <header className="h-24 bg-white/80 dark:bg-slate-900/50 backdrop-blur-3xl border-b border-slate-100 dark:border-slate-800 flex items-center justify-between px-12 sticky top-0 z-10">
+        <div className="flex flex-col">
+          <h2 className="text-base font-black tracking-tight dark:text-white">Replay: {session.role}</h2>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+            {sourceName} · {session.config.style} · {session.config.difficulty} · step {Math.min(step, total)} of {total}
+          </span>
+        </div>
+        <div className="flex items-center gap-3">
+          <button onClick={() => setStep(s => Math.max(1, s - 1))} disabled={step <= 1} className={controlClass}>← Prev</button>
+          <button onClick={() => setPlaying(!playing)} disabled={step >= total && !playing} className={controlClass}>{playing ? 'Pause' : 'Play'}</button>
+          <button onClick={() => setStep(s => Math.min(total, s + 1))} disabled={step >= total} className={controlClass}>Next →</button>
+          <button onClick={() => setStep(total)} disabled={step >= total} className={controlClass}>Show All</button>
+          <button onClick={onBack} className="ml-6 text-[10px] font-black text-slate-400 hover:text-indigo-600 uppercase tracking-widest">← Back</button>
+        </div>
+      </header>
+
+      <div className="max-w-4xl mx-auto p-12 space-y-8">
+        {evalError && <p className="text-red-500 text-sm font-bold">{evalError}</p>}
+        {session.messages.slice(0, step).map((m, i) => {
+          const original = session.evaluationHistory[i];
+          const fresh = reEvaluations[i];
+          return (
+            <div key={i} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'} gap-3 animate-in fade-in`}>
+              <div className={`max-w-[80%] rounded-[2rem] px-8 py-5 ${m.role === 'user' ? 'bg-gradient-to-tr from-indigo-600 to-purple-600 text-white' : 'bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700'}`}>
+                <p className="text-sm leading-relaxed whitespace-pre-wrap font-medium">{m.text}</p>
+                {m.status && <p className="mt-2 text-[10px] font-black uppercase tracking-widest opacity-60">{m.status === 'failed' ? `⚠ ${m.error}` : 'Stopped'}</p>}
+              </div>
+              {m.role === 'user' && (
+                <div className="max-w-[80%] w-full bg-white dark:bg-slate-800/60 border border-slate-200 dark:border-slate-700 rounded-3xl p-5 space-y-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-4 text-xs font-black">
+                      <span className="text-slate-400 uppercase tracking-widest text-[10px]">Original</span>
+                      <span>{original ? `${original.score}/10` : 'not evaluated'}</span>
+                      {fresh && (
+                        <>
+                          <span className="text-slate-400 uppercase tracking-widest text-[10px]">Re-evaluated</span>
+                          <span>{fresh.score}/10</span>
+                          {original && (
+                            <span className={fresh.score >= original.score ? 'text-teal-500' : 'text-red-500'}>
+                              {fresh.score - original.score >= 0 ? '+' : ''}{fresh.score - original.score}
+                            </span>
+                          )}
+                        </>
+                      )}
+                    </div>
+                    <button onClick={() => handleReEvaluate(i)} disabled={pending !== null} className="text-[10px] font-black text-indigo-600 hover:text-indigo-800 uppercase tracking-widest disabled:opacity-30">
+                      {pending === i ? 'Evaluating...' : fresh ? 'Re-evaluate again' : 'Re-evaluate'}
+                    </button>
+                  </div>
+                  {original && <p className="text-xs text-slate-500 dark:text-slate-400 italic">Original: “{original.feedback}”</p>}
+                  {fresh && <p className="text-xs text-slate-600 dark:text-slate-300 italic">New: “{fresh.feedback}”</p>}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionReplay;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { JobDescriptionAnalysis, SkillMatch, SkillMatchLevel } from '../types';
+import { gapScore } from '../services/jobDescription';
+
+interface SkillMatrixProps {
+  jobDescription: JobDescriptionAnalysis | null;
+  matrix: SkillMatch[];
+}
+
+const LEVEL_CLASSES: Record<SkillMatchLevel, string> = {
+  strong: 'bg-teal-500/10 text-teal-600',
+  partial: 'bg-amber-500/10 text-amber-600',
+  missing: 'bg-red-500/10 text-red-500',
+};
+
+const SkillMatrix: React.FC<SkillMatrixProps> = ({ jobDescription, matrix }) => {
+  // Biggest gaps at the top, matching what the interviewer is told to focus on.
+  const rows = [...matrix].sort((a, b) => gapScore(b) - gapScore(a));
+
+  return (
+    <div className="space-y-4">
+      {jobDescription && (
+        <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+          {jobDescription.title} · {jobDescription.seniority} · {jobDescription.domain}
+        </p>
+      )}
+      <div className="space-y-2">
+        {rows.map(m => (
+          <div key={m.skill} title={m.evidence} className="flex items-center gap-3 bg-slate-50 dark:bg-slate-800/30 px-4 py-3 rounded-2xl border border-slate-100 dark:border-slate-700/50">
+            <span className="flex-1 text-xs font-bold text-slate-700 dark:text-slate-300">{m.skill}</span>
+            <span className={`text-[9px] font-black uppercase tracking-widest ${m.importance === 'required' ? 'text-slate-600 dark:text-slate-300' : 'text-slate-400'}`}>
+              {m.importance === 'required' ? 'Req' : 'Nice'}
+            </span>
+            <span className={`w-16 text-center text-[9px] px-2 py-1 rounded-full font-black uppercase ${LEVEL_CLASSES[m.level]}`}>{m.level}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SkillMatrix;
@@ -0,0 +1,182 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { buildRequest, PromptInput } from "../../services/geminiService";
+import { createProvider, GenerateJsonRequest, GenerateRequest, resolveProviderConfig } from "../../services/providers";
+import { ProviderError, ProviderErrorKind, toProviderError } from "../../services/providers/errors";
+import { PROXY_ENDPOINTS, PROXY_MODES, ProxyEndpoint, ProxyErrorBody, ProxyMode } from "../../services/providers/proxyProtocol";
+import { DEFAULT_RETRY_POLICY, withResilience } from "../../services/providers/resilience";
+import { expectOnlyKeys, isObject, Issues, validatePromptInput } from "../../services/validation";
+import { clientKey, createRateLimiter } from "./rateLimit";
+
+// Holds the model API key and runs the configured backend on behalf of the
+// browser, which only ever sees /api/*. Settings come from the app's .env.local.
+try {
+  process.loadEnvFile(process.env.ENV_FILE || '../.env.local');
+} catch {
+  // no file: rely on the real environment
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+// Loopback only unless told otherwise; the Vite dev server reaches it from the same machine.
+const HOST = process.env.PROXY_HOST || '127.0.0.1';
+
+interface EndpointLimits {
+  maxBodyBytes: number;
+  requestsPerMinute: number;
+}
+
+// Job-description files arrive base64-encoded, about 4/3 of their size on disk;
+// resumes arrive as redacted text, or as a file the user agreed to send as is.
+const LIMITS: Record<ProxyEndpoint, EndpointLimits> = {
+  'analyze-resume': { maxBodyBytes: 8 * 1024 * 1024, requestsPerMinute: 6 },
+  'interviewer-turn': { maxBodyBytes: 512 * 1024, requestsPerMinute: 30 },
+  'evaluate': { maxBodyBytes: 512 * 1024, requestsPerMinute: 30 },
+};
+
+const STATUS: Record<ProviderErrorKind, number> = {
+  'rate-limit': 429,
+  'transient': 503,
+  'network': 502,
+  'auth': 401,
+  'bad-request': 400,
+  'malformed-response': 502,
+  'invalid-response': 502,
+};
+
+// Re-asking for valid JSON needs the prompt, which only exists here now; the
+// browser's own resilience layer still retries transport failures.
+const provider = withResilience(createProvider(resolveProviderConfig()), { ...DEFAULT_RETRY_POLICY, retries: 0 });
+const limiters = Object.fromEntries(
+  Object.entries(LIMITS).map(([endpoint, limits]) => [endpoint, createRateLimiter(limits.requestsPerMinute)])
+) as Record<ProxyEndpoint, ReturnType<typeof createRateLimiter>>;
+
+const badRequest = (message: string, status = 400) => new ProviderError('bad-request', message, { status });
+
+function readBody(req: IncomingMessage, endpoint: ProxyEndpoint): Promise<string> {
+  const limit = LIMITS[endpoint].maxBodyBytes;
+  const tooLarge = () => badRequest(endpoint === 'analyze-resume'
+    ? `The upload is too large; the limit is ${limit / 1024 / 1024} MB after encoding.`
+    : `The request is too large; the limit is ${limit / 1024} KB.`, 413);
+  return new Promise((resolve, reject) => {
+    // Stop reading at once; the connection is closed after the 413 goes out.
+    const fail = () => {
+      req.removeAllListeners('data');
+      req.pause();
+      reject(tooLarge());
+    };
+    if (Number(req.headers['content-length']) > limit) return fail();
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) return fail();
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+interface ProxyCall {
+  mode: ProxyMode;
+  request: GenerateRequest;
+}
+
+// The browser sends only what a prompt is built from; the prompt, schema and
+// settings are rebuilt here, and only kinds served by this endpoint are accepted.
+function parseRequest(endpoint: ProxyEndpoint, text: string): ProxyCall {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    throw badRequest('The request body is not valid JSON.');
+  }
+  if (!isObject(body) || !PROXY_MODES.includes(body.mode)) {
+    throw badRequest('Expected { mode: "text" | "stream" | "json", input }.');
+  }
+  const issues: Issues = [];
+  expectOnlyKeys(body, ['mode', 'input'], '$', issues);
+  validatePromptInput(body.input, '$.input', issues);
+  if (issues.length > 0) throw badRequest(`The request is invalid:\n${issues.map(i => `• ${i}`).join('\n')}`);
+  const input = body.input as PromptInput;
+  const request = buildRequest(input);
+  if (PROXY_ENDPOINTS[request.task] !== endpoint) throw badRequest(`'${input.kind}' is not served by /api/${endpoint}.`);
+  if (('schema' in request) !== (body.mode === 'json')) throw badRequest(`'${input.kind}' can't be run in ${body.mode} mode.`);
+  return { mode: body.mode, request };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, err: unknown): void {
+  const error = toProviderError(err);
+  const status = error.kind === 'bad-request' && error.details.status ? error.details.status : STATUS[error.kind];
+  if (error.details.retryAfterMs !== undefined) res.setHeader('Retry-After', Math.ceil(error.details.retryAfterMs / 1000));
+  if (status >= 500) console.error(`[proxy] ${error.kind}: ${error.message}`);
+  const body: ProxyErrorBody = { kind: error.kind, message: error.message, raw: error.details.raw };
+  sendJson(res, status, body);
+}
+
+async function stream(res: ServerResponse, request: GenerateRequest): Promise<void> {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  const start = () => {
+    if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-cache' });
+  };
+  try {
+    await provider.streamText(request, {
+      signal: controller.signal,
+      onChunk: (chunk) => {
+        start();
+        res.write(chunk);
+      },
+    });
+    start();
+    res.end();
+  } catch (err) {
+    if (!res.headersSent) throw err;
+    // The status has already gone out; cutting the connection tells the browser the stream broke.
+    res.destroy();
+  }
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const endpoint = new URL(req.url ?? '/', 'http://localhost').pathname.match(/^\/api\/([a-z-]+)\/?$/)?.[1] as ProxyEndpoint | undefined;
+  if (!endpoint || !(endpoint in LIMITS)) throw badRequest('Not found.', 404);
+  if (req.method !== 'POST') throw badRequest('Use POST.', 405);
+
+  const wait = limiters[endpoint].take(clientKey(req));
+  if (wait > 0) throw new ProviderError('rate-limit', 'Too many requests from this client. Wait a moment and retry.', { retryAfterMs: wait });
+
+  const { mode, request } = parseRequest(endpoint, await readBody(req, endpoint));
+  switch (mode) {
+    case 'text':
+      return sendJson(res, 200, { result: await provider.generateText(request) });
+    case 'json':
+      return sendJson(res, 200, { result: await provider.generateJson(request as GenerateJsonRequest) });
+    case 'stream':
+      return stream(res, request);
+  }
+}
+
+const server = createServer((req, res) => {
+  // A request rejected before its body was read (too large, rate-limited, unknown
+  // endpoint) isn't drained: the connection closes once the reply is out.
+  res.on('finish', () => {
+    if (!req.complete) req.destroy();
+  });
+  handle(req, res).catch(err => {
+    if (res.headersSent) return res.destroy();
+    if (!req.complete) res.setHeader('Connection', 'close');
+    sendError(res, err);
+  });
+});
+
+setInterval(() => Object.values(limiters).forEach(l => l.prune()), 60_000).unref();
+
+server.listen(PORT, HOST, () => {
+  console.log(`InterviewGen proxy on http://${HOST}:${PORT} → ${provider.id} · ${provider.model}`);
+});
@@ -0,0 +1,49 @@
+import { IncomingMessage } from "node:http";
+
+// Token bucket per client: `perMinute` requests refill evenly over a minute,
+// with up to `burst` available at once.
+export interface RateLimiter {
+  // 0 if the request may go ahead, otherwise how long until it could.
+  take(key: string, now?: number): number;
+  // Forgets clients whose bucket has refilled; they'd start full anyway.
+  prune(now?: number): void;
+}
+
+export function createRateLimiter(perMinute: number, burst = perMinute): RateLimiter {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const refillPerMs = perMinute / 60_000;
+  const tokensAt = (bucket: { tokens: number; updatedAt: number }, now: number) =>
+    Math.min(burst, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+
+  return {
+    take(key, now = Date.now()) {
+      const bucket = buckets.get(key) ?? { tokens: burst, updatedAt: now };
+      bucket.tokens = tokensAt(bucket, now);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return 0;
+      }
+      return Math.ceil((1 - bucket.tokens) / refillPerMs);
+    },
+
+    prune(now = Date.now()) {
+      buckets.forEach((bucket, key) => {
+        if (tokensAt(bucket, now) >= burst) buckets.delete(key);
+      });
+    },
+  };
+}
+
+const LOOPBACK = ['127.0.0.1', '::1', '::ffff:127.0.0.1'];
+
+// Who a request is rate-limited as. Behind the Vite dev proxy every request comes
+// from loopback; the proxy appends the address it saw to X-Forwarded-For, so only
+// the last entry is trustworthy. Earlier entries are whatever the client sent.
+export function clientKey(req: Pick<IncomingMessage, 'headers' | 'socket'>): string {
+  const remote = req.socket.remoteAddress ?? 'unknown';
+  const forwarded = req.headers['x-forwarded-for'];
+  const last = typeof forwarded === 'string' ? forwarded.split(',').pop()?.trim() : undefined;
+  return LOOPBACK.includes(remote) && last ? last : remote;
+}
@@ -0,0 +1,62 @@
+import { AdaptiveState, Difficulty, DifficultyAdjustment } from "../types";
+
+export const DIFFICULTY_LEVELS: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+// Weight of the newest score in the running estimate.
+const SMOOTHING = 0.5;
+// Estimate at or above RAISE_AT steps difficulty up; at or below LOWER_AT steps it down.
+export const RAISE_AT = 7.5;
+export const LOWER_AT = 4.5;
+// Answers that must be scored at a level before it can change again, so one lucky
+// or unlucky answer doesn't bounce the interview between levels.
+export const MIN_ANSWERS_PER_LEVEL = 2;
+
+export function createAdaptiveState(startedAt: Difficulty): AdaptiveState {
+  return { startedAt, estimate: null, scoredAnswers: [], answersSinceChange: 0, adjustments: [] };
+}
+
+export function clampDifficulty(difficulty: Difficulty, min: Difficulty, max: Difficulty): Difficulty {
+  const index = DIFFICULTY_LEVELS.indexOf(difficulty);
+  const lo = DIFFICULTY_LEVELS.indexOf(min);
+  const hi = Math.max(lo, DIFFICULTY_LEVELS.indexOf(max));
+  return DIFFICULTY_LEVELS[Math.min(hi, Math.max(lo, index))];
+}
+
+// Folds one answer's score into the estimate and decides the next difficulty.
+// Answers already counted (e.g. re-evaluated) are ignored so the estimate isn't skewed.
+export function applyScore(
+  state: AdaptiveState,
+  current: Difficulty,
+  bounds: { min: Difficulty; max: Difficulty },
+  answerIndex: number,
+  score: number,
+  at: number = Date.now()
+): { state: AdaptiveState; difficulty: Difficulty } {
+  if (state.scoredAnswers.includes(answerIndex)) return { state, difficulty: current };
+
+  const estimate = state.estimate === null ? score : SMOOTHING * score + (1 - SMOOTHING) * state.estimate;
+  const rounded = Math.round(estimate * 10) / 10;
+  const answersSinceChange = state.answersSinceChange + 1;
+  const next: AdaptiveState = { ...state, estimate: rounded, scoredAnswers: [...state.scoredAnswers, answerIndex], answersSinceChange };
+
+  const index = DIFFICULTY_LEVELS.indexOf(current);
+  const step = rounded >= RAISE_AT ? 1 : rounded <= LOWER_AT ? -1 : 0;
+  const target = clampDifficulty(DIFFICULTY_LEVELS[Math.max(0, Math.min(DIFFICULTY_LEVELS.length - 1, index + step))], bounds.min, bounds.max);
+  if (step === 0 || target === current || answersSinceChange < MIN_ANSWERS_PER_LEVEL) return { state: next, difficulty: current };
+
+  const adjustment: DifficultyAdjustment = {
+    answerIndex,
+    from: current,
+    to: target,
+    score,
+    estimate: rounded,
+    at,
+    reason: step > 0
+      ? `Running estimate ${rounded}/10 is at or above the raise threshold of ${RAISE_AT} after an answer scored ${score}/10, so questions moved up to ${target}.`
+      : `Running estimate ${rounded}/10 is at or below the lower threshold of ${LOWER_AT} after an answer scored ${score}/10, so questions moved down to ${target}.`,
+  };
+  return {
+    state: { ...next, answersSinceChange: 0, adjustments: [...next.adjustments, adjustment] },
+    difficulty: target,
+  };
+}
@@ -0,0 +1,99 @@
+import { Category, InterviewerStyle, SessionRecord } from "../types";
+
+export interface ScorePoint {
+  at: number;
+  score: number;
+  sessionId: string;
+}
+
+export interface SkillPoint {
+  at: number;
+  dsa: number;
+  systemDesign: number;
+  communication: number;
+}
+
+export interface TipTheme {
+  theme: string;
+  occurrences: number;
+  averageScore: number;
+  examples: string[];
+}
+
+export interface ProgressReport {
+  totalSessions: number;
+  totalEvaluations: number;
+  averageScore: number;
+  byCategory: Partial<Record<Category, ScorePoint[]>>;
+  byStyle: Partial<Record<InterviewerStyle, ScorePoint[]>>;
+  skills: SkillPoint[];
+  weakThemes: TipTheme[];
+}
+
+// Keyword buckets so differently-worded tips about the same weakness count together.
+const TIP_THEMES: { theme: string; pattern: RegExp }[] = [
+  { theme: 'Quantifying impact', pattern: /metric|quantif|number|measur|impact/i },
+  { theme: 'Discussing trade-offs', pattern: /trade-?off|alternative|pros and cons/i },
+  { theme: 'Answer structure (STAR)', pattern: /\bstar\b|structure|situation|organi[sz]e/i },
+  { theme: 'Concrete examples', pattern: /example|specific|concrete|anecdote/i },
+  { theme: 'Complexity analysis', pattern: /complexity|big-?o|time and space|runtime/i },
+  { theme: 'Edge cases & testing', pattern: /edge case|corner case|test/i },
+  { theme: 'Clarifying assumptions', pattern: /clarif|assumption|requirement/i },
+  { theme: 'Scalability', pattern: /scal|throughput|latency|bottleneck|load/i },
+  { theme: 'Conciseness', pattern: /concise|brevity|ramble|succinct|shorter/i },
+];
+
+export function tipTheme(tip: string): string {
+  return TIP_THEMES.find(t => t.pattern.test(tip))?.theme ?? 'Other';
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+
+export function buildProgress(sessions: SessionRecord[], themeLimit = 5): ProgressReport {
+  const byCategory: ProgressReport['byCategory'] = {};
+  const byStyle: ProgressReport['byStyle'] = {};
+  const themes = new Map<string, { scores: number[]; examples: string[] }>();
+  const skills: SkillPoint[] = [];
+  const allScores: number[] = [];
+
+  [...sessions].sort((a, b) => a.createdAt - b.createdAt).forEach(session => {
+    if (session.analysis) skills.push({ at: session.createdAt, ...session.analysis.skillMap });
+
+    Object.entries(session.evaluationHistory).forEach(([idx, evaluation]) => {
+      const point: ScorePoint = {
+        at: session.messages[Number(idx)]?.sentAt ?? session.updatedAt,
+        score: evaluation.score,
+        sessionId: session.id,
+      };
+      (byCategory[session.config.category] ??= []).push(point);
+      (byStyle[session.config.style] ??= []).push(point);
+      allScores.push(evaluation.score);
+
+      evaluation.improvement_tips.forEach(tip => {
+        const entry = themes.get(tipTheme(tip)) ?? { scores: [], examples: [] };
+        entry.scores.push(evaluation.score);
+        if (entry.examples.length < 3 && !entry.examples.includes(tip)) entry.examples.push(tip);
+        themes.set(tipTheme(tip), entry);
+      });
+    });
+  });
+
+  Object.values(byCategory).forEach(points => points!.sort((a, b) => a.at - b.at));
+  Object.values(byStyle).forEach(points => points!.sort((a, b) => a.at - b.at));
+
+  // "Weakest" = recurs most often, ties broken by the lower scores it shows up with.
+  const weakThemes = Array.from(themes.entries())
+    .map(([theme, { scores, examples }]) => ({ theme, occurrences: scores.length, averageScore: average(scores), examples }))
+    .sort((a, b) => b.occurrences - a.occurrences || a.averageScore - b.averageScore)
+    .slice(0, themeLimit);
+
+  return {
+    totalSessions: sessions.length,
+    totalEvaluations: allScores.length,
+    averageScore: average(allScores),
+    byCategory,
+    byStyle,
+    skills,
+    weakThemes,
+  };
+}
@@ -0,0 +1,80 @@
+import { Category, CategoryDetails, EvaluationResult, StarElement } from "../types";
+
+export const CATEGORY_OPTIONS: { value: Category; label: string; description: string }[] = [
+  { value: 'technical', label: 'Technical', description: 'Fundamentals first, then depth and trade-offs' },
+  { value: 'behavioral', label: 'Behavioral', description: 'STAR-probed stories, tagged by competency' },
+  { value: 'scenario', label: 'Scenario', description: 'One situation that evolves over several steps' },
+  { value: 'hr-fit', label: 'HR Fit', description: 'Motivation, compensation and working style' },
+];
+
+export const STAR_ELEMENTS: StarElement[] = ['situation', 'task', 'action', 'result'];
+
+// Asked roughly in this order; competencies a story already evidenced are skipped.
+export const BEHAVIORAL_COMPETENCIES = [
+  'ownership', 'conflict-resolution', 'leadership', 'collaboration',
+  'failure-and-learning', 'adaptability', 'influence', 'customer-focus',
+];
+
+// A scenario runs for this many candidate answers before a new one starts.
+export const SCENARIO_STEPS = 4;
+
+export const HR_TOPICS = ['motivation for this role', 'compensation expectations', 'availability and notice period', 'working style and values', 'career goals'];
+
+// Off-limits in an interview whatever the category. Matches are flagged on the message for review.
+const GUARDRAILS: { topic: string; pattern: RegExp }[] = [
+  { topic: 'salary history', pattern: /\b(current|previous|last|past|present) (salary|compensation|pay|ctc)\b|\bhow much (do|did) you (currently )?(make|earn)\b/i },
+  { topic: 'age', pattern: /\bhow old are you\b|\byour age\b|\bwhat year were you born\b/i },
+  { topic: 'family status', pattern: /\bare you married\b|\b(do you have|planning to have|plan on having) (any )?(kids|children)\b|\bpregnan/i },
+  { topic: 'religion', pattern: /\byour (religion|faith)\b|\bwhat religion\b|\bdo you (go to church|pray)\b/i },
+  { topic: 'national origin', pattern: /\bwhere are you (originally|really) from\b|\byour (nationality|ethnicity|race)\b/i },
+  { topic: 'health or disability', pattern: /\b(do you have|any) (a )?(disabilit|medical condition|health (issue|problem|condition))/i },
+];
+
+export function findGuardrailFlags(text: string): string[] {
+  return GUARDRAILS.filter(g => g.pattern.test(text)).map(g => g.topic);
+}
+
+export const HR_GUARDRAIL_RULES = [
+  'Ask for compensation expectations, never for current or past salary.',
+  "Don't negotiate, promise or hint at a number, a title or an offer.",
+  'Never ask about age, family or marital status, pregnancy, religion, national origin, health or disability.',
+  "If the candidate volunteers any of those, acknowledge it neutrally and move on; don't follow up on it.",
+];
+
+// Which step of the current scenario the next interviewer turn is, counting from 1.
+export function scenarioStep(history: { role: string }[]): number {
+  return (history.filter(m => m.role === 'user').length % SCENARIO_STEPS) + 1;
+}
+
+// Competencies tagged on evaluated behavioral answers so far.
+export function coveredCompetencies(evaluations: EvaluationResult[]): string[] {
+  const tagged = evaluations.flatMap(e => e.categoryDetails?.category === 'behavioral' ? e.categoryDetails.competencies : []);
+  return BEHAVIORAL_COMPETENCIES.filter(c => tagged.includes(c));
+}
+
+export function describeCategoryDetails(details: CategoryDetails): string[] {
+  switch (details.category) {
+    case 'technical':
+      return [
+        `Concepts covered: ${details.conceptsCovered.join(', ') || 'none'}`,
+        ...(details.misconceptions.length ? [`Misconceptions: ${details.misconceptions.join('; ')}`] : []),
+      ];
+    case 'behavioral':
+      return [
+        `STAR: ${STAR_ELEMENTS.map(e => `${e} ${details.star[e]}`).join(', ')}`,
+        `Competencies: ${details.competencies.join(', ') || 'none evidenced'}`,
+      ];
+    case 'scenario':
+      return [
+        `Adaptability: ${details.adaptabilityScore}/10`,
+        `Key decisions: ${details.decisions.join('; ') || 'none'}`,
+        ...(details.risksMissed.length ? [`Risks missed: ${details.risksMissed.join('; ')}`] : []),
+      ];
+    case 'hr-fit':
+      return [
+        `Motivations: ${details.motivations.join(', ') || 'none stated'}`,
+        `Compensation expectation: ${details.compensationExpectation ?? 'not discussed'}`,
+        ...(details.concerns.length ? [`Concerns: ${details.concerns.join('; ')}`] : []),
+      ];
+  }
+}
@@ -0,0 +1,72 @@
+import { CoachingExchange, EvaluationResult, HintLevel, HintPenalty, HintPolicyId } from "../types";
+
+// Hints escalate in this order; each costs more than the last.
+export const HINT_LEVELS: { value: HintLevel; label: string; description: string }[] = [
+  { value: 'nudge', label: 'Nudge', description: 'What to think about, without naming the approach' },
+  { value: 'approach', label: 'Approach', description: 'Which technique or structure to use, not worked through' },
+  { value: 'partial', label: 'Partial Answer', description: 'The key insight, with the rest left to you' },
+];
+
+export interface HintPolicy {
+  label: string;
+  description: string;
+  // Points off the 0-10 score per hint at each level.
+  costs: Record<HintLevel, number>;
+  clarification: number;
+  // Coaching never takes more than this off one answer.
+  maxPenalty: number;
+}
+
+export const HINT_POLICIES: Record<HintPolicyId, HintPolicy> = {
+  'off': { label: 'Off', description: 'Practice freely; hints cost nothing', costs: { nudge: 0, approach: 0, partial: 0 }, clarification: 0, maxPenalty: 0 },
+  'lenient': { label: 'Lenient', description: 'Small deductions, clarifications free', costs: { nudge: 0.25, approach: 0.75, partial: 1.5 }, clarification: 0, maxPenalty: 2.5 },
+  'standard': { label: 'Standard', description: 'Deductions grow with each level', costs: { nudge: 0.5, approach: 1.5, partial: 3 }, clarification: 0, maxPenalty: 5 },
+  'strict': { label: 'Strict', description: 'Like a real interview: every assist counts', costs: { nudge: 1, approach: 2, partial: 4 }, clarification: 0.5, maxPenalty: 6 },
+};
+
+export const DEFAULT_HINT_POLICY: HintPolicyId = 'standard';
+
+export function coachingForQuestion(coaching: CoachingExchange[], questionIndex: number): CoachingExchange[] {
+  return coaching.filter(c => c.questionIndex === questionIndex);
+}
+
+// The next hint escalates one level past the last one given; null once the partial answer is out.
+export function nextHintLevel(coaching: CoachingExchange[], questionIndex: number): HintLevel | null {
+  const given = coachingForQuestion(coaching, questionIndex).flatMap(c => c.level ? [HINT_LEVELS.findIndex(l => l.value === c.level)] : []);
+  const next = given.length ? Math.max(...given) + 1 : 0;
+  return HINT_LEVELS[next]?.value ?? null;
+}
+
+export function hintLevelLabel(level: HintLevel): string {
+  return HINT_LEVELS.find(l => l.value === level)?.label ?? level;
+}
+
+// Deducts coaching used on the answered question from the score, and records what was used
+// even when the policy makes it free.
+export function applyHintPenalty(
+  result: EvaluationResult,
+  coaching: CoachingExchange[],
+  questionIndex: number,
+  policyId: HintPolicyId = DEFAULT_HINT_POLICY
+): EvaluationResult {
+  const used = coachingForQuestion(coaching, questionIndex);
+  if (used.length === 0) return result;
+
+  const policy = HINT_POLICIES[policyId];
+  const hints = used.flatMap(c => c.level ? [c.level] : []);
+  const clarifications = used.filter(c => c.kind === 'clarification').length;
+  const cost = hints.reduce((sum, level) => sum + policy.costs[level], 0) + clarifications * policy.clarification;
+  const points = Math.min(policy.maxPenalty, Math.round(cost * 10) / 10);
+  const hintPenalty: HintPenalty = { policy: policyId, hints, clarifications, points, rawScore: result.score };
+  return { ...result, score: Math.max(0, Math.round((result.score - points) * 10) / 10), hintPenalty };
+}
+
+export function describeHintPenalty(penalty: HintPenalty): string {
+  const used = [
+    ...penalty.hints.map(hintLevelLabel),
+    ...(penalty.clarifications ? [`${penalty.clarifications} clarification${penalty.clarifications === 1 ? '' : 's'}`] : []),
+  ].join(', ');
+  return penalty.points > 0
+    ? `Coaching used (${used}): −${penalty.points} under the ${HINT_POLICIES[penalty.policy].label.toLowerCase()} policy, from ${penalty.rawScore}/10`
+    : `Coaching used (${used}): no penalty under the ${HINT_POLICIES[penalty.policy].label.toLowerCase()} policy`;
+}
@@ -0,0 +1,124 @@
+import { CodeLanguage, CodingTestCase, TestResult } from "../types";
+
+// Runs candidate code in a throwaway Web Worker. The worker is terminated when a
+// test overruns its time budget, so infinite loops can't freeze the page. Network
+// and storage globals are shadowed before user code runs; this keeps a practice
+// solution honest, it is not a security boundary for untrusted third-party code.
+
+export const DEFAULT_TEST_TIMEOUT_MS = 2000;
+
+const WORKER_SOURCE = `
+const BLOCKED = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel'];
+BLOCKED.forEach(name => { try { Object.defineProperty(self, name, { value: undefined, writable: false, configurable: false }); } catch (e) {} });
+
+const format = v => { try { return typeof v === 'string' ? v : JSON.stringify(v); } catch (e) { return String(v); } };
+
+function deepEqual(a, b) {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = Object.keys(a), kb = Object.keys(b);
+  return ka.length === kb.length && ka.every(k => deepEqual(a[k], b[k]));
+}
+
+self.onmessage = async (event) => {
+  const { code, functionName, tests } = event.data;
+  let logs = [];
+  const sandboxConsole = {
+    log: (...args) => logs.push(args.map(format).join(' ')),
+    error: (...args) => logs.push('[error] ' + args.map(format).join(' ')),
+    warn: (...args) => logs.push('[warn] ' + args.map(format).join(' ')),
+  };
+  let fn;
+  try {
+    fn = new Function('console', '"use strict";\\n' + code + '\\n;return typeof ' + functionName + ' === "function" ? ' + functionName + ' : undefined;')(sandboxConsole);
+  } catch (err) {
+    self.postMessage({ type: 'compile-error', error: String(err && err.message || err) });
+    return;
+  }
+  if (!fn) {
+    self.postMessage({ type: 'compile-error', error: 'Define a function named ' + functionName + '.' });
+    return;
+  }
+  for (let index = 0; index < tests.length; index++) {
+    logs = [];
+    const started = performance.now();
+    try {
+      const actual = await fn(...structuredClone(tests[index].args));
+      self.postMessage({ type: 'result', result: { index, passed: deepEqual(actual, tests[index].expected), actual, durationMs: performance.now() - started, logs } });
+    } catch (err) {
+      self.postMessage({ type: 'result', result: { index, passed: false, error: String(err && err.message || err), durationMs: performance.now() - started, logs } });
+    }
+  }
+  self.postMessage({ type: 'done' });
+};
+`;
+
+async function toRunnableJs(code: string, language: CodeLanguage): Promise<string> {
+  // Candidates often paste module-style code; the worker evaluates a plain script.
+  const scriptCode = code.replace(/^\s*export\s+(default\s+)?/gm, '');
+  if (language === 'javascript') return scriptCode;
+  const { transform } = await import('sucrase');
+  return transform(scriptCode, { transforms: ['typescript'] }).code;
+}
+
+export class CompileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CompileError';
+  }
+}
+
+export async function runTests(
+  code: string,
+  language: CodeLanguage,
+  functionName: string,
+  tests: CodingTestCase[],
+  timeoutMs = DEFAULT_TEST_TIMEOUT_MS
+): Promise<TestResult[]> {
+  let js: string;
+  try {
+    js = await toRunnableJs(code, language);
+  } catch (err: any) {
+    throw new CompileError(err.message);
+  }
+
+  const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+  const worker = new Worker(url);
+  const results: TestResult[] = [];
+
+  return new Promise<TestResult[]>((resolve, reject) => {
+    let timer: ReturnType<typeof setTimeout>;
+    const finish = (fn: () => void) => {
+      clearTimeout(timer);
+      worker.terminate();
+      URL.revokeObjectURL(url);
+      fn();
+    };
+    // Each test gets its own budget: the clock restarts whenever a result comes back.
+    const armTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => finish(() => {
+        const running = results.length;
+        tests.slice(running).forEach((_, i) => results.push(i === 0
+          ? { index: running, passed: false, timedOut: true, error: `Timed out after ${timeoutMs} ms`, durationMs: timeoutMs, logs: [] }
+          : { index: running + i, passed: false, error: 'Not run: an earlier test timed out', durationMs: 0, logs: [] }));
+        resolve(results);
+      }), timeoutMs);
+    };
+
+    worker.onmessage = (event) => {
+      const message = event.data;
+      if (message.type === 'compile-error') finish(() => reject(new CompileError(message.error)));
+      else if (message.type === 'done') finish(() => resolve(results));
+      else {
+        results.push(message.result);
+        armTimer();
+      }
+    };
+    worker.onerror = (event) => finish(() => reject(new CompileError(event.message)));
+
+    armTimer();
+    worker.postMessage({ code: js, functionName, tests: tests.map(({ args, expected }) => ({ args, expected })) });
+  });
+}
@@ -0,0 +1,63 @@
+import { DesignComponentKind, DesignEdge, DesignGraph, DesignNode } from "../types";
+
+export const DESIGN_COMPONENT_KINDS: { kind: DesignComponentKind; label: string }[] = [
+  { kind: 'client', label: 'Client' },
+  { kind: 'load-balancer', label: 'Load Balancer' },
+  { kind: 'service', label: 'Service' },
+  { kind: 'database', label: 'Database' },
+  { kind: 'cache', label: 'Cache' },
+  { kind: 'queue', label: 'Queue' },
+  { kind: 'storage', label: 'Object Storage' },
+];
+
+export const emptyDesign = (): DesignGraph => ({ nodes: [], edges: [] });
+
+// Short, stable ids ("cache-2") read better than UUIDs when the model quotes them back.
+function nextId(prefix: string, taken: { id: string }[]): string {
+  let n = 1;
+  while (taken.some(item => item.id === `${prefix}-${n}`)) n++;
+  return `${prefix}-${n}`;
+}
+
+export function addNode(graph: DesignGraph, kind: DesignComponentKind, x: number, y: number): DesignGraph {
+  const base = DESIGN_COMPONENT_KINDS.find(k => k.kind === kind)?.label ?? kind;
+  const count = graph.nodes.filter(n => n.kind === kind).length;
+  const node: DesignNode = { id: nextId(kind, graph.nodes), kind, label: count ? `${base} ${count + 1}` : base, x, y };
+  return { ...graph, nodes: [...graph.nodes, node] };
+}
+
+export function updateNode(graph: DesignGraph, id: string, changes: Partial<Omit<DesignNode, 'id'>>): DesignGraph {
+  return { ...graph, nodes: graph.nodes.map(n => n.id === id ? { ...n, ...changes } : n) };
+}
+
+export function removeNode(graph: DesignGraph, id: string): DesignGraph {
+  return {
+    nodes: graph.nodes.filter(n => n.id !== id),
+    edges: graph.edges.filter(e => e.from !== id && e.to !== id),
+  };
+}
+
+// Duplicate edges in the same direction are ignored; the opposite direction is a separate flow.
+export function connect(graph: DesignGraph, from: string, to: string, label = ''): DesignGraph {
+  if (from === to || graph.edges.some(e => e.from === from && e.to === to)) return graph;
+  const edge: DesignEdge = { id: nextId('edge', graph.edges), from, to, label };
+  return { ...graph, edges: [...graph.edges, edge] };
+}
+
+export function updateEdge(graph: DesignGraph, id: string, label: string): DesignGraph {
+  return { ...graph, edges: graph.edges.map(e => e.id === id ? { ...e, label } : e) };
+}
+
+export function removeEdge(graph: DesignGraph, id: string): DesignGraph {
+  return { ...graph, edges: graph.edges.filter(e => e.id !== id) };
+}
+
+// The structured graph sent to the model: layout is dropped, edges name their endpoints.
+export function serializeDesign(graph: DesignGraph): string {
+  return JSON.stringify({
+    components: graph.nodes.map(({ id, kind, label }) => ({ id, kind, label })),
+    connections: graph.edges.map(({ from, to, label }) => ({ from, to, ...(label ? { label } : {}) })),
+  });
+}
+
+export const isEmptyDesign = (graph: DesignGraph | null | undefined) => !graph || graph.nodes.length === 0;
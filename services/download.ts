@@ -0,0 +1,22 @@
+export function downloadFile(filename: string, content: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// Opens the document in a new tab and hands it to the browser's print dialog,
+// where "Save as PDF" produces the PDF export.
+export function printHtml(html: string): void {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error("The print view was blocked. Allow pop-ups for this site and try again.");
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.addEventListener('load', () => win.print());
+}
@@ -1,10 +1,66 @@
+import { Type } from "@google/genai";
+import {
+  ResumeAnalysis, InterviewConfig, EvaluationResult, SessionTiming, InterviewQuestion, DeliveryMetrics,
+  CodingProblem, CodingTestCase, CodingEvaluation, CodeLanguage, TestResult, DesignGraph, DesignEvaluation, Rubric, CriterionScore,
+  ChatMessage, SessionDebrief, HiringSignal, SkillCoverage, JobDescriptionAnalysis, SkillMatch, Persona, ProbingDepth,
+  Panelist, PanelistImpression, Category, CategoryDetails, StarElement, StarPresence, ResumeProfile,
+  InterviewPlan, HintLevel,
+} from "../types";
+import { getProvider, GenerateJsonRequest, GenerateRequest, ProviderPart, StreamOptions } from "./providers";
+import { invalidResponse } from "./providers/errors";
+import { Issues, validateEvaluationResult, validateJobDescription, validateResumeAnalysis, validateSessionDebrief } from "./validation";
+import { WRAP_UP_THRESHOLD } from "./timing";
+import { isEmptyDesign, serializeDesign } from "./designGraph";
+import { computeOverallScore } from "./rubrics";
+import { describeJobDescription, jdSkills, rankGaps } from "./jobDescription";
+import { BUILT_IN_PERSONAS } from "./personas";
+import { findPanelist, panelistLabel } from "./panel";
+import { describeResumeProfile, ResumeFile } from "./resumeIngestion";
+import { INTERVIEW_PHASES, activePlanItem, phaseJustStarted } from "./interviewPlan";
+import {
+  BEHAVIORAL_COMPETENCIES, HR_GUARDRAIL_RULES, HR_TOPICS, SCENARIO_STEPS, STAR_ELEMENTS, scenarioStep,
+} from "./categoryFlows";
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ResumeAnalysis, InterviewConfig, EvaluationResult } from "../types";
+// Prompts and schemas live here; which backend runs them is decided by
+// services/providers (LLM_PROVIDER / LLM_MODEL in .env.local).
 
-// Fix: Always use new GoogleGenAI({ apiKey: process.env.API_KEY }) as per strict guidelines.
-// Using a factory function to ensure fresh instances if needed.
-const createAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+type Turn = { role: string; text: string; speakerId?: string };
+
+// What each prompt is built from. Requests carry it as `source`; the proxy sends
+// only this and server/ rebuilds the prompt with buildRequest, so the browser
+// never chooses the model's instructions or schema.
+export type PromptInput =
+  | { kind: 'analyze-job-description'; jd: { text?: string; file?: { data: string; mimeType: string } } }
+  | { kind: 'analyze-resume'; resumeText: string; targetRole: string; jobDescription?: JobDescriptionAnalysis; attachment?: ResumeFile }
+  | { kind: 'interviewer-turn'; config: InterviewConfig; history: Turn[]; role: string; resume: ResumeProfile | null; options: InterviewerTurnOptions }
+  | { kind: 'panel-coordinator'; panel: Panelist[]; history: Turn[]; role: string }
+  | { kind: 'coaching'; coaching: CoachingRequest; role: string; category: Category }
+  | { kind: 'evaluate-answer'; question: string; answer: string; role: string; rubric: Rubric; delivery?: DeliveryMetrics; panel?: Panelist[] }
+  | { kind: 'question-bank'; role: string; resume: ResumeProfile | null; config: InterviewConfig; count: number }
+  | { kind: 'coding-problem'; role: string; config: InterviewConfig; resume: ResumeProfile | null }
+  | { kind: 'evaluate-code'; problem: CodingProblem; code: string; language: CodeLanguage; results: TestResult[]; role: string }
+  | { kind: 'evaluate-design'; question: string; answer: string; design: DesignGraph; role: string }
+  // Scores by message index; the prompt only needs each answer's overall score.
+  | { kind: 'session-debrief'; messages: Turn[]; analysis: ResumeAnalysis | null; scores: Record<number, number>; role: string; config: InterviewConfig };
+
+type PromptOf<K extends PromptInput['kind']> = Extract<PromptInput, { kind: K }>;
+
+// Only what the prompts read travels, not whole ChatMessages.
+const turns = (history: Turn[]): Turn[] => history.map(({ role, text, speakerId }) => ({ role, text, speakerId }));
+
+// The provider layer has already checked the raw reply against its schema; this
+// checks what we hand the UI, after reshaping, against the shapes in types.ts.
+function checked<T>(value: T, validate: (value: unknown, path: string, issues: Issues) => void, subject: string): T {
+  const issues: Issues = [];
+  validate(value, '$', issues);
+  if (issues.length > 0) throw invalidResponse(subject, issues);
+  return value;
+}
+
+// Bounds are part of the schema so out-of-range scores are caught and re-asked
+// by the provider layer rather than clamped silently.
+const SCORE = { type: Type.INTEGER, minimum: 0, maximum: 10 };
+const PERCENT = { type: Type.INTEGER, minimum: 0, maximum: 100 };
 
 const ANALYSIS_SCHEMA = {
   type: Type.OBJECT,
@@ -14,9 +70,9 @@ const ANALYSIS_SCHEMA = {
     skillMap: {
       type: Type.OBJECT,
       properties: {
-        dsa: { type: Type.INTEGER },
-        systemDesign: { type: Type.INTEGER },
-        communication: { type: Type.INTEGER }
+        dsa: PERCENT,
+        systemDesign: PERCENT,
+        communication: PERCENT
       },
       required: ["dsa", "systemDesign", "communication"]
     }
@@ -27,7 +83,7 @@ const ANALYSIS_SCHEMA = {
 const EVALUATION_SCHEMA = {
   type: Type.OBJECT,
   properties: {
-    score: { type: Type.INTEGER },
+    score: SCORE,
     feedback: { type: Type.STRING },
     improvement_tips: { type: Type.ARRAY, items: { type: Type.STRING } },
     model_answer_outline: { type: Type.STRING }
@@ -35,67 +91,838 @@ const EVALUATION_SCHEMA = {
   required: ["score", "feedback", "improvement_tips", "model_answer_outline"]
 };
 
+const SPOKEN_EVALUATION_SCHEMA = {
+  ...EVALUATION_SCHEMA,
+  properties: {
+    ...EVALUATION_SCHEMA.properties,
+    communication_score: SCORE,
+    delivery_feedback: { type: Type.STRING }
+  },
+  required: [...EVALUATION_SCHEMA.required, "communication_score", "delivery_feedback"]
+};
+
+const QUESTION_BANK_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    questions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          type: { type: Type.STRING, enum: ["behavioral", "technical", "situational", "coding", "system-design", "culture-fit"] },
+          difficulty: { type: Type.STRING, enum: ["easy", "medium", "hard"] },
+          skills: { type: Type.ARRAY, items: { type: Type.STRING } },
+          rationale: { type: Type.STRING },
+          follow_ups: { type: Type.ARRAY, items: { type: Type.STRING } }
+        },
+        required: ["text", "type", "difficulty", "skills", "rationale", "follow_ups"]
+      }
+    }
+  },
+  required: ["questions"]
+};
+
+const TEST_CASE_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    args_json: { type: Type.STRING, description: "JSON array of the function's arguments, e.g. [[2,7,11,15], 9]" },
+    expected_json: { type: Type.STRING, description: "JSON value the function must return" },
+    explanation: { type: Type.STRING }
+  },
+  required: ["args_json", "expected_json"]
+};
+
+const CODING_PROBLEM_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    statement: { type: Type.STRING },
+    function_name: { type: Type.STRING },
+    signature: { type: Type.STRING, description: "TypeScript signature, e.g. function twoSum(nums: number[], target: number): number[]" },
+    constraints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    starter_code_javascript: { type: Type.STRING },
+    starter_code_typescript: { type: Type.STRING },
+    examples: { type: Type.ARRAY, items: TEST_CASE_SCHEMA },
+    hidden_tests: { type: Type.ARRAY, items: TEST_CASE_SCHEMA }
+  },
+  required: ["title", "statement", "function_name", "signature", "constraints", "starter_code_javascript", "starter_code_typescript", "examples", "hidden_tests"]
+};
+
+const CODING_EVALUATION_SCHEMA = {
+  ...EVALUATION_SCHEMA,
+  properties: {
+    ...EVALUATION_SCHEMA.properties,
+    correctness_score: SCORE,
+    complexity_score: SCORE,
+    style_score: SCORE,
+    time_complexity: { type: Type.STRING },
+    space_complexity: { type: Type.STRING }
+  },
+  required: [...EVALUATION_SCHEMA.required, "correctness_score", "complexity_score", "style_score", "time_complexity", "space_complexity"]
+};
+
+const DESIGN_EVALUATION_SCHEMA = {
+  ...EVALUATION_SCHEMA,
+  properties: {
+    ...EVALUATION_SCHEMA.properties,
+    scalability_score: SCORE,
+    consistency_score: SCORE,
+    tradeoffs_score: SCORE,
+    bottlenecks: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: [...EVALUATION_SCHEMA.required, "scalability_score", "consistency_score", "tradeoffs_score", "bottlenecks"]
+};
+
+const JD_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    seniority: { type: Type.STRING, enum: ["junior", "mid", "senior", "staff", "principal"] },
+    domain: { type: Type.STRING },
+    requiredSkills: { type: Type.ARRAY, items: { type: Type.STRING } },
+    niceToHaveSkills: { type: Type.ARRAY, items: { type: Type.STRING } }
+  },
+  required: ["title", "seniority", "domain", "requiredSkills", "niceToHaveSkills"]
+};
+
+function matrixAnalysisSchema(jd: JobDescriptionAnalysis) {
+  const { missingSkills, ...properties } = ANALYSIS_SCHEMA.properties;
+  return {
+    type: Type.OBJECT,
+    properties: {
+      ...properties,
+      skill_matrix: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            skill: { type: Type.STRING, enum: jdSkills(jd).map(s => s.skill) },
+            level: { type: Type.STRING, enum: ["strong", "partial", "missing"] },
+            evidence: { type: Type.STRING }
+          },
+          required: ["skill", "level", "evidence"]
+        }
+      }
+    },
+    required: ["followUpQuestions", "skillMap", "skill_matrix"]
+  };
+}
+
+function jobDescriptionPrompt({ jd }: PromptOf<'analyze-job-description'>): GenerateJsonRequest {
+  const prompt = `Extract the hiring requirements from this job description: the job title, the seniority level, the business or technical domain, the required skills and the nice-to-have skills. Keep each skill short (one to four words) and don't list the same skill twice.`;
+
+  const parts: ProviderPart[] = [{ text: prompt }];
+  if (jd.file) parts.push({ inlineData: { data: jd.file.data, mimeType: jd.file.mimeType } });
+  else if (jd.text) parts.push({ text: jd.text });
+
+  return { task: 'analyze-job-description', contents: [{ role: 'user', parts }], schema: JD_SCHEMA };
+}
+
+export async function analyzeJobDescription(jd: PromptOf<'analyze-job-description'>['jd']): Promise<JobDescriptionAnalysis> {
+  const result = await getProvider().generateJson<JobDescriptionAnalysis>(buildRequest({ kind: 'analyze-job-description', jd }));
+  return checked(result, validateJobDescription, 'job description');
+}
+
+type RawMatrixAnalysis = Omit<ResumeAnalysis, 'missingSkills' | 'skillMatrix'> & {
+  skill_matrix: { skill: string; level: SkillMatch['level']; evidence: string }[];
+};
+
+function resumeAnalysisPrompt({ resumeText, targetRole, jobDescription, attachment }: PromptOf<'analyze-resume'>): GenerateJsonRequest {
+  const prompt = jobDescription
+    ? `Analyze this resume against the job description for a ${targetRole} position: ${describeJobDescription(jobDescription)}
+For every required and nice-to-have skill, rate the resume's match as strong, partial or missing and cite the evidence (or its absence). Write 3 likely follow-up questions aimed at the biggest gaps, and score their skills (0-100) in DSA, System Design, and Communication based on their profile text/projects.`
+    : `Analyze this resume for a ${targetRole} position. Identify missing key skills, 3 likely follow-up questions based on their experience gaps, and score their skills (0-100) in DSA, System Design, and Communication based on their profile text/projects.`;
+  
+  const parts: ProviderPart[] = [{ text: prompt }];
+  // The user agreed to send this file unredacted because no text could be read from it.
+  if (attachment) parts.push({ text: 'The resume is attached as a file.' }, { inlineData: { data: attachment.data, mimeType: attachment.mimeType } });
+  else parts.push({ text: resumeText });
+  return {
+    task: 'analyze-resume',
+    contents: [{ role: 'user', parts }],
+    schema: jobDescription ? matrixAnalysisSchema(jobDescription) : ANALYSIS_SCHEMA,
+  };
+}
+
+// Takes the redacted text from ingestResume. Raw uploads only reach the model as
+// `attachment`, which ingestResume returns just when the user agreed to that.
 export async function analyzeResume(
-  resume: { text?: string; file?: { data: string; mimeType: string } },
-  targetRole: string
+  resumeText: string,
+  targetRole: string,
+  jobDescription?: JobDescriptionAnalysis,
+  attachment?: ResumeFile
 ): Promise<ResumeAnalysis> {
-  const prompt = `Analyze this resume for a ${targetRole} position. Identify missing key skills, 3 likely follow-up questions based on their experience gaps, and score their skills (0-100) in DSA, System Design, and Communication based on their profile text/projects.`;
-  
-  const parts: any[] = [{ text: prompt }];
-  if (resume.file) parts.push({ inlineData: { data: resume.file.data, mimeType: resume.file.mimeType } });
-  else if (resume.text) parts.push({ text: resume.text });
-
-  // Fix: Create instance right before call and use gemini-3-pro-preview for complex reasoning tasks
-  const ai = createAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: { parts },
-    config: { responseMimeType: "application/json", responseSchema: ANALYSIS_SCHEMA },
+  const request = buildRequest({ kind: 'analyze-resume', resumeText, targetRole, jobDescription, attachment });
+  if (!jobDescription) {
+    const result = await getProvider().generateJson<ResumeAnalysis>(request);
+    return checked(result, validateResumeAnalysis, 'resume analysis');
+  }
+
+  const raw = await getProvider().generateJson<RawMatrixAnalysis>(request);
+  // One row per JD skill; any the model skipped are treated as unproven.
+  const skillMatrix: SkillMatch[] = jdSkills(jobDescription).map(({ skill, importance }) => {
+    const row = raw.skill_matrix.find(r => r.skill === skill);
+    return { skill, importance, level: row?.level ?? 'missing', evidence: row?.evidence ?? 'Not assessed.' };
   });
+  return checked({
+    followUpQuestions: raw.followUpQuestions,
+    skillMap: raw.skillMap,
+    skillMatrix,
+    missingSkills: rankGaps(skillMatrix).map(m => m.skill),
+  }, validateResumeAnalysis, 'resume analysis');
+}
+
+function pacingInstruction(timing: SessionTiming): string {
+  const totalMinutes = Math.round(timing.totalMs / 60_000);
+  const remainingMinutes = Math.ceil(timing.remainingMs / 60_000);
+  if (timing.remainingMs <= 0) {
+    return `The ${totalMinutes}-minute session is over. Do not ask any further questions. Thank the candidate and close the interview with a brief final summary: strengths you observed, the main areas to improve, and a suggested next step.`;
+  }
+  const pacing = `This is a ${totalMinutes}-minute interview with about ${remainingMinutes} minute(s) remaining. Pace your questions so the session fits the time.`;
+  return timing.remainingMs / timing.totalMs <= WRAP_UP_THRESHOLD
+    ? `${pacing} Time is nearly up: ask at most one final question, then start wrapping up.`
+    : pacing;
+}
+
+export interface InterviewerTurnOptions {
+  timing?: SessionTiming;
+  // Opens the session with this exact question instead of one the model picks.
+  // With a plan, the question is a core topic of the plan instead.
+  seedQuestion?: InterviewQuestion;
+  // Phase and topic this turn belongs to; without one the interviewer runs free-form.
+  plan?: InterviewPlan;
+  // The candidate's whiteboard during a system-design round.
+  design?: DesignGraph;
+  // When set, questions concentrate on the largest resume-to-JD gaps.
+  jobDescription?: JobDescriptionAnalysis;
+  skillMatrix?: SkillMatch[];
+  // Defaults to the built-in persona for the config's style.
+  persona?: Persona;
+  // Panel mode: who is speaking this turn, and whose question they are following up on.
+  panelTurn?: PanelTurn;
+  // Behavioral only: competencies earlier answers already evidenced.
+  coveredCompetencies?: string[];
+}
+
+function categoryInstruction(category: Category, history: { role: string }[], covered: string[], step = scenarioStep(history)): string {
+  switch (category) {
+    case 'technical':
+      return `Start each topic from fundamentals, then push into internals, edge cases and trade-offs as the candidate shows depth.`;
+    case 'behavioral': {
+      const next = BEHAVIORAL_COMPETENCIES.filter(c => !covered.includes(c));
+      return `Run a STAR-probing behavioral interview. Open each story with a "Tell me about a time..." prompt aimed at one competency. After each answer, find which of Situation, Task, Action and Result is missing or vague and ask for exactly that, Action and Result first; push for the candidate's own actions over the team's and for measurable results. Once a story has all four, ask one reflection question, then move on to a new story.
+  Competencies to target next, in order: ${(next.length ? next : BEHAVIORAL_COMPETENCIES).join(', ')}.`;
+    }
+    case 'scenario':
+      return step === 1
+        ? `Run a multi-step scenario interview of ${SCENARIO_STEPS} steps. This is step 1: present a new realistic situation for this role (an incident, a launch under pressure or a stakeholder conflict) with enough concrete detail to act on, and ask what they would do first.`
+        : `Run a multi-step scenario interview. This is step ${step} of ${SCENARIO_STEPS} of the current scenario: introduce one new development that follows from the candidate's last decision (an escalation, a new constraint or stakeholder pushback) and ask how they adapt.${step === SCENARIO_STEPS ? ' This is the final step, so also ask how they would close it out and what they would do differently.' : ''}`;
+    case 'hr-fit':
+      return `Run an HR-fit conversation covering, one at a time: ${HR_TOPICS.join(', ')}. Keep the tone warm and conversational.
+  Guardrails: ${HR_GUARDRAIL_RULES.join(' ')}`;
+  }
+}
+
+function planInstruction(plan: InterviewPlan, messageIndex: number): string {
+  const index = INTERVIEW_PHASES.findIndex(p => p.value === plan.phase);
+  const current = activePlanItem(plan);
+  const bridge = phaseJustStarted(plan, messageIndex) ? ' The interview is moving into this phase now; bridge to it in one short sentence.' : '';
+  const topic = current
+    ? `\n  Current topic: ${current.brief}${current.answers.length ? ` Follow up on the candidate's last answer (answer ${current.answers.length + 1} of ${current.answersNeeded} on this topic).` : ''}`
+    : '';
+  return `Interview phase ${index + 1} of ${INTERVIEW_PHASES.length}: ${INTERVIEW_PHASES[index].label}. ${INTERVIEW_PHASES[index].goal}${bridge}${topic}
+  Stay on this phase and topic; the interview plan decides when to move on.`;
+}
+
+// With a plan, the category flow only shapes the question phases. Scenario steps
+// count from the start of the active topic rather than the whole transcript.
+function planCategoryInstruction(config: InterviewConfig, plan: InterviewPlan, history: { role: string }[], covered: string[]): string {
+  const current = activePlanItem(plan);
+  if (plan.phase === 'core') return categoryInstruction(config.category, history, covered, ((current?.answers.length ?? 0) % SCENARIO_STEPS) + 1);
+  if (plan.phase === 'deep-dive' && config.category !== 'scenario') return categoryInstruction(config.category, history, covered);
+  return config.category === 'hr-fit' ? `Guardrails: ${HR_GUARDRAIL_RULES.join(' ')}` : '';
+}
+
+export interface PanelTurn {
+  panel: Panelist[];
+  speaker: Panelist;
+  followUpOf?: Panelist;
+}
+
+function panelInstruction({ panel, speaker, followUpOf }: PanelTurn, opening: boolean): string {
+  const others = panel.filter(p => p.id !== speaker.id).map(panelistLabel).join(', ');
+  const turn = opening
+    ? `Greet the candidate, introduce the panel by name and title, then ask the first question.`
+    : followUpOf && followUpOf.id !== speaker.id
+      ? `Follow up on ${followUpOf.name}'s last question: dig into the candidate's answer to it from your own angle.`
+      : `Ask your next question in your area of focus, building on the conversation so far.`;
+  return `This is a panel interview. You are ${panelistLabel(speaker)}; the other panelists are ${others}.
+  Your focus: ${speaker.focus || speaker.title}.
+  Earlier panel turns are prefixed with the speaker's name in brackets. Speak only as ${speaker.name}, never write lines for the other panelists, and do not prefix your reply with your name.
+  ${turn}`;
+}
 
-  // Fix: Access text property directly (not a method)
-  return JSON.parse(response.text!) as ResumeAnalysis;
+const PROBING_INSTRUCTIONS: Record<ProbingDepth, string> = {
+  light: 'Accept a reasonable answer and move on after at most one follow-up.',
+  moderate: 'Ask one or two follow-ups on each answer before moving on.',
+  deep: 'Keep drilling into each answer with follow-ups until you find the limits of what the candidate knows.',
+};
+
+function personaInstruction(persona: Persona, opening: boolean): string {
+  const lines = [`Tone: ${persona.tone || 'professional'}.`, PROBING_INSTRUCTIONS[persona.probingDepth]];
+  if (persona.focusAreas.length) lines.push(`Concentrate on: ${persona.focusAreas.join(', ')}.`);
+  if (persona.bannedTopics.length) lines.push(`Never ask about or bring up these topics, even if the candidate does: ${persona.bannedTopics.join(', ')}.`);
+  if (persona.sampleQuestions.length) lines.push(`Questions in your style, to ask or adapt: ${persona.sampleQuestions.map(q => `"${q}"`).join(' | ')}.`);
+  if (opening && persona.openingLines.length) {
+    const line = persona.openingLines[Math.floor(Math.random() * persona.openingLines.length)];
+    lines.push(`Open the interview with exactly this line: "${line}"`);
+  }
+  return lines.join('\n  ');
+}
+
+// Only the top few gaps are named so the interview stays focused rather than a checklist.
+const FOCUS_GAPS = 3;
+
+function jobFocusInstruction(jd: JobDescriptionAnalysis, matrix: SkillMatch[]): string {
+  const gaps = rankGaps(matrix).slice(0, FOCUS_GAPS);
+  return `The candidate is interviewing for this job: ${describeJobDescription(jd)}
+  ${gaps.length
+    ? `Focus your questions on the biggest gaps between the resume and the job description, in this order: ${gaps.map(g => `${g.skill} (${g.importance}, ${g.level} match)`).join('; ')}. Probe whether the candidate can do this work even though the resume doesn't show it.`
+    : 'The resume covers every listed skill; verify depth in the required skills.'}`;
+}
+
+function designInstruction(design: DesignGraph): string {
+  if (isEmptyDesign(design)) {
+    return `This is a system-design round and the candidate's whiteboard is still empty. If you have not already, pose one system-design problem suited to the role and ask them to sketch the architecture on the whiteboard as they explain it.`;
+  }
+  return `This is a system-design round. The candidate's current architecture diagram, as JSON: ${serializeDesign(design)}
+  Refer to components by their labels. Probe specific bottlenecks, single points of failure, data consistency and the trade-offs behind the connections they drew.`;
+}
+
+function interviewerPrompt({ config, history, role, resume, options }: PromptOf<'interviewer-turn'>): GenerateRequest {
+  const { timing, seedQuestion, plan, design, jobDescription, skillMatrix, persona = BUILT_IN_PERSONAS[config.style], panelTurn, coveredCompetencies } = options;
+  const systemInstruction = `You are an elite interviewer ${persona.builtIn ? `from a ${config.style} company` : `playing the persona "${persona.name}"`}. 
+  Difficulty: ${config.difficulty}. Category: ${config.category}. 
+  Role: ${role}.
+  Candidate resume (contact details redacted):
+  ${describeResumeProfile(resume).replace(/\n/g, '\n  ')}
+  Stay in character. Ask probing questions one at a time. If it's the start, greet and ask the first question. 
+  ${personaInstruction(persona, history.length === 0)}
+  ${plan ? `${planInstruction(plan, history.length)}\n  ${planCategoryInstruction(config, plan, history, coveredCompetencies ?? [])}` : categoryInstruction(config.category, history, coveredCompetencies ?? [])}${timing ? `\n  ${pacingInstruction(timing)}` : ''}${seedQuestion && !plan && history.length === 0 ? `\n  After greeting, ask exactly this first question: "${seedQuestion.text}". Probe it with follow-ups such as: ${(seedQuestion.follow_ups ?? []).join(' | ')}.` : ''}${jobDescription ? `\n  ${jobFocusInstruction(jobDescription, skillMatrix ?? [])}` : ''}${design ? `\n  ${designInstruction(design)}` : ''}${panelTurn ? `\n  ${panelInstruction(panelTurn, history.length === 0)}` : ''}`;
+
+  // In a panel the model plays each speaker in turn, so it needs to see who said what.
+  const label = (h: { speakerId?: string }) => {
+    const speaker = panelTurn && findPanelist(panelTurn.panel, h.speakerId);
+    return speaker ? `[${speaker.name}] ` : '';
+  };
+  return {
+    task: timing && timing.remainingMs <= 0 ? 'interviewer-closing' : 'interviewer-turn',
+    // Turns that failed before producing any text carry nothing the model needs to see.
+    contents: history
+      .filter(h => h.text.trim())
+      .map(h => ({ role: h.role === 'interviewer' ? 'model' : 'user', parts: [{ text: h.role === 'interviewer' ? label(h) + h.text : h.text }] })),
+    systemInstruction,
+    temperature: 0.7,
+  };
 }
 
 export async function getNextInterviewerMessage(
   config: InterviewConfig,
-  history: { role: string; text: string }[],
+  history: Turn[],
   role: string,
-  resume: string
+  resume: ResumeProfile | null,
+  options: InterviewerTurnOptions = {}
 ): Promise<string> {
-  const systemInstruction = `You are an elite interviewer from a ${config.style} company. 
-  Difficulty: ${config.difficulty}. Category: ${config.category}. 
-  Role: ${role}. Resume Summary: ${resume.substring(0, 1000)}.
-  Stay in character. Ask probing questions one at a time. If it's the start, greet and ask the first question. 
-  Be professional and slightly ${config.style === 'faang' ? 'intense' : config.style === 'startup' ? 'dynamic' : 'methodical'}.`;
-
-  // Fix: Create instance right before call and use gemini-3-pro-preview for complex reasoning tasks
-  const ai = createAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: history.map(h => ({ role: h.role === 'interviewer' ? 'model' : 'user', parts: [{ text: h.text }] })),
-    config: { systemInstruction, temperature: 0.7 }
-  });
+  const text = await getProvider().generateText(buildRequest({ kind: 'interviewer-turn', config, history: turns(history), role, resume, options }));
+  return text || "I apologize, could you repeat that?";
+}
+
+// Same turn as getNextInterviewerMessage, delivered chunk by chunk. Aborting via
+// stream.signal rejects the promise; chunks already delivered stay with the caller.
+export async function streamNextInterviewerMessage(
+  config: InterviewConfig,
+  history: Turn[],
+  role: string,
+  resume: ResumeProfile | null,
+  options: InterviewerTurnOptions,
+  stream: StreamOptions
+): Promise<string> {
+  return getProvider().streamText(buildRequest({ kind: 'interviewer-turn', config, history: turns(history), role, resume, options }), stream);
+}
+
+// Only the recent stretch of the interview matters for deciding who speaks next.
+const COORDINATOR_WINDOW = 8;
+
+function panelCoordinatorPrompt({ panel, history, role }: PromptOf<'panel-coordinator'>): GenerateJsonRequest {
+  const transcript = history
+    .filter(m => m.text.trim())
+    .slice(-COORDINATOR_WINDOW)
+    .map(m => `${m.role === 'user' ? 'Candidate' : findPanelist(panel, m.speakerId)?.name ?? 'Interviewer'}: ${m.text}`)
+    .join('\n\n');
+  const prompt = `You coordinate a panel interview for a ${role} position. The panel:
+${panel.map(p => `- ${p.id}: ${panelistLabel(p)}, focus: ${p.focus || p.title}`).join('\n')}
+Decide which panelist speaks next. Choose a follow-up (follow_up true) when the candidate's last answer left something open that falls in a panelist's focus; that panelist then builds on the previous question, and may be a different panelist from the one who asked it. Otherwise hand over to a panelist whose focus has had little airtime, for a new question (follow_up false). Give a one-sentence reason.
 
-  // Fix: Access text property directly
-  return response.text || "I apologize, could you repeat that?";
+Recent transcript:
+${transcript}`;
+
+  return {
+    task: 'panel-coordinator',
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    schema: {
+      type: Type.OBJECT,
+      properties: {
+        speaker_id: { type: Type.STRING, enum: panel.map(p => p.id) },
+        follow_up: { type: Type.BOOLEAN },
+        reason: { type: Type.STRING }
+      },
+      required: ["speaker_id", "follow_up", "reason"]
+    },
+  };
+}
+
+export async function choosePanelSpeaker(
+  panel: Panelist[],
+  history: ChatMessage[],
+  role: string
+): Promise<{ speakerId: string; followUp: boolean }> {
+  const raw = await getProvider().generateJson<{ speaker_id: string; follow_up: boolean; reason: string }>(
+    buildRequest({ kind: 'panel-coordinator', panel, history: turns(history), role }));
+  return { speakerId: raw.speaker_id, followUp: raw.follow_up };
+}
+
+function deliveryNotes(delivery: DeliveryMetrics): string {
+  const fillers = Object.entries(delivery.fillers).map(([word, count]) => `"${word}" x${count}`).join(', ') || 'none';
+  return `The answer was spoken aloud. Delivery: ${Math.round(delivery.speakingMs / 1000)} seconds, ${delivery.wordCount} words, ${delivery.wordsPerMinute} words per minute, ${delivery.fillerCount} filler words (${fillers}).
+Roughly 120-160 words per minute is a comfortable interview pace. Rate the delivery as communication_score (0-10), weighing pace, filler words and clarity, and explain it in delivery_feedback. The transcript comes from speech recognition, so ignore minor transcription errors.`;
+}
+
+const STRING_LIST = { type: Type.ARRAY, items: { type: Type.STRING } };
+const STAR_PRESENCE = { type: Type.STRING, enum: ["clear", "vague", "missing"] };
+
+// Findings each category adds on top of the rubric scores.
+const CATEGORY_EVALUATION: Record<Category, { properties: Record<string, unknown>; note: string }> = {
+  technical: {
+    properties: { concepts_covered: STRING_LIST, misconceptions: STRING_LIST },
+    note: 'List the technical concepts the answer covered correctly as concepts_covered, and any factual errors or misconceptions as misconceptions (empty if none).',
+  },
+  behavioral: {
+    properties: {
+      star: {
+        type: Type.OBJECT,
+        properties: Object.fromEntries(STAR_ELEMENTS.map(e => [e, STAR_PRESENCE])),
+        required: STAR_ELEMENTS
+      },
+      competencies: { type: Type.ARRAY, items: { type: Type.STRING, enum: BEHAVIORAL_COMPETENCIES } }
+    },
+    note: `Rate each STAR element of the story as clear, vague or missing, and tag the competencies the story actually evidences (from: ${BEHAVIORAL_COMPETENCIES.join(', ')}).`,
+  },
+  scenario: {
+    properties: { decisions: STRING_LIST, risks_missed: STRING_LIST, adaptability_score: SCORE },
+    note: 'List the key decisions the candidate made, the risks they missed, and rate as adaptability_score (0-10) how well they adjusted to new developments in the scenario.',
+  },
+  'hr-fit': {
+    properties: { motivations: STRING_LIST, compensation_expectation: { type: Type.STRING }, concerns: STRING_LIST },
+    note: 'List the motivations the candidate expressed, their stated compensation expectation (empty string if not discussed), and any fit concerns. Never judge the candidate on age, family status, religion, national origin, health or disability.',
+  },
+};
+
+type RawCategoryFields = {
+  concepts_covered?: string[]; misconceptions?: string[];
+  star?: Record<StarElement, StarPresence>; competencies?: string[];
+  decisions?: string[]; risks_missed?: string[]; adaptability_score?: number;
+  motivations?: string[]; compensation_expectation?: string; concerns?: string[];
+};
+
+function toCategoryDetails(category: Category, raw: RawCategoryFields): CategoryDetails {
+  switch (category) {
+    case 'technical':
+      return { category, conceptsCovered: raw.concepts_covered ?? [], misconceptions: raw.misconceptions ?? [] };
+    case 'behavioral':
+      return {
+        category,
+        star: Object.fromEntries(STAR_ELEMENTS.map(e => [e, raw.star?.[e] ?? 'missing'])) as Record<StarElement, StarPresence>,
+        competencies: (raw.competencies ?? []).filter(c => BEHAVIORAL_COMPETENCIES.includes(c)),
+      };
+    case 'scenario':
+      return { category, decisions: raw.decisions ?? [], risksMissed: raw.risks_missed ?? [], adaptabilityScore: Math.max(0, Math.min(10, raw.adaptability_score ?? 0)) };
+    case 'hr-fit':
+      return { category, motivations: raw.motivations ?? [], compensationExpectation: raw.compensation_expectation?.trim() || null, concerns: raw.concerns ?? [] };
+  }
+}
+
+function rubricEvaluationSchema(rubric: Rubric, spoken: boolean, panel?: Panelist[]) {
+  const base = spoken ? SPOKEN_EVALUATION_SCHEMA : EVALUATION_SCHEMA;
+  return {
+    ...base,
+    properties: {
+      ...base.properties,
+      ...CATEGORY_EVALUATION[rubric.category].properties,
+      ...(panel ? {
+        panel_impressions: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              panelist_id: { type: Type.STRING, enum: panel.map(p => p.id) },
+              score: SCORE,
+              impression: { type: Type.STRING }
+            },
+            required: ["panelist_id", "score", "impression"]
+          }
+        }
+      } : {}),
+      criteria: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            criterion_id: { type: Type.STRING, enum: rubric.criteria.map(c => c.id) },
+            score: SCORE,
+            justification: { type: Type.STRING }
+          },
+          required: ["criterion_id", "score", "justification"]
+        }
+      }
+    },
+    required: [...base.required, "criteria", ...Object.keys(CATEGORY_EVALUATION[rubric.category].properties), ...(panel ? ["panel_impressions"] : [])]
+  };
+}
+
+type RawRubricEvaluation = Omit<EvaluationResult, 'criteria' | 'panel'> & RawCategoryFields & {
+  criteria: { criterion_id: string; score: number; justification: string }[];
+  panel_impressions?: { panelist_id: string; score: number; impression: string }[];
+};
+
+const HINT_INSTRUCTIONS: Record<HintLevel, string> = {
+  nudge: 'Give a nudge in one or two sentences: point at what to think about, without naming the technique or the answer.',
+  approach: 'Outline an approach in two to four sentences: which technique or structure fits and why, without working it through.',
+  partial: 'Give a partial answer: work through the key insight or the first half of the solution, and leave the rest for the candidate to finish.',
+};
+
+export interface CoachingRequest {
+  kind: 'hint' | 'clarification';
+  level?: HintLevel;
+  // What the candidate asked, for clarifications.
+  request?: string;
+  question: string;
+  // The candidate's unsent draft: thinking aloud the coach can react to.
+  draft?: string;
+  // Earlier coaching on the same question, oldest first, so hints build on each other.
+  earlier: { kind: 'hint' | 'clarification'; request?: string; reply: string }[];
+}
+
+function coachingPrompt({ coaching, role, category }: PromptOf<'coaching'>): GenerateRequest {
+  const { kind, level, request, question, draft, earlier } = coaching;
+  const systemInstruction = `You are a private interview coach sitting beside a candidate for a ${role} position in a ${category} interview. The interviewer cannot see anything you say.
+  ${kind === 'hint' ? HINT_INSTRUCTIONS[level ?? 'nudge'] : "Explain what the question is asking: restate it in plain words, define any terms and say what scope or depth a good answer covers. Don't hint at the answer itself."}
+  Build on your earlier coaching rather than repeating it. Speak to the candidate directly and keep it short.`;
+  const context = [
+    `Interviewer's question: ${question}`,
+    ...earlier.map(e => e.kind === 'hint' ? `Your earlier hint: ${e.reply}` : `They asked: ${e.request}\nYou explained: ${e.reply}`),
+    ...(draft?.trim() ? [`The candidate's thinking so far (not yet sent): ${draft}`] : []),
+    kind === 'clarification' ? `The candidate asks: ${request}` : 'The candidate asks for a hint.',
+  ].join('\n\n');
+
+  return {
+    task: 'coaching',
+    contents: [{ role: 'user', parts: [{ text: context }] }],
+    systemInstruction,
+    temperature: 0.4,
+  };
+}
+
+// The coaching side-channel: replies go to the candidate only and never into the transcript.
+export async function getCoachingReply(coaching: CoachingRequest, role: string, category: Category): Promise<string> {
+  const earlier = coaching.earlier.map(({ kind, request, reply }) => ({ kind, request, reply }));
+  const text = await getProvider().generateText(buildRequest({ kind: 'coaching', coaching: { ...coaching, earlier }, role, category }));
+  return text || "I couldn't come up with a hint for that one; try restating the question in your own words.";
+}
+
+function answerEvaluationPrompt({ question, answer, role, rubric, delivery, panel }: PromptOf<'evaluate-answer'>): GenerateJsonRequest {
+  const criteria = rubric.criteria.map(c => `- ${c.id} (${c.name}, weight ${c.weight}): ${c.description}`).join('\n');
+  const panelNote = panel
+    ? `\nThis was a panel interview. Give each panelist's separate impression of the answer (score 0-10 and two or three sentences), judged from their own focus:\n${panel.map(p => `- ${p.id}: ${panelistLabel(p)}, focus: ${p.focus || p.title}`).join('\n')}`
+    : '';
+  const prompt = `Question: ${question}\nUser Answer: ${answer}\nTarget Role: ${role}\nEvaluate the answer against this rubric, scoring every criterion 0-10 with a one or two sentence justification:\n${criteria}\nAlso provide an overall score (0-10), feedback, and improvement tips.\n${CATEGORY_EVALUATION[rubric.category].note}${delivery ? `\n${deliveryNotes(delivery)}` : ''}${panelNote}`;
+
+  return {
+    task: 'evaluate-answer',
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    schema: rubricEvaluationSchema(rubric, !!delivery, panel),
+  };
 }
 
 export async function evaluateAnswer(
   question: string,
   answer: string,
-  role: string
+  role: string,
+  rubric: Rubric,
+  delivery?: DeliveryMetrics,
+  panel?: Panelist[]
 ): Promise<EvaluationResult> {
-  const prompt = `Question: ${question}\nUser Answer: ${answer}\nTarget Role: ${role}\nEvaluate the answer. Provide a score (0-10), feedback, and improvement tips.`;
-  
-  // Fix: Create instance right before call and use gemini-3-pro-preview for complex reasoning tasks
-  const ai = createAI();
-  const response = await ai.models.generateContent({
-    model: "gemini-3-pro-preview",
-    contents: prompt,
-    config: { responseMimeType: "application/json", responseSchema: EVALUATION_SCHEMA },
+  const raw = await getProvider().generateJson<RawRubricEvaluation>(
+    buildRequest({ kind: 'evaluate-answer', question, answer, role, rubric, delivery, panel }));
+
+  // Criteria the model skipped or invented are dropped; the rest carry the rubric's weights.
+  const scored: CriterionScore[] = rubric.criteria.flatMap(c => {
+    const match = raw.criteria?.find(r => r.criterion_id === c.id);
+    return match ? [{
+      criterionId: c.id,
+      name: c.name,
+      weight: c.weight,
+      score: Math.max(0, Math.min(10, match.score)),
+      justification: match.justification,
+    }] : [];
+  });
+  // One impression per panelist, in seating order; panelists the model skipped are left out.
+  const impressions: PanelistImpression[] | undefined = panel?.flatMap(p => {
+    const match = raw.panel_impressions?.find(i => i.panelist_id === p.id);
+    return match ? [{ panelistId: p.id, name: p.name, score: Math.max(0, Math.min(10, match.score)), impression: match.impression }] : [];
   });
+  // Only the shared fields are copied; the raw category fields are reshaped into categoryDetails.
+  const { feedback, improvement_tips, model_answer_outline, communication_score, delivery_feedback } = raw;
+  return checked<EvaluationResult>({
+    feedback,
+    improvement_tips,
+    model_answer_outline,
+    ...(communication_score !== undefined ? { communication_score, delivery_feedback } : {}),
+    score: scored.length ? computeOverallScore(scored) : raw.score,
+    rubricId: rubric.id,
+    criteria: scored,
+    categoryDetails: toCategoryDetails(rubric.category, raw),
+    ...(impressions ? { panel: impressions } : {}),
+  }, validateEvaluationResult, 'answer evaluation');
+}
+
+function questionBankPrompt({ role, resume, config, count }: PromptOf<'question-bank'>): GenerateJsonRequest {
+  const difficultyMix = config.difficulty === 'beginner' ? 'mostly easy' : config.difficulty === 'advanced' ? 'mostly hard' : 'mostly medium';
+  const prompt = `Generate exactly ${count} interview questions for a ${role} position at a ${config.style} company, focused on the ${config.category} category with a ${difficultyMix} difficulty mix. Tailor them to this candidate's resume. For each question give its type, difficulty, the skills it probes, a one-sentence rationale for asking it, and 2 follow-up questions.\nResume (contact details redacted):\n${describeResumeProfile(resume)}`;
+
+  return { task: 'question-bank', contents: [{ role: 'user', parts: [{ text: prompt }] }], schema: QUESTION_BANK_SCHEMA };
+}
+
+export async function generateQuestionBank(
+  role: string,
+  resume: ResumeProfile | null,
+  config: InterviewConfig,
+  count: number
+): Promise<InterviewQuestion[]> {
+  const result = await getProvider().generateJson<{ questions: InterviewQuestion[] }>(buildRequest({ kind: 'question-bank', role, resume, config, count }));
+  return result.questions.slice(0, count);
+}
+
+interface RawTestCase {
+  args_json: string;
+  expected_json: string;
+  explanation?: string;
+}
+
+// Test values travel as JSON strings because response schemas can't express
+// "any JSON value". Cases that don't parse are dropped rather than failing the round.
+function parseTestCases(raw: RawTestCase[]): CodingTestCase[] {
+  return raw.flatMap(t => {
+    try {
+      const args = JSON.parse(t.args_json);
+      return [{ args: Array.isArray(args) ? args : [args], expected: JSON.parse(t.expected_json), explanation: t.explanation }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function codingProblemPrompt({ role, config, resume }: PromptOf<'coding-problem'>): GenerateJsonRequest {
+  const difficulty = config.difficulty === 'beginner' ? 'easy' : config.difficulty === 'advanced' ? 'hard' : 'medium';
+  const prompt = `Create one ${difficulty} live-coding interview problem for a ${role} candidate at a ${config.style} company, relevant to their background.
+The solution must be a single pure JavaScript/TypeScript function with JSON-serialisable arguments and return value (no I/O, no randomness).
+Provide 2-3 visible examples and 6-10 hidden tests covering edge cases. Starter code must define the function with an empty body.
+Resume (contact details redacted):
+${describeResumeProfile(resume)}`;
+  return { task: 'coding-problem', contents: [{ role: 'user', parts: [{ text: prompt }] }], schema: CODING_PROBLEM_SCHEMA };
+}
+
+export async function generateCodingProblem(
+  role: string,
+  config: InterviewConfig,
+  resume: ResumeProfile | null
+): Promise<CodingProblem> {
+  const raw = await getProvider().generateJson<{
+    title: string;
+    statement: string;
+    function_name: string;
+    signature: string;
+    constraints: string[];
+    starter_code_javascript: string;
+    starter_code_typescript: string;
+    examples: RawTestCase[];
+    hidden_tests: RawTestCase[];
+  }>(buildRequest({ kind: 'coding-problem', role, config, resume }));
+
+  const hiddenTests = parseTestCases(raw.hidden_tests);
+  if (hiddenTests.length === 0) throw invalidResponse('coding problem', ['no hidden test case has valid args_json and expected_json'], JSON.stringify(raw));
+  return {
+    title: raw.title,
+    statement: raw.statement,
+    functionName: raw.function_name,
+    signature: raw.signature,
+    constraints: raw.constraints,
+    starterCode: { javascript: raw.starter_code_javascript, typescript: raw.starter_code_typescript },
+    examples: parseTestCases(raw.examples),
+    hiddenTests,
+  };
+}
+
+function codeEvaluationPrompt({ problem, code, language, results, role }: PromptOf<'evaluate-code'>): GenerateJsonRequest {
+  const passed = results.filter(r => r.passed).length;
+  const failures = results.filter(r => !r.passed).slice(0, 5).map(r => {
+    const test = problem.hiddenTests[r.index];
+    return `- args ${JSON.stringify(test?.args)}: expected ${JSON.stringify(test?.expected)}, ${r.error ? `error "${r.error}"` : `got ${JSON.stringify(r.actual)}`}`;
+  }).join('\n');
+  const prompt = `Evaluate this live-coding submission for a ${role} candidate.
+Problem: ${problem.title}\n${problem.statement}\nSignature: ${problem.signature}
+Language: ${language}
+Code:\n${code}
+Tests passed: ${passed}/${results.length}${failures ? `\nFailing tests:\n${failures}` : ''}
+Score correctness (0-10, anchored to the test results), complexity (0-10, how close to the optimal time/space complexity) and style (0-10, readability, naming, idiomatic ${language}). State the time and space complexity of the submitted code. The overall score (0-10) should weigh correctness most heavily. Give feedback, improvement tips and an outline of an optimal solution as model_answer_outline.`;
+
+  return { task: 'evaluate-code', contents: [{ role: 'user', parts: [{ text: prompt }] }], schema: CODING_EVALUATION_SCHEMA };
+}
+
+export async function evaluateCodingSubmission(
+  problem: CodingProblem,
+  code: string,
+  language: CodeLanguage,
+  results: TestResult[],
+  role: string
+): Promise<CodingEvaluation> {
+  const result = await getProvider().generateJson<CodingEvaluation>(buildRequest({ kind: 'evaluate-code', problem, code, language, results, role }));
+  return checked(result, validateEvaluationResult, 'code evaluation');
+}
+
+function designEvaluationPrompt({ question, answer, design, role }: PromptOf<'evaluate-design'>): GenerateJsonRequest {
+  const prompt = `Evaluate this system-design answer for a ${role} candidate.
+Question: ${question}
+Candidate's explanation: ${answer}
+Architecture diagram (JSON): ${serializeDesign(design)}
+Score scalability (0-10, how the design handles growth in traffic and data), consistency (0-10, whether data guarantees are stated and achieved) and trade-offs (0-10, whether alternatives and their costs are discussed). List the most significant bottlenecks or single points of failure in the diagram. Give an overall score (0-10), feedback, improvement tips and an outline of a strong design as model_answer_outline.`;
+
+  return { task: 'evaluate-design', contents: [{ role: 'user', parts: [{ text: prompt }] }], schema: DESIGN_EVALUATION_SCHEMA };
+}
+
+export async function evaluateDesignAnswer(
+  question: string,
+  answer: string,
+  design: DesignGraph,
+  role: string
+): Promise<DesignEvaluation> {
+  const result = await getProvider().generateJson<DesignEvaluation>(buildRequest({ kind: 'evaluate-design', question, answer, design, role }));
+  return checked(result, validateEvaluationResult, 'design evaluation');
+}
+
+function debriefSchema(analysis: ResumeAnalysis | null) {
+  // Enums pin the model to the exact resume strings so coverage lines up with the analysis.
+  const skill = analysis?.missingSkills.length ? { type: Type.STRING, enum: analysis.missingSkills } : { type: Type.STRING };
+  const followUp = analysis?.followUpQuestions.length ? { type: Type.STRING, enum: analysis.followUpQuestions } : { type: Type.STRING };
+  return {
+    type: Type.OBJECT,
+    properties: {
+      signal: { type: Type.STRING, enum: ["strong-hire", "hire", "no-hire", "strong-no-hire"] },
+      summary: { type: Type.STRING },
+      strengths: { type: Type.ARRAY, items: { type: Type.STRING } },
+      red_flags: { type: Type.ARRAY, items: { type: Type.STRING } },
+      skill_coverage: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            skill,
+            covered: { type: Type.BOOLEAN },
+            evidence: { type: Type.STRING }
+          },
+          required: ["skill", "covered", "evidence"]
+        }
+      },
+      unprobed_follow_ups: { type: Type.ARRAY, items: followUp }
+    },
+    required: ["signal", "summary", "strengths", "red_flags", "skill_coverage", "unprobed_follow_ups"]
+  };
+}
+
+interface RawDebrief {
+  signal: HiringSignal;
+  summary: string;
+  strengths: string[];
+  red_flags: string[];
+  skill_coverage: SkillCoverage[];
+  unprobed_follow_ups: string[];
+}
+
+function debriefPrompt({ messages, analysis, scores, role, config }: PromptOf<'session-debrief'>): GenerateJsonRequest {
+  const transcript = messages
+    .flatMap((m, i) => m.text.trim()
+      ? [`${m.role === 'user' ? 'Candidate' : findPanelist(config.panel ?? [], m.speakerId)?.name ?? 'Interviewer'}: ${m.text}${scores[i] !== undefined ? ` [scored ${scores[i]}/10]` : ''}`]
+      : [])
+    .join('\n\n');
+  const prompt = `You are writing the hiring debrief for a ${config.difficulty} ${config.category} interview for a ${role} position.
+Read the whole transcript and give a hiring signal (strong-hire, hire, no-hire, strong-no-hire), a short summary, the candidate's strengths and any red flags, each grounded in what was actually said.
+${analysis ? `The resume review flagged these missing skills: ${analysis.missingSkills.join('; ')}. For each one, say whether the interview covered it and quote or paraphrase the evidence.
+It also suggested these follow-up questions: ${analysis.followUpQuestions.join(' | ')}. List the ones the interviewer never probed.` : 'No resume analysis is available; leave skill_coverage and unprobed_follow_ups empty.'}
+
+Transcript:
+${transcript}`;
+
+  return { task: 'session-debrief', contents: [{ role: 'user', parts: [{ text: prompt }] }], schema: debriefSchema(analysis) };
+}
+
+export async function generateSessionDebrief(
+  messages: ChatMessage[],
+  analysis: ResumeAnalysis | null,
+  evaluationHistory: Record<number, EvaluationResult>,
+  role: string,
+  config: InterviewConfig
+): Promise<SessionDebrief> {
+  const scores = Object.fromEntries(Object.entries(evaluationHistory).map(([i, e]) => [i, e.score]));
+  const raw = await getProvider().generateJson<RawDebrief>(
+    buildRequest({ kind: 'session-debrief', messages: turns(messages), analysis, scores, role, config }));
+
+  // Every flagged skill gets exactly one row, even if the model skipped or repeated it.
+  const skillCoverage = (analysis?.missingSkills ?? []).map(skill =>
+    raw.skill_coverage.find(c => c.skill === skill) ?? { skill, covered: false, evidence: 'Not discussed.' });
+  return checked<SessionDebrief>({
+    signal: raw.signal,
+    summary: raw.summary,
+    strengths: raw.strengths,
+    redFlags: raw.red_flags,
+    skillCoverage,
+    unprobedFollowUps: (analysis?.followUpQuestions ?? []).filter(q => raw.unprobed_follow_ups.includes(q)),
+    generatedAt: Date.now(),
+    messageCount: messages.length,
+  }, validateSessionDebrief, 'session debrief');
+}
+
+type TextPromptKind = 'interviewer-turn' | 'coaching';
+
+function promptRequest(input: PromptInput): GenerateRequest | GenerateJsonRequest {
+  switch (input.kind) {
+    case 'analyze-job-description': return jobDescriptionPrompt(input);
+    case 'analyze-resume': return resumeAnalysisPrompt(input);
+    case 'interviewer-turn': return interviewerPrompt(input);
+    case 'panel-coordinator': return panelCoordinatorPrompt(input);
+    case 'coaching': return coachingPrompt(input);
+    case 'evaluate-answer': return answerEvaluationPrompt(input);
+    case 'question-bank': return questionBankPrompt(input);
+    case 'coding-problem': return codingProblemPrompt(input);
+    case 'evaluate-code': return codeEvaluationPrompt(input);
+    case 'evaluate-design': return designEvaluationPrompt(input);
+    case 'session-debrief': return debriefPrompt(input);
+  }
+}
 
-  // Fix: Access text property directly
-  return JSON.parse(response.text!) as EvaluationResult;
+// The one way requests are made, here and on the server.
+export function buildRequest(input: PromptOf<TextPromptKind>): GenerateRequest;
+export function buildRequest(input: Exclude<PromptInput, PromptOf<TextPromptKind>>): GenerateJsonRequest;
+export function buildRequest(input: PromptInput): GenerateRequest | GenerateJsonRequest;
+export function buildRequest(input: PromptInput): GenerateRequest | GenerateJsonRequest {
+  return { ...promptRequest(input), source: input };
 }
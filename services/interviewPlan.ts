@@ -0,0 +1,153 @@
+import { Category, Duration, InterviewConfig, InterviewPhase, InterviewPlan, InterviewQuestion, PlanItem, PlanItemSource, ResumeAnalysis } from "../types";
+import { BEHAVIORAL_COMPETENCIES, HR_TOPICS, SCENARIO_STEPS } from "./categoryFlows";
+
+export const INTERVIEW_PHASES: { value: InterviewPhase; label: string; goal: string }[] = [
+  { value: 'intro', label: 'Intro', goal: 'Greet the candidate, introduce yourself and the format, and have them walk you through their background.' },
+  { value: 'core', label: 'Core', goal: 'Work through the core questions for this role, one topic at a time.' },
+  { value: 'deep-dive', label: 'Deep Dive', goal: "Dig into specific points from the resume review: ask for details, trade-offs and what the candidate did personally." },
+  { value: 'candidate-questions', label: 'Their Questions', goal: "Invite the candidate's questions about the role, team and company, and answer them briefly and in character." },
+  { value: 'close', label: 'Close', goal: 'Thank the candidate, sum up the conversation in a sentence or two and explain the next steps. Ask no further questions.' },
+];
+
+const PHASE_ORDER = INTERVIEW_PHASES.map(p => p.value);
+
+// Core and deep-dive topics per session length; longer sessions cover more ground.
+const PLAN_SIZE: Record<Duration, { core: number; deepDive: number }> = {
+  '15m': { core: 2, deepDive: 1 },
+  '30m': { core: 3, deepDive: 2 },
+  '60m': { core: 5, deepDive: 3 },
+};
+
+// Each core topic gets its question plus a follow-up; a scenario runs its full course.
+const CORE_ANSWERS: Record<Category, number> = {
+  'technical': 2,
+  'behavioral': 2,
+  'scenario': SCENARIO_STEPS,
+  'hr-fit': 1,
+};
+
+// Used when the resume review found fewer gaps than the plan has room for.
+const FALLBACK_TOPICS: Record<Category, string[]> = {
+  'technical': ['fundamentals of their main stack', 'a recent technical trade-off', 'debugging a production issue', 'testing and code quality', 'performance'],
+  'behavioral': BEHAVIORAL_COMPETENCIES,
+  'scenario': ['a realistic day-to-day situation for the role', 'an incident under time pressure', 'a conflicting-priorities situation'],
+  'hr-fit': HR_TOPICS,
+};
+
+function coreBrief(category: Category, topic: string, source: PlanItemSource): string {
+  switch (category) {
+    case 'technical':
+      return source === 'missing-skill'
+        ? `Assess ${topic}, which the resume doesn't show: start from fundamentals, then follow up on internals or edge cases.`
+        : `Ask about ${topic}, then follow up on the reasoning behind the answer.`;
+    case 'behavioral':
+      return source === 'missing-skill'
+        ? `Ask for a story where the candidate needed ${topic}, and probe whichever STAR element is missing.`
+        : `Ask for a story showing ${topic.replace(/-/g, ' ')}, and probe whichever STAR element is missing.`;
+    case 'scenario':
+      return source === 'missing-skill'
+        ? `Run one evolving scenario that hinges on ${topic}.`
+        : `Run one evolving scenario built around ${topic}.`;
+    case 'hr-fit':
+      return `Discuss ${topic}.`;
+  }
+}
+
+function item(phase: InterviewPhase, index: number, topic: string, brief: string, source: PlanItemSource, answersNeeded: number): PlanItem {
+  return { id: `${phase}-${index + 1}`, phase, topic, brief, source, answersNeeded, answers: [], status: 'pending' };
+}
+
+// Lays out the whole session before it starts: gaps from the resume review become
+// core topics and its follow-up questions become the deep dive.
+export function buildInterviewPlan(config: InterviewConfig, analysis: ResumeAnalysis | null, seedQuestion?: InterviewQuestion): InterviewPlan {
+  const size = PLAN_SIZE[config.duration];
+  // HR-fit topics are fixed; gaps in technical skills aren't what that interview is for.
+  const gaps = config.category === 'hr-fit' ? [] : analysis?.missingSkills ?? [];
+  const coreTopics: { topic: string; source: PlanItemSource }[] = [
+    ...gaps.map(topic => ({ topic, source: 'missing-skill' as const })),
+    ...FALLBACK_TOPICS[config.category].map(topic => ({ topic, source: 'category' as const })),
+  ].slice(0, seedQuestion ? size.core - 1 : size.core);
+
+  const core = coreTopics.map(({ topic, source }) => ({ topic, brief: coreBrief(config.category, topic, source), source }));
+  if (seedQuestion) {
+    const followUps = seedQuestion.follow_ups?.length ? ` Probe it with follow-ups such as: ${seedQuestion.follow_ups.join(' | ')}.` : '';
+    core.unshift({ topic: seedQuestion.skills[0] ?? 'pinned question', brief: `Ask exactly this question: "${seedQuestion.text}".${followUps}`, source: 'pinned' });
+  }
+  const deepDive = (analysis?.followUpQuestions ?? []).slice(0, size.deepDive);
+
+  return {
+    items: [
+      item('intro', 0, 'background', 'Ask the candidate to walk you through their background and what they work on now.', 'standard', 1),
+      ...core.map((c, i) => item('core', i, c.topic, c.brief, c.source, CORE_ANSWERS[config.category])),
+      ...deepDive.map((q, i) => item('deep-dive', i, q, `Ask: "${q}", then push for specifics.`, 'follow-up', 2)),
+      item('candidate-questions', 0, "candidate's questions", 'Ask whether they have any questions for you and answer them.', 'standard', 1),
+    ],
+    phase: 'intro',
+    activeItemId: 'intro-1',
+    transitions: [],
+  };
+}
+
+export function phaseItems(plan: InterviewPlan, phase: InterviewPhase): PlanItem[] {
+  return plan.items.filter(i => i.phase === phase);
+}
+
+export function activePlanItem(plan: InterviewPlan): PlanItem | undefined {
+  return plan.items.find(i => i.id === plan.activeItemId);
+}
+
+export function phaseLabel(phase: InterviewPhase): string {
+  return INTERVIEW_PHASES.find(p => p.value === phase)?.label ?? phase;
+}
+
+function enterPhase(plan: InterviewPlan, phase: InterviewPhase, reason: 'completed' | 'skipped' | 'revisited', messageIndex: number, at: number): InterviewPlan {
+  // Topics skipped earlier are back on the table once their phase is entered again.
+  const items = plan.items.map(i => i.phase === phase && i.status === 'skipped' ? { ...i, status: 'pending' as const } : i);
+  const inPhase = items.filter(i => i.phase === phase);
+  const first = inPhase.find(i => i.status === 'pending') ?? inPhase[0];
+  return {
+    items,
+    phase,
+    activeItemId: first?.id ?? null,
+    transitions: [...plan.transitions, { from: plan.phase, to: phase, reason, messageIndex, at }],
+  };
+}
+
+// Credits an answer to the active topic. Once the topic has had its answers the plan
+// moves to the next topic in the phase, then to the earliest phase with topics left.
+export function recordPlanAnswer(plan: InterviewPlan, answerIndex: number, at: number = Date.now()): InterviewPlan {
+  const current = activePlanItem(plan);
+  if (!current || current.answers.includes(answerIndex)) return plan;
+
+  const answers = [...current.answers, answerIndex];
+  // A revisited topic was covered already; one more answer is all it gets.
+  const done = current.status === 'covered' || answers.length >= current.answersNeeded;
+  const updated: PlanItem = { ...current, answers, status: done ? 'covered' : current.status };
+  const items = plan.items.map(i => i.id === current.id ? updated : i);
+  if (!done) return { ...plan, items };
+
+  const inPhase = items.filter(i => i.phase === plan.phase);
+  const next = inPhase[inPhase.findIndex(i => i.id === current.id) + 1];
+  if (next) return { ...plan, items, activeItemId: next.id };
+
+  const nextPhase = PHASE_ORDER.find(p => items.some(i => i.phase === p && i.status === 'pending')) ?? 'close';
+  return enterPhase({ ...plan, items }, nextPhase, 'completed', answerIndex + 1, at);
+}
+
+// Jumps to any phase. Going forward marks the pending topics passed over as skipped;
+// going back revisits the phase, starting from whatever it left uncovered.
+export function moveToPhase(plan: InterviewPlan, phase: InterviewPhase, messageIndex: number, at: number = Date.now()): InterviewPlan {
+  if (phase === plan.phase) return plan;
+  const from = PHASE_ORDER.indexOf(plan.phase);
+  const to = PHASE_ORDER.indexOf(phase);
+  if (to < from) return enterPhase(plan, phase, 'revisited', messageIndex, at);
+
+  const passed = PHASE_ORDER.slice(from, to);
+  const items = plan.items.map(i => passed.includes(i.phase) && i.status === 'pending' ? { ...i, status: 'skipped' as const } : i);
+  return enterPhase({ ...plan, items }, phase, 'skipped', messageIndex, at);
+}
+
+// True when the turn about to be generated opens the current phase.
+export function phaseJustStarted(plan: InterviewPlan, messageIndex: number): boolean {
+  return plan.transitions[plan.transitions.length - 1]?.messageIndex === messageIndex;
+}
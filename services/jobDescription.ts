@@ -0,0 +1,23 @@
+import { JobDescriptionAnalysis, SkillImportance, SkillMatch, SkillMatchLevel } from "../types";
+
+const IMPORTANCE_WEIGHT: Record<SkillImportance, number> = { 'required': 2, 'nice-to-have': 1 };
+const GAP_SIZE: Record<SkillMatchLevel, number> = { 'missing': 2, 'partial': 1, 'strong': 0 };
+
+export const gapScore = (match: SkillMatch) => IMPORTANCE_WEIGHT[match.importance] * GAP_SIZE[match.level];
+
+// Biggest gaps first: a missing required skill outranks a partial one, which ties
+// with a missing nice-to-have. Strong matches are not gaps and are left out.
+export function rankGaps(matrix: SkillMatch[]): SkillMatch[] {
+  return matrix
+    .filter(m => gapScore(m) > 0)
+    .sort((a, b) => gapScore(b) - gapScore(a));
+}
+
+export const jdSkills = (jd: JobDescriptionAnalysis): { skill: string; importance: SkillImportance }[] => [
+  ...jd.requiredSkills.map(skill => ({ skill, importance: 'required' as const })),
+  ...jd.niceToHaveSkills.map(skill => ({ skill, importance: 'nice-to-have' as const })),
+];
+
+export function describeJobDescription(jd: JobDescriptionAnalysis): string {
+  return `${jd.title} (${jd.seniority}, ${jd.domain}). Required: ${jd.requiredSkills.join(', ') || 'none listed'}. Nice to have: ${jd.niceToHaveSkills.join(', ') || 'none listed'}.`;
+}
@@ -0,0 +1,50 @@
+import { ChatMessage, Panelist } from "../types";
+
+export const MIN_PANELISTS = 2;
+export const MAX_PANELISTS = 4;
+// No panelist takes more than this many interviewer turns in a row, whatever the coordinator says.
+export const MAX_CONSECUTIVE_TURNS = 2;
+
+export const DEFAULT_PANEL: Panelist[] = [
+  { id: 'hiring-manager', name: 'Priya', title: 'Hiring Manager', personaId: 'startup', focus: 'Ownership, impact and how the candidate works with a team' },
+  { id: 'senior-engineer', name: 'Marcus', title: 'Senior Engineer', personaId: 'faang', focus: 'Technical depth, design decisions and trade-offs' },
+  { id: 'hr', name: 'Dana', title: 'HR Partner', personaId: 'service-based', focus: 'Motivation, values and communication' },
+];
+
+export function createPanelist(panel: Panelist[]): Panelist {
+  return { id: crypto.randomUUID(), name: `Panelist ${panel.length + 1}`, title: 'Interviewer', personaId: 'faang', focus: '' };
+}
+
+export function findPanelist(panel: Panelist[], id: string | undefined): Panelist | undefined {
+  return panel.find(p => p.id === id);
+}
+
+export const panelistLabel = (p: Panelist) => `${p.name} (${p.title})`;
+
+// Speakers of the interviewer turns in order; turns from before panel mode was on have none.
+const speakerHistory = (messages: ChatMessage[]) =>
+  messages.flatMap(m => m.role === 'interviewer' && m.speakerId ? [m.speakerId] : []);
+
+export function lastSpeaker(panel: Panelist[], messages: ChatMessage[]): Panelist | undefined {
+  const speakers = speakerHistory(messages);
+  return findPanelist(panel, speakers[speakers.length - 1]);
+}
+
+// Used when the coordinator is unavailable: hand over to the next panelist in seating order.
+export function rotateSpeaker(panel: Panelist[], messages: ChatMessage[]): Panelist {
+  const last = lastSpeaker(panel, messages);
+  return last ? panel[(panel.indexOf(last) + 1) % panel.length] : panel[0];
+}
+
+// Overrides a pick that would let one panelist dominate, handing the turn to
+// whoever has spoken least (earliest in seating order on a tie).
+export function enforceTurnLimits(panel: Panelist[], messages: ChatMessage[], proposed: Panelist): Panelist {
+  const speakers = speakerHistory(messages);
+  let run = 0;
+  for (let i = speakers.length - 1; i >= 0 && speakers[i] === proposed.id; i--) run++;
+  if (run < MAX_CONSECUTIVE_TURNS) return proposed;
+  const turns = (p: Panelist) => speakers.filter(id => id === p.id).length;
+  return panel
+    .filter(p => p.id !== proposed.id)
+    .reduce((least, p) => turns(p) < turns(least) ? p : least);
+}
@@ -0,0 +1,478 @@
+// Dependency-free PDF text extraction, enough for résumés: walks the page tree,
+// inflates FlateDecode streams (including object streams) and reads the
+// text-showing operators, decoding glyph codes through each font's ToUnicode
+// CMap or /Differences encoding. Scanned PDFs have no text layer and yield ''.
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly num: number) {}
+}
+
+type PdfDict = Map<string, PdfObject>;
+type PdfObject = number | boolean | null | Uint8Array | PdfName | PdfRef | PdfDict | PdfObject[];
+
+type Token =
+  | { type: 'num'; value: number }
+  | { type: 'str'; value: Uint8Array }
+  | { type: 'name'; value: string }
+  | { type: 'word'; value: string }
+  | { type: 'punct'; value: '[' | ']' | '<<' | '>>' | '{' | '}' };
+
+const isSpace = (c: number) => c === 0 || c === 9 || c === 10 || c === 12 || c === 13 || c === 32;
+const isDelimiter = (c: number) => '()<>[]{}/%'.includes(String.fromCharCode(c));
+const latin1 = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('');
+
+class Lexer {
+  constructor(readonly bytes: Uint8Array, public pos = 0) {}
+
+  skipSpace(): void {
+    while (this.pos < this.bytes.length) {
+      const c = this.bytes[this.pos];
+      if (isSpace(c)) this.pos++;
+      else if (c === 0x25) while (this.pos < this.bytes.length && this.bytes[this.pos] !== 10 && this.bytes[this.pos] !== 13) this.pos++;
+      else break;
+    }
+  }
+
+  next(): Token | undefined {
+    this.skipSpace();
+    const { bytes } = this;
+    if (this.pos >= bytes.length) return undefined;
+    const c = bytes[this.pos];
+    const ch = String.fromCharCode(c);
+    if (ch === '(') return { type: 'str', value: this.literalString() };
+    if (ch === '<' && bytes[this.pos + 1] === 0x3c) { this.pos += 2; return { type: 'punct', value: '<<' }; }
+    if (ch === '>' && bytes[this.pos + 1] === 0x3e) { this.pos += 2; return { type: 'punct', value: '>>' }; }
+    if (ch === '<') return { type: 'str', value: this.hexString() };
+    if ('[]{}'.includes(ch)) { this.pos++; return { type: 'punct', value: ch as '[' | ']' | '{' | '}' }; }
+    if (ch === '/') {
+      this.pos++;
+      return { type: 'name', value: this.word().replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))) };
+    }
+    const word = this.word() || (this.pos++, ch);
+    return /^[+-]?(\d+\.?\d*|\.\d+)$/.test(word) ? { type: 'num', value: Number(word) } : { type: 'word', value: word };
+  }
+
+  private word(): string {
+    const start = this.pos;
+    while (this.pos < this.bytes.length && !isSpace(this.bytes[this.pos]) && !isDelimiter(this.bytes[this.pos])) this.pos++;
+    return latin1(this.bytes.subarray(start, this.pos));
+  }
+
+  private literalString(): Uint8Array {
+    const out: number[] = [];
+    let depth = 0;
+    this.pos++;
+    while (this.pos < this.bytes.length) {
+      const c = this.bytes[this.pos++];
+      if (c === 0x28) depth++;
+      else if (c === 0x29 && depth-- === 0) break;
+      if (c !== 0x5c) {
+        out.push(c);
+        continue;
+      }
+      const e = this.bytes[this.pos++];
+      const escaped: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12 };
+      if (e in escaped) out.push(escaped[e]);
+      else if (e >= 0x30 && e <= 0x37) {
+        let octal = e - 0x30;
+        for (let i = 0; i < 2 && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x37; i++) octal = octal * 8 + this.bytes[this.pos++] - 0x30;
+        out.push(octal & 0xff);
+      } else if (e === 13) {
+        if (this.bytes[this.pos] === 10) this.pos++;
+      } else if (e !== 10) out.push(e);
+    }
+    return Uint8Array.from(out);
+  }
+
+  private hexString(): Uint8Array {
+    const end = this.bytes.indexOf(0x3e, this.pos);
+    const hex = latin1(this.bytes.subarray(this.pos + 1, end === -1 ? this.bytes.length : end)).replace(/[^0-9a-f]/gi, '');
+    this.pos = end === -1 ? this.bytes.length : end + 1;
+    const padded = hex.length % 2 ? `${hex}0` : hex;
+    return Uint8Array.from(padded.match(/../g) ?? [], h => parseInt(h, 16));
+  }
+}
+
+function parseObject(lex: Lexer, token = lex.next()): PdfObject {
+  if (!token) return null;
+  switch (token.type) {
+    case 'num': {
+      // `12 0 R` is a reference; anything else was just a number.
+      const save = lex.pos;
+      const gen = lex.next();
+      if (gen?.type === 'num') {
+        const r = lex.next();
+        if (r?.type === 'word' && r.value === 'R') return new PdfRef(token.value);
+      }
+      lex.pos = save;
+      return token.value;
+    }
+    case 'str':
+      return token.value;
+    case 'name':
+      return new PdfName(token.value);
+    case 'word':
+      return token.value === 'true' ? true : token.value === 'false' ? false : null;
+    case 'punct':
+      if (token.value === '[') {
+        const items: PdfObject[] = [];
+        for (let t = lex.next(); t && !(t.type === 'punct' && t.value === ']'); t = lex.next()) items.push(parseObject(lex, t));
+        return items;
+      }
+      if (token.value === '<<') {
+        const dict: PdfDict = new Map();
+        for (let t = lex.next(); t && !(t.type === 'punct' && t.value === '>>'); t = lex.next()) {
+          if (t.type === 'name') dict.set(t.value, parseObject(lex));
+        }
+        return dict;
+      }
+      return null;
+  }
+}
+
+interface IndirectObject {
+  value: PdfObject;
+  stream?: Uint8Array;
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  const reader = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+  const chunks: Uint8Array[] = [];
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+  } catch {
+    // Keep whatever inflated before trailing junk or a truncated stream.
+  }
+  const out = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  chunks.reduce((offset, c) => (out.set(c, offset), offset + c.length), 0);
+  return out;
+}
+
+class PdfDocument {
+  private objects = new Map<number, IndirectObject>();
+  private decoded = new Map<IndirectObject, Promise<Uint8Array>>();
+
+  constructor(private bytes: Uint8Array) {
+    const text = latin1(bytes);
+    // Later definitions (incremental updates) replace earlier ones.
+    for (const match of text.matchAll(/(\d+)\s+\d+\s+obj\b/g)) {
+      const lex = new Lexer(bytes, match.index! + match[0].length);
+      const value = parseObject(lex);
+      const object: IndirectObject = { value };
+      const afterValue = lex.pos;
+      const keyword = lex.next();
+      if (keyword?.type === 'word' && keyword.value === 'stream') {
+        let start = lex.pos;
+        if (bytes[start] === 13) start++;
+        if (bytes[start] === 10) start++;
+        const length = value instanceof Map ? value.get('Length') : undefined;
+        const end = typeof length === 'number' && text.startsWith('endstream', this.skipSpaceFrom(text, start + length))
+          ? start + length
+          : text.indexOf('endstream', start);
+        object.stream = bytes.subarray(start, end === -1 ? bytes.length : end);
+      } else {
+        lex.pos = afterValue;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  private skipSpaceFrom(text: string, pos: number): number {
+    while (pos < text.length && isSpace(text.charCodeAt(pos))) pos++;
+    return pos;
+  }
+
+  get encrypted(): boolean {
+    return /\/Encrypt\s/.test(latin1(this.bytes.subarray(Math.max(0, this.bytes.length - 4096))))
+      || Array.from(this.objects.values()).some(o => o.value instanceof Map && o.value.has('Encrypt'));
+  }
+
+  resolve(value: PdfObject | undefined): PdfObject | undefined {
+    for (let depth = 0; value instanceof PdfRef && depth < 16; depth++) value = this.objects.get(value.num)?.value;
+    return value;
+  }
+
+  dict(value: PdfObject | undefined): PdfDict | undefined {
+    const resolved = this.resolve(value);
+    return resolved instanceof Map ? resolved : undefined;
+  }
+
+  // Only FlateDecode (or no filter) is supported; anything else is skipped as ''.
+  streamData(ref: PdfObject | undefined): Promise<Uint8Array> {
+    const object = ref instanceof PdfRef ? this.objects.get(ref.num) : undefined;
+    if (!object?.stream) return Promise.resolve(new Uint8Array());
+    if (!this.decoded.has(object)) {
+      const filter = this.resolve((object.value as PdfDict).get('Filter'));
+      const filters = (Array.isArray(filter) ? filter : filter ? [filter] : []).map(f => (this.resolve(f) as PdfName)?.name);
+      const decode = filters.every(f => f === 'FlateDecode' || f === 'Fl')
+        ? filters.reduce((data: Promise<Uint8Array>) => data.then(inflate), Promise.resolve(object.stream))
+        : Promise.resolve(new Uint8Array());
+      this.decoded.set(object, decode);
+    }
+    return this.decoded.get(object)!;
+  }
+
+  // Objects packed inside /ObjStm streams (PDF 1.5+), e.g. page and font dictionaries.
+  async loadObjectStreams(): Promise<void> {
+    for (const [num, object] of Array.from(this.objects)) {
+      const dict = object.value instanceof Map ? object.value : undefined;
+      if (!object.stream || (dict?.get('Type') as PdfName)?.name !== 'ObjStm') continue;
+      const data = await this.streamData(new PdfRef(num));
+      const header = new Lexer(data);
+      const first = Number(dict!.get('First'));
+      const count = Number(dict!.get('N'));
+      for (let i = 0; i < count; i++) {
+        const objNum = header.next();
+        const offset = header.next();
+        if (objNum?.type !== 'num' || offset?.type !== 'num') break;
+        if (!this.objects.has(objNum.value)) {
+          this.objects.set(objNum.value, { value: parseObject(new Lexer(data, first + offset.value)) });
+        }
+      }
+    }
+  }
+
+  // Pages in reading order, each with the resources it inherits from its ancestors.
+  pages(): { page: PdfDict; resources?: PdfDict }[] {
+    const catalog = Array.from(this.objects.values()).map(o => o.value)
+      .find((v): v is PdfDict => v instanceof Map && (v.get('Type') as PdfName)?.name === 'Catalog');
+    const pages: { page: PdfDict; resources?: PdfDict }[] = [];
+    const seen = new Set<PdfDict>();
+    const walk = (node: PdfDict | undefined, inherited?: PdfDict) => {
+      if (!node || seen.has(node)) return;
+      seen.add(node);
+      const resources = this.dict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) kids.forEach(kid => walk(this.dict(kid), resources));
+      else pages.push({ page: node, resources });
+    };
+    walk(this.dict(catalog?.get('Pages')));
+    if (pages.length > 0) return pages;
+    // No usable page tree: fall back to every page object in file order.
+    return Array.from(this.objects.values()).map(o => o.value)
+      .filter((v): v is PdfDict => v instanceof Map && (v.get('Type') as PdfName)?.name === 'Page')
+      .map(page => ({ page, resources: this.dict(page.get('Resources')) }));
+  }
+}
+
+// Maps glyph codes to text for one font.
+interface FontDecoder {
+  bytesPerCode: 1 | 2;
+  map: Map<number, string>;
+}
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', period: '.', comma: ',', colon: ':', semicolon: ';', hyphen: '-', endash: '–', emdash: '—',
+  quoteright: '’', quoteleft: '‘', quotedblleft: '“', quotedblright: '”', quotesingle: "'", quotedbl: '"',
+  bullet: '•', slash: '/', parenleft: '(', parenright: ')', bracketleft: '[', bracketright: ']',
+  at: '@', ampersand: '&', plus: '+', equal: '=', percent: '%', numbersign: '#', dollar: '$', asterisk: '*',
+  underscore: '_', bar: '|', question: '?', exclam: '!', less: '<', greater: '>', fi: 'fi', fl: 'fl', ff: 'ff',
+  ffi: 'ffi', ffl: 'ffl', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+};
+
+function glyphText(name: string): string | undefined {
+  if (name.length === 1) return name;
+  if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+  const uni = name.match(/^uni([0-9A-F]{4})$/);
+  return uni ? String.fromCharCode(parseInt(uni[1], 16)) : undefined;
+}
+
+const utf16 = (bytes: Uint8Array) =>
+  String.fromCharCode(...Array.from({ length: bytes.length >> 1 }, (_, i) => (bytes[2 * i] << 8) | bytes[2 * i + 1]));
+
+const codeOf = (bytes: Uint8Array) => bytes.reduce((code, b) => code * 256 + b, 0);
+
+function parseToUnicode(data: Uint8Array): FontDecoder {
+  const decoder: FontDecoder = { bytesPerCode: 1, map: new Map() };
+  const lex = new Lexer(data);
+  let mode: 'char' | 'range' | 'space' | null = null;
+  const operands: PdfObject[] = [];
+  for (let t = lex.next(); t; t = lex.next()) {
+    if (t.type === 'word') {
+      mode = t.value === 'beginbfchar' ? 'char' : t.value === 'beginbfrange' ? 'range' : t.value === 'begincodespacerange' ? 'space' : t.value.startsWith('end') ? null : mode;
+      operands.length = 0;
+      continue;
+    }
+    operands.push(parseObject(lex, t));
+    if (mode === 'space' && operands.length === 2) {
+      if ((operands[0] as Uint8Array).length === 2) decoder.bytesPerCode = 2;
+      operands.length = 0;
+    } else if (mode === 'char' && operands.length === 2) {
+      const [src, dst] = operands as Uint8Array[];
+      if (src.length === 2) decoder.bytesPerCode = 2;
+      decoder.map.set(codeOf(src), utf16(dst));
+      operands.length = 0;
+    } else if (mode === 'range' && operands.length === 3) {
+      const [lo, hi, dst] = operands as [Uint8Array, Uint8Array, Uint8Array | Uint8Array[]];
+      if (lo.length === 2) decoder.bytesPerCode = 2;
+      for (let code = codeOf(lo), i = 0; code <= codeOf(hi) && i < 65536; code++, i++) {
+        if (Array.isArray(dst)) {
+          if (dst[i]) decoder.map.set(code, utf16(dst[i]));
+        } else {
+          // The last UTF-16 unit is incremented across the range.
+          const start = utf16(dst);
+          decoder.map.set(code, start.slice(0, -1) + String.fromCharCode(start.charCodeAt(start.length - 1) + i));
+        }
+      }
+      operands.length = 0;
+    }
+  }
+  return decoder;
+}
+
+async function fontDecoder(doc: PdfDocument, font: PdfDict): Promise<FontDecoder> {
+  const toUnicode = font.get('ToUnicode');
+  if (toUnicode instanceof PdfRef) {
+    const decoder = parseToUnicode(await doc.streamData(toUnicode));
+    if (decoder.map.size > 0) return decoder;
+  }
+  const decoder: FontDecoder = { bytesPerCode: (font.get('Subtype') as PdfName)?.name === 'Type0' ? 2 : 1, map: new Map() };
+  const differences = doc.resolve(doc.dict(font.get('Encoding'))?.get('Differences'));
+  if (Array.isArray(differences)) {
+    let code = 0;
+    differences.forEach(entry => {
+      if (typeof entry === 'number') code = entry;
+      else if (entry instanceof PdfName) {
+        const text = glyphText(entry.name);
+        if (text !== undefined) decoder.map.set(code, text);
+        code++;
+      }
+    });
+  }
+  return decoder;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80-0x9F, which is where the dashes,
+// curly quotes and bullets that résumés are full of live.
+const WIN_ANSI_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+const singleByte = (code: number) =>
+  code >= 0x80 && code <= 0x9f ? WIN_ANSI_HIGH[code - 0x80] : String.fromCharCode(code);
+
+function decodeText(bytes: Uint8Array, decoder: FontDecoder | undefined): string {
+  if (!decoder) return Array.from(bytes, singleByte).join('');
+  let out = '';
+  for (let i = 0; i + decoder.bytesPerCode <= bytes.length; i += decoder.bytesPerCode) {
+    const code = decoder.bytesPerCode === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+    // Simple fonts without a mapping are close enough to Windows-1252; CID fonts without one are unreadable.
+    out += decoder.map.get(code) ?? (decoder.bytesPerCode === 1 ? singleByte(code) : '');
+  }
+  return out;
+}
+
+// TJ offsets are in thousandths of an em; a gap this wide is a word break.
+const WORD_GAP = 200;
+const MAX_FORM_DEPTH = 4;
+
+async function extractContent(doc: PdfDocument, content: Uint8Array, resources: PdfDict | undefined, depth = 0): Promise<string> {
+  const fonts = new Map<string, FontDecoder>();
+  const fontDicts = doc.dict(resources?.get('Font'));
+  for (const [name, ref] of fontDicts ?? []) {
+    const font = doc.dict(ref);
+    if (font) fonts.set(name, await fontDecoder(doc, font));
+  }
+  const xObjects = doc.dict(resources?.get('XObject'));
+
+  let out = '';
+  let font: FontDecoder | undefined;
+  let lastY: number | null = null;
+  const newline = () => {
+    if (out && !out.endsWith('\n')) out += '\n';
+  };
+  const space = () => {
+    if (out && !/\s$/.test(out)) out += ' ';
+  };
+  const show = (value: PdfObject) => {
+    if (value instanceof Uint8Array) out += decodeText(value, font);
+  };
+
+  const lex = new Lexer(content);
+  const operands: PdfObject[] = [];
+  for (let t = lex.next(); t; t = lex.next()) {
+    if (t.type !== 'word' || t.value === 'true' || t.value === 'false' || t.value === 'null') {
+      operands.push(parseObject(lex, t));
+      continue;
+    }
+    const op = t.value;
+    const nums = operands.filter((o): o is number => typeof o === 'number');
+    switch (op) {
+      case 'Tf':
+        font = fonts.get((operands[0] as PdfName)?.name);
+        break;
+      case 'Td':
+      case 'TD':
+        if (nums[1]) newline();
+        else if (nums[0] > 0) space();
+        break;
+      case 'Tm':
+        if (lastY !== null && Math.abs(nums[5] - lastY) > 1) newline();
+        else space();
+        lastY = nums[5];
+        break;
+      case 'T*':
+        newline();
+        break;
+      case 'Tj':
+        show(operands[0]);
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(operands[operands.length - 1]);
+        break;
+      case 'TJ':
+        (Array.isArray(operands[0]) ? operands[0] : []).forEach(item => typeof item === 'number' ? item < -WORD_GAP && space() : show(item));
+        break;
+      case 'ET':
+        space();
+        break;
+      case 'Do': {
+        const form = xObjects?.get((operands[0] as PdfName)?.name);
+        const formDict = doc.dict(form);
+        if (depth < MAX_FORM_DEPTH && (formDict?.get('Subtype') as PdfName)?.name === 'Form') {
+          newline();
+          out += await extractContent(doc, await doc.streamData(form), doc.dict(formDict!.get('Resources')) ?? resources, depth + 1);
+          newline();
+        }
+        break;
+      }
+      case 'ID': {
+        // Inline image data is binary; skip to its EI.
+        const end = latin1(content.subarray(lex.pos)).search(/\sEI(\s|$)/);
+        lex.pos = end === -1 ? content.length : lex.pos + end + 3;
+        break;
+      }
+    }
+    operands.length = 0;
+  }
+  return out;
+}
+
+export async function extractPdfText(bytes: Uint8Array): Promise<string> {
+  if (latin1(bytes.subarray(0, 1024)).indexOf('%PDF-') === -1) throw new Error("That file isn't a PDF.");
+  const doc = new PdfDocument(bytes);
+  if (doc.encrypted) throw new Error('That PDF is encrypted. Save an unprotected copy or paste the text instead.');
+  await doc.loadObjectStreams();
+  const pages: string[] = [];
+  for (const { page, resources } of doc.pages()) {
+    const contents = doc.resolve(page.get('Contents'));
+    const refs = Array.isArray(contents) ? contents : [page.get('Contents') ?? null];
+    const parts = await Promise.all(refs.map(ref => doc.streamData(ref)));
+    const joined = new Uint8Array(parts.reduce((n, p) => n + p.length + 1, 0));
+    parts.reduce((offset, p) => (joined.set(p, offset), joined[offset + p.length] = 10, offset + p.length + 1), 0);
+    pages.push(await extractContent(doc, joined, resources));
+  }
+  return pages.join('\n\n')
+    .replace(/[ \t ]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
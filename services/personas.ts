@@ -0,0 +1,107 @@
+import { InterviewConfig, InterviewerStyle, Persona } from "../types";
+import { Issues, ValidationError, validatePersona } from "./validation";
+
+// The three original styles, kept as personas so every interview is driven the same way.
+export const BUILT_IN_PERSONAS: Record<InterviewerStyle, Persona> = {
+  faang: {
+    id: 'faang',
+    name: 'FAANG',
+    tone: 'Professional and slightly intense; analytical and probing.',
+    probingDepth: 'deep',
+    focusAreas: ['Algorithms and complexity', 'Scalability', 'Impact at scale'],
+    bannedTopics: [],
+    openingLines: [],
+    sampleQuestions: [],
+    builtIn: true,
+  },
+  startup: {
+    id: 'startup',
+    name: 'Startup',
+    tone: 'Professional and slightly dynamic; practical and fast-moving.',
+    probingDepth: 'moderate',
+    focusAreas: ['Shipping under constraints', 'Ownership', 'Breadth across the stack'],
+    bannedTopics: [],
+    openingLines: [],
+    sampleQuestions: [],
+    builtIn: true,
+  },
+  'service-based': {
+    id: 'service-based',
+    name: 'Service Based',
+    tone: 'Professional and slightly methodical; structured and thorough.',
+    probingDepth: 'moderate',
+    focusAreas: ['Fundamentals', 'Process and quality', 'Client communication'],
+    bannedTopics: [],
+    openingLines: [],
+    sampleQuestions: [],
+    builtIn: true,
+  },
+};
+
+const STORAGE_KEY = 'interviewgen.customPersonas';
+
+export const PERSONA_FILE_FORMAT = 'interviewgen-personas';
+
+export function createPersonaId(): string {
+  return crypto.randomUUID();
+}
+
+export function emptyPersona(): Persona {
+  return {
+    id: createPersonaId(),
+    name: '',
+    tone: '',
+    probingDepth: 'moderate',
+    focusAreas: [],
+    bannedTopics: [],
+    openingLines: [],
+    sampleQuestions: [],
+  };
+}
+
+export function loadCustomPersonas(): Persona[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomPersonas(personas: Persona[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(personas));
+}
+
+// A persona since deleted (or authored in another browser) falls back to the style's built-in.
+export function resolvePersona(config: InterviewConfig, custom: Persona[]): Persona {
+  return custom.find(p => p.id === config.personaId) ?? BUILT_IN_PERSONAS[config.style];
+}
+
+export function personaById(id: string, custom: Persona[]): Persona {
+  return custom.find(p => p.id === id) ?? BUILT_IN_PERSONAS[id as InterviewerStyle] ?? BUILT_IN_PERSONAS.faang;
+}
+
+export function serializePersonas(personas: Persona[]): string {
+  return JSON.stringify({
+    format: PERSONA_FILE_FORMAT,
+    personas: personas.map(({ builtIn, ...persona }) => persona),
+  }, null, 2);
+}
+
+// Accepts an export file, a bare array of personas, or a single persona.
+export function parsePersonaFile(text: string): Persona[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new ValidationError([`file is not valid JSON (${err.message})`], 'Persona file');
+  }
+  const wrapped = data?.format === PERSONA_FILE_FORMAT;
+  const personas = wrapped ? data.personas : Array.isArray(data) ? data : [data];
+  const root = wrapped ? '$.personas' : '$';
+  const issues: Issues = [];
+  if (!Array.isArray(personas)) issues.push(`${root} must be an array`);
+  else personas.forEach((p, i) => validatePersona(p, wrapped || Array.isArray(data) ? `${root}[${i}]` : root, issues));
+  if (issues.length > 0) throw new ValidationError(issues, 'Persona file');
+  return personas.map(({ builtIn, ...persona }: Persona) => persona);
+}
@@ -0,0 +1,95 @@
+import { CardReview, Category, EvaluationResult, ReviewCard } from "../types";
+
+const STORAGE_KEY = 'interviewgen.reviewCards';
+
+// Answers scored below this become review cards.
+export const LOW_SCORE_THRESHOLD = 6;
+// Cards put in front of the candidate per Daily Drill.
+export const DRILL_SIZE = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+// SM-2 counts a review with quality below this as a lapse.
+const PASSING_QUALITY = 3;
+
+export function loadReviewCards(): ReviewCard[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveReviewCards(cards: ReviewCard[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(cards));
+}
+
+const normalize = (question: string) => question.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Queues a weak answer for practice, due the next day. A question already in the queue
+// keeps its schedule; asking it again in an interview doesn't reset the practice.
+export function addCardFromEvaluation(
+  cards: ReviewCard[],
+  source: { question: string; role: string; category: Category; evaluation: EvaluationResult; sessionId?: string },
+  now: number = Date.now()
+): ReviewCard[] {
+  const { question, role, category, evaluation, sessionId } = source;
+  if (evaluation.score >= LOW_SCORE_THRESHOLD || cards.some(c => normalize(c.question) === normalize(question))) return cards;
+  const card: ReviewCard = {
+    id: crypto.randomUUID(),
+    question,
+    role,
+    category,
+    score: evaluation.score,
+    feedback: evaluation.feedback,
+    modelAnswerOutline: evaluation.model_answer_outline,
+    improvementTips: evaluation.improvement_tips,
+    sourceSessionId: sessionId,
+    createdAt: now,
+    easeFactor: INITIAL_EASE,
+    intervalDays: 0,
+    repetitions: 0,
+    dueAt: now + DAY_MS,
+    reviews: [],
+  };
+  return [...cards, card];
+}
+
+// Maps a 0-10 score onto SM-2's 0-5 recall quality.
+export function qualityFromScore(score: number): number {
+  return Math.max(0, Math.min(5, Math.round(score / 2)));
+}
+
+// SM-2: a passing review stretches the interval (1 day, 6 days, then by the ease factor);
+// a lapse starts the card over at one day. Ease moves with quality either way.
+export function reviewCard(card: ReviewCard, evaluation: EvaluationResult, answer: string, now: number = Date.now()): ReviewCard {
+  const quality = qualityFromScore(evaluation.score);
+  const passed = quality >= PASSING_QUALITY;
+  const repetitions = passed ? card.repetitions + 1 : 0;
+  const intervalDays = !passed || repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * card.easeFactor);
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  const review: CardReview = { at: now, score: evaluation.score, quality, answer, intervalDays };
+  return {
+    ...card,
+    score: evaluation.score,
+    feedback: evaluation.feedback,
+    modelAnswerOutline: evaluation.model_answer_outline,
+    improvementTips: evaluation.improvement_tips,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    intervalDays,
+    repetitions,
+    dueAt: now + intervalDays * DAY_MS,
+    reviews: [...card.reviews, review],
+  };
+}
+
+// Most overdue first, so a backlog works through the oldest gaps before the newest.
+export function dueCards(cards: ReviewCard[], now: number = Date.now()): ReviewCard[] {
+  return cards.filter(c => c.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+}
+
+export function replaceCard(cards: ReviewCard[], card: ReviewCard): ReviewCard[] {
+  return cards.map(c => c.id === card.id ? card : c);
+}
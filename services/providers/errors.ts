@@ -0,0 +1,83 @@
+// Every failure that leaves the provider layer is a ProviderError (aborts excepted),
+// so callers can tell a rate limit from a broken response without parsing messages.
+
+export type ProviderErrorKind =
+  | 'rate-limit'
+  | 'transient'
+  | 'network'
+  | 'auth'
+  | 'bad-request'
+  | 'malformed-response'
+  | 'invalid-response';
+
+const RETRYABLE: ProviderErrorKind[] = ['rate-limit', 'transient', 'network'];
+
+export interface ProviderErrorDetails {
+  status?: number;
+  retryAfterMs?: number;
+  // The model's raw output, for responses that failed to parse or validate.
+  raw?: string;
+  issues?: string[];
+}
+
+export class ProviderError extends Error {
+  constructor(public readonly kind: ProviderErrorKind, message: string, public readonly details: ProviderErrorDetails = {}) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+
+  get retryable(): boolean {
+    return RETRYABLE.includes(this.kind);
+  }
+}
+
+const MESSAGES: Record<ProviderErrorKind, string> = {
+  'rate-limit': 'The model is rate-limiting requests. Wait a moment and retry.',
+  'transient': 'The model service had a temporary problem. Retry in a moment.',
+  'network': "Couldn't reach the model service. Check your connection and retry.",
+  'auth': 'The model service rejected the API key. Check the key in .env.local.',
+  'bad-request': 'The model service rejected the request.',
+  'malformed-response': "The model's reply wasn't valid JSON.",
+  'invalid-response': "The model's reply didn't have the expected shape.",
+};
+
+export function kindForStatus(status: number): ProviderErrorKind {
+  if (status === 429) return 'rate-limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408 || status >= 500) return 'transient';
+  return 'bad-request';
+}
+
+export function httpError(status: number, body: string, retryAfter?: string | null): ProviderError {
+  const seconds = Number(retryAfter);
+  return new ProviderError(kindForStatus(status), `${MESSAGES[kindForStatus(status)]} (HTTP ${status})`, {
+    status,
+    retryAfterMs: retryAfter && Number.isFinite(seconds) ? seconds * 1000 : undefined,
+    raw: body.slice(0, 2000),
+  });
+}
+
+// Maps SDK, fetch and unknown errors onto a ProviderError.
+export function toProviderError(err: unknown): ProviderError {
+  if (err instanceof ProviderError) return err;
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status as number : undefined;
+  if (status !== undefined) {
+    return new ProviderError(kindForStatus(status), `${MESSAGES[kindForStatus(status)]} (HTTP ${status})`, { status });
+  }
+  // fetch rejects with a TypeError when the request never got a response.
+  if (err instanceof TypeError) return new ProviderError('network', MESSAGES.network);
+  const message = err instanceof Error ? err.message : String(err);
+  if (/RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) return new ProviderError('rate-limit', MESSAGES['rate-limit']);
+  if (/UNAVAILABLE|overloaded|timed? ?out|ECONNRESET/i.test(message)) return new ProviderError('transient', MESSAGES.transient);
+  return new ProviderError('bad-request', message || MESSAGES['bad-request']);
+}
+
+export function malformedResponse(raw: string): ProviderError {
+  return new ProviderError('malformed-response', MESSAGES['malformed-response'], { raw });
+}
+
+export function invalidResponse(subject: string, issues: string[], raw?: string): ProviderError {
+  const shown = issues.slice(0, 5).map(i => `• ${i}`).join('\n');
+  const more = issues.length > 5 ? `\n• …and ${issues.length - 5} more` : '';
+  return new ProviderError('invalid-response', `${MESSAGES['invalid-response']} (${subject})\n${shown}${more}`, { issues, raw });
+}
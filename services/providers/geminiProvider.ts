@@ -0,0 +1,52 @@
+import { GoogleGenAI } from "@google/genai";
+import { parseJsonResponse } from "./jsonResponse";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, ProviderConfig, StreamOptions } from "./types";
+
+export function createGeminiProvider(config: ProviderConfig): InterviewProvider {
+  // A fresh client per call keeps key rotation in .env.local effective without a reload.
+  const createAI = () => new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    id: 'gemini',
+    model: config.model,
+
+    async generateText(request: GenerateRequest): Promise<string> {
+      const response = await createAI().models.generateContent({
+        model: config.model,
+        contents: request.contents,
+        config: { systemInstruction: request.systemInstruction, temperature: request.temperature },
+      });
+      return response.text ?? '';
+    },
+
+    async streamText(request: GenerateRequest, { signal, onChunk }: StreamOptions): Promise<string> {
+      const stream = await createAI().models.generateContentStream({
+        model: config.model,
+        contents: request.contents,
+        config: { systemInstruction: request.systemInstruction, temperature: request.temperature, abortSignal: signal },
+      });
+      let text = '';
+      for await (const chunk of stream) {
+        signal?.throwIfAborted();
+        if (!chunk.text) continue;
+        text += chunk.text;
+        onChunk(chunk.text);
+      }
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      const response = await createAI().models.generateContent({
+        model: config.model,
+        contents: request.contents,
+        config: {
+          systemInstruction: request.systemInstruction,
+          temperature: request.temperature,
+          responseMimeType: "application/json",
+          responseSchema: request.schema,
+        },
+      });
+      return parseJsonResponse<T>(response.text ?? '');
+    },
+  };
+}
@@ -0,0 +1,82 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOpenAICompatibleProvider } from "./openAICompatibleProvider";
+import { createProxyProvider } from "./proxyProvider";
+import { withResilience } from "./resilience";
+import { InterviewProvider, ProviderConfig, ProviderId } from "./types";
+
+export * from "./types";
+export { ProviderError } from "./errors";
+export type { ProviderErrorKind } from "./errors";
+
+type BackendId = Exclude<ProviderId, 'proxy'>;
+
+const DEFAULT_MODELS: Record<BackendId, string> = {
+  gemini: 'gemini-3-pro-preview',
+  openai: 'gpt-4o-mini',
+  mock: 'mock-interviewer',
+};
+
+const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline Mock',
+  proxy: 'Server',
+};
+
+function requestedBackend(): BackendId {
+  const requested = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  return requested in DEFAULT_MODELS ? (requested as BackendId) : 'gemini';
+}
+
+// The backend the server runs, read from its environment (server/ loads .env.local).
+// Never call this in the browser: the keys aren't defined there.
+export function resolveProviderConfig(): ProviderConfig {
+  const provider = requestedBackend();
+  return {
+    provider,
+    model: process.env.LLM_MODEL || DEFAULT_MODELS[provider],
+    apiKey: provider === 'gemini' ? process.env.GEMINI_API_KEY : process.env.LLM_API_KEY,
+    baseUrl: process.env.LLM_BASE_URL,
+  };
+}
+
+// What the browser talks to. Values are injected at build time by vite.config.ts;
+// only the mock runs in the page, every other backend is reached through the proxy.
+export function resolveClientProviderConfig(): ProviderConfig {
+  const provider = requestedBackend();
+  const model = process.env.LLM_MODEL || DEFAULT_MODELS[provider];
+  return provider === 'mock'
+    ? { provider, model }
+    : { provider: 'proxy', model, baseUrl: process.env.LLM_PROXY_URL };
+}
+
+export function createProvider(config: ProviderConfig): InterviewProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider(config);
+    case 'mock':
+      return createMockProvider(config);
+    case 'proxy':
+      return createProxyProvider(config);
+    default:
+      return createGeminiProvider(config);
+  }
+}
+
+let activeProvider: InterviewProvider | null = null;
+
+export function getProvider(): InterviewProvider {
+  if (!activeProvider) activeProvider = withResilience(createProvider(resolveClientProviderConfig()));
+  return activeProvider;
+}
+
+// Swaps the provider every service call goes through; the test suite installs its
+// fixture replay here. null goes back to the configured backend on the next call.
+export function setProvider(provider: InterviewProvider | null): void {
+  activeProvider = provider;
+}
+
+export function describeProvider(provider: InterviewProvider = getProvider()): string {
+  return `${PROVIDER_LABELS[provider.id]} · ${provider.model}`;
+}
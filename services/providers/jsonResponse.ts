@@ -0,0 +1,100 @@
+import { Schema, Type } from "@google/genai";
+import { malformedResponse } from "./errors";
+
+export function parseJsonResponse<T>(text: string): T {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    throw malformedResponse(text);
+  }
+}
+
+// Best-effort fixes for the ways models usually break JSON: code fences, prose
+// around the object, trailing commas and output truncated mid-structure.
+// Returns undefined when the text still doesn't parse.
+export function repairJson(text: string): unknown {
+  let candidate = text.replace(/```(?:json)?/gi, '').trim();
+  const start = candidate.search(/[{[]/);
+  if (start === -1) return undefined;
+  candidate = candidate.slice(start);
+  const end = Math.max(candidate.lastIndexOf('}'), candidate.lastIndexOf(']'));
+  const attempts = [
+    candidate.slice(0, end + 1),
+    closeTruncated(candidate),
+  ].map(c => c.replace(/,\s*([}\]])/g, '$1'));
+  for (const attempt of attempts) {
+    try {
+      return JSON.parse(attempt);
+    } catch {
+      // try the next repair
+    }
+  }
+  return undefined;
+}
+
+// Closes any string, array or object left open by a response that was cut off.
+function closeTruncated(text: string): string {
+  const stack: string[] = [];
+  let inString = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') inString = true;
+    else if (ch === '{') stack.push('}');
+    else if (ch === '[') stack.push(']');
+    else if (ch === '}' || ch === ']') stack.pop();
+  }
+  // A dangling key or comma can't be closed meaningfully; drop it.
+  const body = (inString ? text + '"' : text).replace(/,\s*("[^"]*"\s*:?\s*)?$/, '');
+  return body + stack.reverse().join('');
+}
+
+// Checks a parsed response against the schema it was requested with: types,
+// enums, required properties and numeric bounds.
+export function validateAgainstSchema(value: unknown, schema: Schema, path: string, issues: string[]): void {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) issues.push(`${path} is missing`);
+    return;
+  }
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path} must be an object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      (schema.required ?? []).forEach(key => {
+        if (record[key] === undefined) issues.push(`${path}.${key} is missing`);
+      });
+      Object.entries(schema.properties ?? {}).forEach(([key, child]) => {
+        if (record[key] !== undefined) validateAgainstSchema(record[key], child, `${path}.${key}`, issues);
+      });
+      return;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        issues.push(`${path} must be an array`);
+        return;
+      }
+      if (schema.items) value.forEach((item, i) => validateAgainstSchema(item, schema.items!, `${path}[${i}]`, issues));
+      return;
+    case Type.STRING:
+      if (typeof value !== 'string') issues.push(`${path} must be a string`);
+      else if (schema.enum && !schema.enum.includes(value)) issues.push(`${path} must be one of ${schema.enum.map(e => `'${e}'`).join(', ')}`);
+      return;
+    case Type.INTEGER:
+    case Type.NUMBER:
+      if (typeof value !== 'number' || Number.isNaN(value)) {
+        issues.push(`${path} must be a number`);
+        return;
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) issues.push(`${path} must be at least ${schema.minimum} (got ${value})`);
+      if (schema.maximum !== undefined && value > schema.maximum) issues.push(`${path} must be at most ${schema.maximum} (got ${value})`);
+      return;
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') issues.push(`${path} must be a boolean`);
+      return;
+  }
+}
@@ -0,0 +1,504 @@
+import { Schema, Type } from "@google/genai";
+import { EvaluationResult, InterviewQuestion, ResumeAnalysis } from "../../types";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, ProviderConfig, ProviderTask, StreamOptions } from "./types";
+
+// Delay between streamed words, so the UI behaves like it does with a real model.
+const STREAM_DELAY_MS = 30;
+
+// Offline backend: no network, no key. Output is a pure function of the request
+// so the same session always replays the same way.
+
+const SKILL_POOL = [
+  'Distributed Caching', 'Observability & Tracing', 'CI/CD Pipelines', 'Accessibility (WCAG)',
+  'Performance Profiling', 'Database Indexing', 'Security Hardening', 'Load Testing',
+];
+
+const QUESTION_POOL = [
+  'Walk me through the most technically challenging project on your resume. What trade-offs did you make?',
+  'How would you design a rate limiter for a public API that serves millions of requests per day?',
+  'Tell me about a time you disagreed with a teammate on a technical decision. How did you resolve it?',
+  'How do you diagnose a page that suddenly became slow in production?',
+  'Explain how you would structure state management in a large single-page application.',
+  'What is your approach to writing tests for code that depends on external services?',
+];
+
+const STAR_PROBES = [
+  'What did you personally do there, step by step, as opposed to the team?',
+  'What was the measurable result, and how did you know?',
+];
+
+const SCENARIO_OPENERS = [
+  "It's 9am on launch day and error rates on checkout have just tripled. You're the on-call lead. What do you do first?",
+  'Two senior stakeholders want conflicting features in the same release, and the deadline cannot move. How do you start?',
+];
+
+const SCENARIO_DEVELOPMENTS = [
+  'New development: your rollback failed halfway and support is fielding angry customers. How do you adapt?',
+  'New development: the VP asks for a timeline in the next ten minutes, but you still lack a root cause. What do you tell them?',
+  'New development: a teammate finds the real cause is in a partner API you do not control. What now?',
+];
+
+const HR_QUESTIONS = [
+  'What draws you to this role in particular, and why now?',
+  'What are your compensation expectations for this position?',
+  "What's your availability, and do you have a notice period?",
+  'Describe the team environment where you do your best work.',
+  'Where would you like your career to be in three years?',
+];
+
+// Category flows leave recognisable phrases in the system instruction; follow the matching script.
+function categoryQuestion(instruction: string, turn: number): string | undefined {
+  if (instruction.includes('STAR-probing')) {
+    // Each story gets an opener and two probes before moving to the next competency.
+    const targets = instruction.match(/Competencies to target next, in order: (.*)\./)?.[1].split(', ') ?? ['ownership'];
+    const competency = targets[Math.floor(turn / 3) % targets.length];
+    return turn % 3 === 0 ? `Tell me about a time that shows your ${competency.replace(/-/g, ' ')}.` : STAR_PROBES[(turn % 3) - 1];
+  }
+  const step = Number(instruction.match(/This is step (\d+)/)?.[1]);
+  if (step) {
+    return step === 1 ? SCENARIO_OPENERS[Math.floor(turn / 4) % SCENARIO_OPENERS.length] : SCENARIO_DEVELOPMENTS[(step - 2) % SCENARIO_DEVELOPMENTS.length];
+  }
+  if (instruction.includes('HR-fit conversation')) return HR_QUESTIONS[turn % HR_QUESTIONS.length];
+  return undefined;
+}
+
+const QUESTION_BANK_POOL: InterviewQuestion[] = [
+  {
+    text: 'Implement a function that returns the k most frequent words in a stream of text.',
+    type: 'coding', difficulty: 'medium', skills: ['Hash Maps', 'Heaps'],
+    rationale: 'Checks comfort with core data structures under realistic constraints.',
+    follow_ups: ['How does your solution change if the stream does not fit in memory?', 'What is the time complexity?'],
+  },
+  {
+    text: 'Design a URL shortener that handles 10,000 writes per second.',
+    type: 'system-design', difficulty: 'hard', skills: ['Scalability', 'Databases', 'Caching'],
+    rationale: 'Probes the ability to reason about throughput, storage and key generation.',
+    follow_ups: ['How would you prevent collisions?', 'How would you expire old links?'],
+  },
+  {
+    text: 'Tell me about a time you shipped a feature under a tight deadline.',
+    type: 'behavioral', difficulty: 'easy', skills: ['Prioritisation', 'Communication'],
+    rationale: 'Reveals how the candidate balances scope, quality and time.',
+    follow_ups: ['What did you cut?', 'What would you do differently?'],
+  },
+  {
+    text: 'How does the browser event loop schedule microtasks and macrotasks?',
+    type: 'technical', difficulty: 'medium', skills: ['JavaScript', 'Runtime Internals'],
+    rationale: 'Distinguishes memorised answers from a working mental model.',
+    follow_ups: ['Where does requestAnimationFrame fit?', 'How can a microtask starve rendering?'],
+  },
+  {
+    text: 'Your production error rate doubles right after a deploy. Walk me through your next 30 minutes.',
+    type: 'situational', difficulty: 'medium', skills: ['Incident Response', 'Observability'],
+    rationale: 'Tests calm, structured debugging under pressure.',
+    follow_ups: ['When do you roll back?', 'How do you communicate with stakeholders?'],
+  },
+  {
+    text: 'What kind of engineering culture helps you do your best work?',
+    type: 'culture-fit', difficulty: 'easy', skills: ['Self-awareness', 'Collaboration'],
+    rationale: 'Helps judge alignment with team norms and working style.',
+    follow_ups: ['Describe a team where that was missing.', 'How did you adapt?'],
+  },
+  {
+    text: 'Explain how you would make a large React list render smoothly with 50,000 rows.',
+    type: 'technical', difficulty: 'hard', skills: ['React', 'Performance'],
+    rationale: 'Checks practical knowledge of rendering cost and virtualisation.',
+    follow_ups: ['How do you measure the improvement?', 'What breaks with variable row heights?'],
+  },
+  {
+    text: 'Describe a disagreement with a product manager and how it was resolved.',
+    type: 'behavioral', difficulty: 'medium', skills: ['Conflict Resolution', 'Stakeholder Management'],
+    rationale: 'Shows how the candidate influences without authority.',
+    follow_ups: ['What data did you bring?', 'Would you handle it the same way today?'],
+  },
+  {
+    text: 'Write a debounce function and explain when you would use throttle instead.',
+    type: 'coding', difficulty: 'easy', skills: ['JavaScript', 'Closures'],
+    rationale: 'A quick signal on closures, timers and API design.',
+    follow_ups: ['How would you add a leading-edge option?', 'How would you cancel a pending call?'],
+  },
+];
+
+const CODING_PROBLEM = {
+  title: 'Two Sum',
+  statement: 'Given an array of integers `nums` and an integer `target`, return the indices of the two numbers that add up to `target`, in ascending order. Each input has exactly one solution and the same element may not be used twice.',
+  function_name: 'twoSum',
+  signature: 'function twoSum(nums: number[], target: number): number[]',
+  constraints: ['2 <= nums.length <= 10^4', '-10^9 <= nums[i] <= 10^9', 'Exactly one valid answer exists'],
+  starter_code_javascript: 'function twoSum(nums, target) {\n  \n}\n',
+  starter_code_typescript: 'function twoSum(nums: number[], target: number): number[] {\n  \n}\n',
+  examples: [
+    { args_json: '[[2,7,11,15],9]', expected_json: '[0,1]', explanation: 'nums[0] + nums[1] = 9' },
+    { args_json: '[[3,2,4],6]', expected_json: '[1,2]' },
+  ],
+  hidden_tests: [
+    { args_json: '[[2,7,11,15],9]', expected_json: '[0,1]' },
+    { args_json: '[[3,2,4],6]', expected_json: '[1,2]' },
+    { args_json: '[[3,3],6]', expected_json: '[0,1]' },
+    { args_json: '[[-1,-2,-3,-4,-5],-8]', expected_json: '[2,4]' },
+    { args_json: '[[0,4,3,0],0]', expected_json: '[0,3]' },
+    { args_json: '[[1,5,9,14,20],34]', expected_json: '[3,4]' },
+  ],
+};
+
+const DESIGN_PROMPT = 'Design a URL shortener that serves 10,000 redirects per second.';
+
+const TIP_POOL = [
+  'Quantify the impact of your work with concrete metrics.',
+  'State your assumptions before diving into the solution.',
+  'Discuss at least one alternative approach and why you rejected it.',
+  'Use the STAR framework to keep behavioral answers focused.',
+  'Close with a short summary of the trade-offs you made.',
+];
+
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pickMany<T>(pool: T[], count: number, seed: number): T[] {
+  return Array.from({ length: Math.min(count, pool.length) }, (_, i) => pool[(seed + i * 3) % pool.length])
+    .filter((item, i, all) => all.indexOf(item) === i);
+}
+
+function requestText(request: GenerateRequest): string {
+  return request.contents.flatMap(m => m.parts.map(p => p.text ?? p.inlineData?.data.slice(0, 256) ?? '')).join('\n');
+}
+
+// The document sent after the instruction part (resume or job description), without the prompt itself.
+function attachedText(request: GenerateRequest): string {
+  return request.contents.flatMap(m => m.parts.slice(1).map(p => p.text ?? '')).join('\n');
+}
+
+// Replies to the coaching side-channel, escalating with the hint level the prompt asks for.
+function mockCoaching(request: GenerateRequest): string {
+  const instruction = request.systemInstruction ?? '';
+  const text = requestText(request);
+  const question = text.match(/Interviewer's question: (.*)/)?.[1] ?? 'this question';
+  if (text.includes('The candidate asks: ')) {
+    return `They're asking you to explain your reasoning on "${question}", not just give a result. Cover what you would do, why, and one trade-off; a couple of minutes is enough.`;
+  }
+  if (instruction.includes('Give a nudge')) return 'Before answering, think about which constraint matters most here and what would break first.';
+  if (instruction.includes('Outline an approach')) return 'Structure it as: the constraint, the option you would pick, one alternative you rejected and why, and how you would know it worked.';
+  return 'Start from the constraint: name it, pick the simplest option that respects it, then explain what you would measure. The trade-off discussion is yours to finish.';
+}
+
+function mockAnalysis(seed: number): ResumeAnalysis {
+  const missingSkills = pickMany(SKILL_POOL, 3, seed);
+  return {
+    missingSkills,
+    followUpQuestions: missingSkills.map(s => `Can you describe any hands-on exposure you have had with ${s.toLowerCase()}?`),
+    skillMap: {
+      dsa: 40 + (seed % 50),
+      systemDesign: 35 + ((seed >>> 8) % 55),
+      communication: 50 + ((seed >>> 16) % 45),
+    },
+  };
+}
+
+// Skills a JD is likely to name; whichever appear in the text become requirements.
+const JD_SKILL_POOL = [
+  'TypeScript', 'React', 'Node.js', 'GraphQL', 'Kubernetes', 'AWS', 'PostgreSQL', 'Kafka',
+  'Python', 'Go', 'System Design', 'CI/CD', 'Testing', 'Accessibility', 'Redis', 'Docker',
+];
+
+const mentions = (text: string, skill: string) =>
+  new RegExp(`(^|[^a-z0-9])${skill.toLowerCase().replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}($|[^a-z0-9])`).test(text);
+
+function mockJobDescription(text: string, seed: number) {
+  const lower = text.toLowerCase();
+  // Anything named after a "nice to have" / "bonus" marker is optional.
+  const optionalFrom = lower.search(/nice[- ]to[- ]have|bonus|preferred|a plus/);
+  const optionalPart = optionalFrom < 0 ? '' : lower.slice(optionalFrom);
+  const requiredPart = optionalFrom < 0 ? lower : lower.slice(0, optionalFrom);
+  let required = JD_SKILL_POOL.filter(s => mentions(requiredPart, s));
+  let niceToHave = JD_SKILL_POOL.filter(s => !required.includes(s) && mentions(optionalPart, s));
+  if (required.length + niceToHave.length < 3) {
+    const filler = pickMany(JD_SKILL_POOL.filter(s => !required.includes(s) && !niceToHave.includes(s)), 5 - required.length - niceToHave.length, seed);
+    required = [...required, ...filler.slice(0, 2)];
+    niceToHave = [...niceToHave, ...filler.slice(2)];
+  }
+  const seniority = ['principal', 'staff', 'senior', 'junior'].find(level => new RegExp(`\\b${level}\\b`).test(lower)) ?? 'mid';
+  return {
+    title: text.match(/(?:title|role|position):\s*(.+)/i)?.[1]?.trim() ?? 'Software Engineer',
+    seniority,
+    domain: lower.includes('fintech') || lower.includes('payment') ? 'Fintech' : lower.includes('health') ? 'Healthcare' : 'SaaS',
+    requiredSkills: required,
+    niceToHaveSkills: niceToHave,
+  };
+}
+
+function mockEvaluation(answer: string, seed: number): EvaluationResult {
+  const words = answer.split(/\s+/).filter(Boolean).length;
+  const score = Math.max(1, Math.min(10, Math.round(words / 15) + (seed % 3)));
+  return {
+    score,
+    feedback: score >= 7
+      ? 'A well-structured answer that addresses the core of the question with relevant detail.'
+      : 'The answer touches on the question but lacks depth and concrete examples.',
+    improvement_tips: pickMany(TIP_POOL, 3, seed),
+    model_answer_outline: 'Clarify the problem, outline the approach, walk through a concrete example, then summarise trade-offs and results.',
+  };
+}
+
+// Rubric criteria come from the schema's enum, so custom rubrics get scored too.
+function withCriteria(evaluation: EvaluationResult, schema: Schema, seed: number) {
+  const ids = schema.properties?.criteria?.items?.properties?.criterion_id?.enum;
+  if (!ids) return evaluation;
+  return {
+    ...evaluation,
+    criteria: ids.map((id, i) => ({
+      criterion_id: id,
+      score: Math.max(0, Math.min(10, evaluation.score + ((seed >>> (i * 3)) % 3) - 1)),
+      justification: `Mock justification for ${id}.`,
+    })),
+  };
+}
+
+// Panelists come from the schema's enum; each one's score leans a little off the overall.
+function withPanel<T extends { score: number }>(evaluation: T, schema: Schema, seed: number) {
+  const ids = schema.properties?.panel_impressions?.items?.properties?.panelist_id?.enum;
+  if (!ids) return evaluation;
+  return {
+    ...evaluation,
+    panel_impressions: ids.map((id, i) => ({
+      panelist_id: id,
+      score: Math.max(0, Math.min(10, evaluation.score + ((seed >>> (i * 2)) % 3) - 1)),
+      impression: `Mock impression from ${id}: ${evaluation.score >= 7 ? 'convincing within my area' : 'I wanted more detail in my area'}.`,
+    })),
+  };
+}
+
+// Category findings are filled in for whichever category fields the schema asks for.
+function withCategory<T extends { score: number }>(evaluation: T, schema: Schema, answer: string, seed: number) {
+  const props = schema.properties ?? {};
+  const lower = answer.toLowerCase();
+  if (props.concepts_covered) {
+    return { ...evaluation, concepts_covered: pickMany(['Caching', 'Indexing', 'Concurrency', 'Complexity analysis'], 2, seed), misconceptions: evaluation.score < 5 ? ['Glossed over failure handling.'] : [] };
+  }
+  if (props.star) {
+    // An element counts as present when the answer uses a word that usually signals it.
+    const signals = { situation: /\b(when|at|while|project)\b/, task: /\b(needed|goal|had to|responsible)\b/, action: /\b(i (built|led|wrote|decided|talked|changed))\b/, result: /\b(result|reduced|increased|saved|shipped|\d+%)/ };
+    const competencies: string[] = props.competencies?.items?.enum ?? [];
+    return {
+      ...evaluation,
+      star: Object.fromEntries(Object.entries(signals).map(([k, re]) => [k, re.test(lower) ? 'clear' : lower.length > 200 ? 'vague' : 'missing'])),
+      competencies: competencies.filter(c => lower.includes(c.split('-')[0])).slice(0, 2),
+    };
+  }
+  if (props.decisions) {
+    return { ...evaluation, decisions: ['Rolled back the release first.'], risks_missed: evaluation.score < 7 ? ['Did not update customers on status.'] : [], adaptability_score: Math.min(10, evaluation.score + 1) };
+  }
+  if (props.motivations) {
+    const comp = answer.match(/\$\s?\d[\d,.]*\s?k?|\b\d[\d,.]*\s?(k|lpa|usd)\b/i)?.[0];
+    return { ...evaluation, motivations: pickMany(['Growth', 'Product impact', 'Team culture'], 2, seed), compensation_expectation: comp ?? '', concerns: [] };
+  }
+  return evaluation;
+}
+
+// Fallback for tasks without a hand-written fixture: walk the schema and fill it in.
+export function synthesizeFromSchema(schema: Schema, seed: number, key = 'value'): unknown {
+  switch (schema.type) {
+    case Type.OBJECT:
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([k, v], i) => [k, synthesizeFromSchema(v, seed + i, k)])
+      );
+    case Type.ARRAY:
+      return [0, 1, 2].map(i => synthesizeFromSchema(schema.items ?? { type: Type.STRING }, seed + i, key));
+    case Type.INTEGER:
+    case Type.NUMBER: {
+      const min = schema.minimum ?? 0;
+      const max = schema.maximum ?? 10;
+      return min + (seed % (max - min + 1));
+    }
+    case Type.BOOLEAN:
+      return seed % 2 === 0;
+    default:
+      return schema.enum?.length ? schema.enum[seed % schema.enum.length] : `Mock ${key} ${seed % 100}`;
+  }
+}
+
+export function createMockProvider(config: ProviderConfig): InterviewProvider {
+  const fixture = (task: ProviderTask, request: GenerateJsonRequest, seed: number): unknown => {
+    switch (task) {
+      case 'analyze-job-description':
+        return mockJobDescription(attachedText(request), seed);
+      case 'analyze-resume': {
+        const matrixSkills = request.schema.properties?.skill_matrix?.items?.properties?.skill?.enum;
+        if (!matrixSkills) return mockAnalysis(seed);
+        const { missingSkills, ...analysis } = mockAnalysis(seed);
+        const resume = attachedText(request).toLowerCase();
+        const matrix = matrixSkills.map((skill, i) => {
+          // Skills named in the resume are strong matches; the rest are seeded partial or missing.
+          const level = mentions(resume, skill) ? 'strong' : (seed >>> i) % 2 ? 'partial' : 'missing';
+          const evidence = {
+            strong: `The resume mentions ${skill}.`,
+            partial: `Related experience, but ${skill} itself is not named in the resume.`,
+            missing: `No evidence of ${skill} in the resume.`,
+          }[level];
+          return { skill, level, evidence };
+        });
+        const gaps = matrix.filter(m => m.level !== 'strong').slice(0, 3);
+        return {
+          ...analysis,
+          followUpQuestions: gaps.length ? gaps.map(g => `The role needs ${g.skill}. Where have you used it, and at what scale?`) : analysis.followUpQuestions,
+          skill_matrix: matrix,
+        };
+      }
+      case 'question-bank': {
+        const count = Number(requestText(request).match(/exactly (\d+)/)?.[1] ?? 6);
+        const offset = seed % QUESTION_BANK_POOL.length;
+        return {
+          questions: Array.from({ length: Math.min(count, QUESTION_BANK_POOL.length) }, (_, i) => QUESTION_BANK_POOL[(offset + i) % QUESTION_BANK_POOL.length]),
+        };
+      }
+      case 'coding-problem':
+        return CODING_PROBLEM;
+      case 'evaluate-code': {
+        const [passed, total] = (requestText(request).match(/Tests passed: (\d+)\/(\d+)/) ?? ['', '0', '1']).slice(1).map(Number);
+        const correctness = Math.round((passed / Math.max(total, 1)) * 10);
+        return {
+          ...mockEvaluation('', seed),
+          score: Math.max(1, correctness - (seed % 2)),
+          correctness_score: correctness,
+          complexity_score: 5 + (seed % 5),
+          style_score: 5 + ((seed >>> 4) % 5),
+          time_complexity: 'O(n)',
+          space_complexity: 'O(n)',
+        };
+      }
+      case 'evaluate-design': {
+        const text = requestText(request);
+        const kinds = [...text.matchAll(/"kind":"([a-z-]+)"/g)].map(m => m[1]);
+        const has = (kind: string) => kinds.includes(kind);
+        const scalability = Math.min(10, 3 + (has('load-balancer') ? 2 : 0) + (has('cache') ? 2 : 0) + (has('queue') ? 2 : 0) + (seed % 2));
+        const consistency = Math.min(10, 4 + (has('database') ? 3 : 0) + (seed % 3));
+        const tradeoffs = Math.min(10, 3 + Math.round((text.match(/Candidate's explanation:([\s\S]*?)\nArchitecture diagram/)?.[1] ?? '').split(/\s+/).length / 20));
+        return {
+          ...mockEvaluation('', seed),
+          score: Math.round((scalability + consistency + tradeoffs) / 3),
+          scalability_score: scalability,
+          consistency_score: consistency,
+          tradeoffs_score: tradeoffs,
+          bottlenecks: [
+            has('database') && !has('cache') ? 'Every read goes to the primary database; add a cache or read replicas.' : '',
+            !has('load-balancer') ? 'A single service instance is a single point of failure without a load balancer.' : '',
+            !has('queue') ? 'Synchronous calls couple the services; slow downstreams will back up requests.' : '',
+          ].filter(Boolean),
+        };
+      }
+      case 'session-debrief': {
+        const text = requestText(request).toLowerCase();
+        const transcript = text.slice(text.indexOf('transcript:'));
+        const scores = [...transcript.matchAll(/\[scored ([\d.]+)\/10\]/g)].map(m => Number(m[1]));
+        const average = scores.length ? scores.reduce((a, b) => a + b, 0) / scores.length : 5;
+        const props = request.schema.properties ?? {};
+        const skills = props.skill_coverage?.items?.properties?.skill?.enum ?? [];
+        const followUps = props.unprobed_follow_ups?.items?.enum ?? [];
+        const answers = transcript.split('\n\n').filter(turn => turn.startsWith('candidate: '));
+        const candidateText = answers.join('\n');
+        // A skill counts as covered when the candidate used any of its longer words; a follow-up only when it was asked verbatim.
+        const mentioned = (skill: string) => skill.toLowerCase().split(/\W+/).filter(w => w.length > 3).some(w => candidateText.includes(w));
+        return {
+          signal: average >= 8 ? 'strong-hire' : average >= 6 ? 'hire' : average >= 4 ? 'no-hire' : 'strong-no-hire',
+          summary: `The candidate gave ${answers.length} answer(s) averaging ${average.toFixed(1)}/10.`,
+          strengths: average >= 6 ? ['Clear, structured answers.', 'Good grasp of fundamentals.'] : ['Stayed engaged throughout the interview.'],
+          red_flags: average < 6 ? ['Answers lacked depth and concrete examples.'] : [],
+          skill_coverage: skills.map(skill => ({
+            skill,
+            covered: mentioned(skill),
+            evidence: mentioned(skill) ? `${skill} came up during the interview.` : 'Not discussed.',
+          })),
+          unprobed_follow_ups: followUps.filter(q => !transcript.includes(q.toLowerCase())),
+        };
+      }
+      case 'evaluate-answer': {
+        const text = requestText(request);
+        const answer = text.match(/User Answer:([\s\S]*?)\nTarget Role:/)?.[1] ?? '';
+        const evaluation = withCategory(withPanel(withCriteria(mockEvaluation(answer, seed), request.schema, seed), request.schema, seed), request.schema, answer, seed);
+        const wpm = text.match(/(\d+) words per minute/)?.[1];
+        if (!wpm) return evaluation;
+        const fillerCount = Number(text.match(/(\d+) filler words/)?.[1] ?? 0);
+        const pacePenalty = Math.min(4, Math.round(Math.abs(Number(wpm) - 140) / 20));
+        return {
+          ...evaluation,
+          communication_score: Math.max(1, 10 - pacePenalty - Math.min(4, fillerCount)),
+          delivery_feedback: `Spoken at ${wpm} words per minute with ${fillerCount} filler word(s).`,
+        };
+      }
+      case 'panel-coordinator': {
+        // Rotate through the panel, alternating follow-ups with fresh questions.
+        const ids = request.schema.properties?.speaker_id?.enum ?? [];
+        const answers = (requestText(request).match(/^Candidate:/gm) ?? []).length;
+        return {
+          speaker_id: ids[answers % ids.length],
+          follow_up: answers % 2 === 1,
+          reason: answers % 2 === 1 ? 'The last answer left room to dig deeper.' : 'Handing over to a panelist who has had less airtime.',
+        };
+      }
+      default:
+        return synthesizeFromSchema(request.schema, seed);
+    }
+  };
+
+  const provider: InterviewProvider = {
+    id: 'mock',
+    model: config.model,
+
+    async generateText(request: GenerateRequest): Promise<string> {
+      if (request.task === 'interviewer-closing') {
+        return "That's time, thank you. Overall you communicated clearly and showed solid fundamentals. To improve, back your answers with concrete metrics and talk through trade-offs more explicitly. A good next step is to practice one system-design question end to end.";
+      }
+      if (request.task === 'coaching') return mockCoaching(request);
+      const turn = request.contents.filter(m => m.role === 'user').length;
+      const greeting = request.systemInstruction?.match(/Open the interview with exactly this line: "(.*?)"/)?.[1] ?? 'Welcome, and thanks for joining today.';
+      const seeded = request.systemInstruction?.match(/ask exactly this first question: "(.*?)"/)?.[1];
+      if (turn === 0 && seeded) return `${greeting} Let's start with this one: ${seeded}`;
+      // A question pinned into the interview plan comes up when its topic does, follow-ups aside.
+      const pinned = request.systemInstruction?.match(/Current topic: Ask exactly this question: "(.*?)"\.(?! .*Follow up on the candidate's last answer)/)?.[1];
+      if (turn > 0 && pinned) return `Thanks. Let's turn to this one: ${pinned}`;
+      if (request.systemInstruction?.includes('whiteboard is still empty') && !requestText(request).includes(DESIGN_PROMPT)) {
+        return `Let's move to system design. ${DESIGN_PROMPT} Sketch the main components on the whiteboard as you talk me through it.`;
+      }
+      const component = [...(request.systemInstruction ?? '').matchAll(/"kind":"([a-z-]+)","label":"(.*?)"/g)]
+        .filter(m => m[1] !== 'client')
+        .map(m => m[2]);
+      if (turn > 0 && component.length) {
+        const label = component[(hashString(request.systemInstruction ?? '') + turn) % component.length];
+        return `Looking at your diagram, what happens to ${label} when traffic grows tenfold? Where does it become the bottleneck, and how would you mitigate that?`;
+      }
+      // A persona's sample questions take the place of the generic pool.
+      const samples = [...(request.systemInstruction?.match(/Questions in your style, to ask or adapt: (.*)/)?.[1] ?? '').matchAll(/"(.*?)"/g)].map(m => m[1]);
+      const question = samples.length
+        ? samples[turn % samples.length]
+        : categoryQuestion(request.systemInstruction ?? '', turn)
+          ?? QUESTION_POOL[(hashString(request.systemInstruction ?? '') + turn) % QUESTION_POOL.length];
+      const followingUp = request.systemInstruction?.match(/Follow up on (.*?)'s last question/)?.[1];
+      if (turn > 0 && followingUp) return `Building on ${followingUp}'s question, could you go one level deeper? ${question}`;
+      return turn === 0
+        ? `${greeting} Let's get started. ${question}`
+        : `Thanks, that's helpful context. ${question}`;
+    },
+
+    async streamText(request: GenerateRequest, { signal, onChunk }: StreamOptions): Promise<string> {
+      const words = (await provider.generateText(request)).split(/(?<=\s)/);
+      let text = '';
+      for (const word of words) {
+        await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+        signal?.throwIfAborted();
+        text += word;
+        onChunk(word);
+      }
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      return fixture(request.task, request, hashString(requestText(request))) as T;
+    },
+  };
+  return provider;
+}
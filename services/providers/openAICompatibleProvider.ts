@@ -0,0 +1,132 @@
+import { Schema } from "@google/genai";
+import { httpError, ProviderError } from "./errors";
+import { parseJsonResponse } from "./jsonResponse";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, ProviderConfig, ProviderMessage, ProviderPart, StreamOptions } from "./types";
+
+// Targets any server that speaks the OpenAI chat-completions dialect
+// (OpenAI itself, llama.cpp, vLLM, LM Studio, Ollama's /v1 endpoint).
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+
+type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+  | { type: 'file'; file: { file_data: string; filename: string } };
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+function toContentPart(part: ProviderPart): ChatContentPart {
+  if (part.inlineData) {
+    const dataUrl = `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
+    return part.inlineData.mimeType.startsWith('image/')
+      ? { type: 'image_url', image_url: { url: dataUrl } }
+      : { type: 'file', file: { file_data: dataUrl, filename: 'resume' } };
+  }
+  return { type: 'text', text: part.text ?? '' };
+}
+
+function toChatMessages(request: GenerateRequest): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+  request.contents.forEach((m: ProviderMessage) => {
+    const textOnly = m.parts.every(p => !p.inlineData);
+    messages.push({
+      role: m.role === 'model' ? 'assistant' : 'user',
+      content: textOnly ? m.parts.map(p => p.text ?? '').join('\n') : m.parts.map(toContentPart),
+    });
+  });
+  return messages;
+}
+
+// Gemini schemas use upper-case OpenAPI type names; JSON Schema wants them lower-case.
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  if (schema.type) {
+    const type = schema.type.toLowerCase();
+    out.type = schema.nullable ? [type, 'null'] : type;
+  }
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) out.required = schema.required;
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  return out;
+}
+
+export function createOpenAICompatibleProvider(config: ProviderConfig): InterviewProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: config.model, ...body }),
+      signal,
+    });
+    if (!res.ok) {
+      throw httpError(res.status, await res.text(), res.headers.get('Retry-After'));
+    }
+    return res;
+  };
+
+  const complete = async (body: Record<string, unknown>): Promise<string> => {
+    const data = await (await post(body)).json();
+    return data.choices?.[0]?.message?.content ?? '';
+  };
+
+  return {
+    id: 'openai',
+    model: config.model,
+
+    generateText(request: GenerateRequest): Promise<string> {
+      return complete({ messages: toChatMessages(request), temperature: request.temperature });
+    },
+
+    async streamText(request: GenerateRequest, { signal, onChunk }: StreamOptions): Promise<string> {
+      const res = await post({ messages: toChatMessages(request), temperature: request.temperature, stream: true }, signal);
+      if (!res.body) throw new ProviderError('transient', 'LLM server returned an empty stream.');
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      let text = '';
+      // Server-sent events: one `data: {json}` line per delta, terminated by `data: [DONE]`.
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) {
+          const payload = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+          const delta: string = JSON.parse(payload).choices?.[0]?.delta?.content ?? '';
+          if (!delta) continue;
+          text += delta;
+          onChunk(delta);
+        }
+      }
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      const text = await complete({
+        messages: toChatMessages(request),
+        temperature: request.temperature,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.task.replace(/-/g, '_'), schema: toJsonSchema(request.schema) },
+        },
+      });
+      return parseJsonResponse<T>(text);
+    },
+  };
+}
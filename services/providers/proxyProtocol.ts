@@ -0,0 +1,46 @@
+import type { PromptInput } from "../geminiService";
+import { ProviderErrorKind } from "./errors";
+import { ProviderTask } from "./types";
+
+// Shared by the browser's proxy provider and server/. Each task is served by
+// one endpoint, so rate and size limits can be tuned per kind of call.
+export type ProxyEndpoint = 'analyze-resume' | 'interviewer-turn' | 'evaluate';
+
+export const PROXY_ENDPOINTS: Record<ProviderTask, ProxyEndpoint> = {
+  'analyze-resume': 'analyze-resume',
+  'analyze-job-description': 'analyze-resume',
+  'interviewer-turn': 'interviewer-turn',
+  'interviewer-closing': 'interviewer-turn',
+  'panel-coordinator': 'interviewer-turn',
+  'question-bank': 'interviewer-turn',
+  'coding-problem': 'interviewer-turn',
+  'coaching': 'interviewer-turn',
+  'evaluate-answer': 'evaluate',
+  'evaluate-code': 'evaluate',
+  'evaluate-design': 'evaluate',
+  'session-debrief': 'evaluate',
+};
+
+// Which InterviewProvider method the server should run.
+export type ProxyMode = 'text' | 'stream' | 'json';
+
+export const PROXY_MODES: readonly ProxyMode[] = ['text', 'stream', 'json'];
+
+// Carries what the prompt is built from, never the prompt itself: the server
+// rebuilds the request with buildRequest.
+export interface ProxyRequestBody {
+  mode: ProxyMode;
+  input: PromptInput;
+}
+
+// Text and JSON calls answer with { result }; streams answer with plain text chunks.
+export interface ProxyResultBody {
+  result: unknown;
+}
+
+// Non-2xx responses carry this so the browser can rebuild the ProviderError.
+export interface ProxyErrorBody {
+  kind: ProviderErrorKind;
+  message: string;
+  raw?: string;
+}
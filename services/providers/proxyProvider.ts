@@ -0,0 +1,68 @@
+import { httpError, ProviderError } from "./errors";
+import { PROXY_ENDPOINTS, ProxyErrorBody, ProxyMode, ProxyRequestBody, ProxyResultBody } from "./proxyProtocol";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, ProviderConfig, StreamOptions } from "./types";
+
+// Talks to server/, which holds the API key and runs the real backend.
+const DEFAULT_BASE_URL = '/api';
+
+export function createProxyProvider(config: ProviderConfig): InterviewProvider {
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const post = async (mode: ProxyMode, request: GenerateRequest, signal?: AbortSignal): Promise<Response> => {
+    if (!request.source) throw new ProviderError('bad-request', `The ${request.task} request wasn't made by buildRequest, so the server can't rebuild it.`);
+    const body: ProxyRequestBody = { mode, input: request.source };
+    const res = await fetch(`${baseUrl}/${PROXY_ENDPOINTS[request.task]}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (res.ok) return res;
+    const text = await res.text();
+    let error: ProxyErrorBody | undefined;
+    try {
+      error = JSON.parse(text);
+    } catch {
+      // not one of ours, e.g. the dev proxy reporting the server is down
+    }
+    if (!error?.kind) throw httpError(res.status, text, res.headers.get('Retry-After'));
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    throw new ProviderError(error.kind, error.message, {
+      status: res.status,
+      retryAfterMs: res.headers.has('Retry-After') && Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined,
+      raw: error.raw,
+    });
+  };
+
+  const result = async <T>(mode: ProxyMode, request: GenerateRequest): Promise<T> => {
+    const data: ProxyResultBody = await (await post(mode, request)).json();
+    return data.result as T;
+  };
+
+  return {
+    id: 'proxy',
+    model: config.model,
+
+    generateText(request: GenerateRequest): Promise<string> {
+      return result<string>('text', request);
+    },
+
+    async streamText(request: GenerateRequest, { signal, onChunk }: StreamOptions): Promise<string> {
+      const res = await post('stream', request, signal);
+      if (!res.body) throw new ProviderError('transient', 'The proxy returned an empty stream.');
+      const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+      let text = '';
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        text += value;
+        onChunk(value);
+      }
+      return text;
+    },
+
+    generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      return result<T>('json', request);
+    },
+  };
+}
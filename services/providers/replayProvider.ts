@@ -0,0 +1,134 @@
+import { ProviderError } from "./errors";
+import { parseJsonResponse } from "./jsonResponse";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, ProviderTask, StreamOptions } from "./types";
+
+export type RecordedMode = 'text' | 'stream' | 'json';
+
+// One model call as the backend answered it. Replies keep the raw text, so a
+// replayed JSON call still goes through parsing, repair and schema checks.
+export interface RecordedCall {
+  task: ProviderTask;
+  mode: RecordedMode;
+  // The start of the last prompt, so a fixture can be read without the code beside it.
+  prompt: string;
+  // Streamed replies keep their chunk boundaries.
+  reply: string | string[];
+}
+
+export interface Cassette {
+  // Which backend answered, for recorded cassettes.
+  recordedWith?: string;
+  calls: RecordedCall[];
+}
+
+export interface ReplayProvider extends InterviewProvider {
+  // Calls nobody asked for yet; a non-empty list after a test means the code stopped making one.
+  unplayed(): RecordedCall[];
+}
+
+export interface RecordingProvider extends InterviewProvider {
+  cassette(): Cassette;
+}
+
+const PROMPT_EXCERPT = 200;
+
+// An opening interviewer turn has no messages yet; its system instruction is the prompt.
+function promptExcerpt(request: GenerateRequest): string {
+  const last = request.contents[request.contents.length - 1];
+  const text = last?.parts.map(p => p.text ?? `[${p.inlineData?.mimeType ?? 'attachment'}]`).join(' ') ?? request.systemInstruction ?? '';
+  return text.replace(/\s+/g, ' ').trim().slice(0, PROMPT_EXCERPT);
+}
+
+const joined = (reply: string | string[]) => Array.isArray(reply) ? reply.join('') : reply;
+
+// Answers from a cassette instead of a model. Calls are matched on task and order:
+// the nth analyze-resume call gets the nth recorded analyze-resume reply.
+export function createReplayProvider(cassette: Cassette): ReplayProvider {
+  const pending = [...cassette.calls];
+
+  const next = (request: GenerateRequest, mode: RecordedMode): RecordedCall => {
+    const index = pending.findIndex(c => c.task === request.task);
+    if (index === -1) {
+      throw new ProviderError('bad-request', `No recorded reply left for ${request.task}. Re-record the fixture with npm run test:record.`);
+    }
+    const [call] = pending.splice(index, 1);
+    if (call.mode !== mode) {
+      throw new ProviderError('bad-request', `The recorded ${request.task} reply is a ${call.mode} call, but the code made a ${mode} call.`);
+    }
+    return call;
+  };
+
+  return {
+    id: 'mock',
+    model: 'replay',
+
+    async generateText(request: GenerateRequest): Promise<string> {
+      return joined(next(request, 'text').reply);
+    },
+
+    async streamText(request: GenerateRequest, { signal, onChunk }: StreamOptions): Promise<string> {
+      const { reply } = next(request, 'stream');
+      let text = '';
+      for (const chunk of Array.isArray(reply) ? reply : [reply]) {
+        // Yield between chunks so the UI renders a partial reply, as it would live.
+        await Promise.resolve();
+        signal?.throwIfAborted();
+        text += chunk;
+        onChunk(chunk);
+      }
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      return parseJsonResponse<T>(joined(next(request, 'json').reply));
+    },
+
+    unplayed: () => [...pending],
+  };
+}
+
+// Passes calls through to a real backend and keeps what it answered, for writing
+// fixtures. Wrap the raw backend, not the resilient one, so re-asks are recorded too.
+export function createRecordingProvider(provider: InterviewProvider): RecordingProvider {
+  const calls: RecordedCall[] = [];
+  const record = (request: GenerateRequest, mode: RecordedMode, reply: string | string[]) =>
+    calls.push({ task: request.task, mode, prompt: promptExcerpt(request), reply });
+
+  return {
+    id: provider.id,
+    model: provider.model,
+
+    async generateText(request: GenerateRequest): Promise<string> {
+      const text = await provider.generateText(request);
+      record(request, 'text', text);
+      return text;
+    },
+
+    async streamText(request: GenerateRequest, options: StreamOptions): Promise<string> {
+      const chunks: string[] = [];
+      const text = await provider.streamText(request, {
+        ...options,
+        onChunk: (chunk) => {
+          chunks.push(chunk);
+          options.onChunk(chunk);
+        },
+      });
+      record(request, 'stream', chunks);
+      return text;
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      try {
+        const value = await provider.generateJson<T>(request);
+        record(request, 'json', JSON.stringify(value, null, 2));
+        return value;
+      } catch (err) {
+        // Unparseable replies are worth keeping: replaying them exercises the repair path.
+        if (err instanceof ProviderError && err.kind === 'malformed-response') record(request, 'json', err.details.raw ?? '');
+        throw err;
+      }
+    },
+
+    cassette: () => ({ recordedWith: `${provider.id} · ${provider.model}`, calls: [...calls] }),
+  };
+}
@@ -0,0 +1,109 @@
+import { invalidResponse, ProviderError, toProviderError } from "./errors";
+import { repairJson, validateAgainstSchema } from "./jsonResponse";
+import { GenerateJsonRequest, GenerateRequest, InterviewProvider, StreamOptions } from "./types";
+
+export interface RetryPolicy {
+  // Extra attempts after the first for rate limits, 5xx and network failures.
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // How many times a structured call is re-asked after an unusable response.
+  reasks: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 3, baseDelayMs: 500, maxDelayMs: 8000, reasks: 1 };
+
+// Exponential with jitter, unless the server said how long to wait.
+export function backoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) return Math.min(retryAfterMs, policy.maxDelayMs);
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+const isAbort = (err: unknown, signal?: AbortSignal) =>
+  signal?.aborted || (err instanceof Error && err.name === 'AbortError');
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+}
+
+async function withRetries<T>(run: () => Promise<T>, policy: RetryPolicy, signal?: AbortSignal, canRetry = () => true): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await run();
+    } catch (err) {
+      if (isAbort(err, signal)) throw err;
+      const error = toProviderError(err);
+      if (!error.retryable || attempt >= policy.retries || !canRetry()) throw error;
+      await sleep(backoffDelay(attempt, policy, error.details.retryAfterMs), signal);
+    }
+  }
+}
+
+function reaskPrompt(issues: string[]): string {
+  return [
+    'Your previous reply could not be used:',
+    ...issues.slice(0, 10).map(i => `- ${i}`),
+    'Reply again with only the corrected JSON object, matching the schema exactly.',
+  ].join('\n');
+}
+
+// Wraps a backend with retry and backoff on transient failures, and makes
+// generateJson return only schema-valid values: unparseable JSON is repaired
+// where possible, and invalid responses are re-asked with the problems listed.
+export function withResilience(provider: InterviewProvider, policy: RetryPolicy = DEFAULT_RETRY_POLICY): InterviewProvider {
+  return {
+    id: provider.id,
+    model: provider.model,
+
+    generateText(request: GenerateRequest): Promise<string> {
+      return withRetries(() => provider.generateText(request), policy);
+    },
+
+    streamText(request: GenerateRequest, options: StreamOptions): Promise<string> {
+      // Once text has reached the screen a retry would duplicate it, so only
+      // failures before the first chunk are retried.
+      let started = false;
+      const onChunk = (chunk: string) => {
+        started = true;
+        options.onChunk(chunk);
+      };
+      return withRetries(() => provider.streamText(request, { ...options, onChunk }), policy, options.signal, () => !started);
+    },
+
+    async generateJson<T>(request: GenerateJsonRequest): Promise<T> {
+      let current = request;
+      for (let ask = 0; ; ask++) {
+        let value: unknown;
+        let raw: string | undefined;
+        try {
+          value = await withRetries(() => provider.generateJson<unknown>(current), policy);
+        } catch (err) {
+          if (!(err instanceof ProviderError) || err.kind !== 'malformed-response') throw err;
+          raw = err.details.raw ?? '';
+          value = repairJson(raw);
+        }
+        const issues: string[] = [];
+        if (value === undefined) issues.push('the reply is not valid JSON');
+        else validateAgainstSchema(value, request.schema, '$', issues);
+        if (issues.length === 0) return value as T;
+        if (ask >= policy.reasks) throw invalidResponse(request.task, issues, raw ?? JSON.stringify(value));
+        current = {
+          ...request,
+          contents: [
+            ...request.contents,
+            { role: 'model', parts: [{ text: raw ?? JSON.stringify(value) }] },
+            { role: 'user', parts: [{ text: reaskPrompt(issues) }] },
+          ],
+        };
+      }
+    },
+  };
+}
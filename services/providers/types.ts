@@ -0,0 +1,65 @@
+import { Schema } from "@google/genai";
+import type { PromptInput } from "../geminiService";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+// Every call site names its task so backends that don't talk to a model
+// (the mock) can still produce a sensible, shape-correct response.
+export type ProviderTask =
+  | 'analyze-resume'
+  | 'analyze-job-description'
+  | 'interviewer-turn'
+  | 'interviewer-closing'
+  | 'evaluate-answer'
+  | 'question-bank'
+  | 'coding-problem'
+  | 'evaluate-code'
+  | 'evaluate-design'
+  | 'session-debrief'
+  | 'panel-coordinator'
+  | 'coaching';
+
+export interface ProviderPart {
+  text?: string;
+  inlineData?: { data: string; mimeType: string };
+}
+
+export interface ProviderMessage {
+  role: 'user' | 'model';
+  parts: ProviderPart[];
+}
+
+export interface GenerateRequest {
+  task: ProviderTask;
+  contents: ProviderMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  // What buildRequest made this from; the proxy sends only this.
+  source?: PromptInput;
+}
+
+export interface GenerateJsonRequest extends GenerateRequest {
+  schema: Schema;
+}
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Receives each new chunk as it arrives, not the accumulated text.
+  onChunk: (chunk: string) => void;
+}
+
+export interface ProviderConfig {
+  provider: ProviderId;
+  model: string;
+  apiKey?: string;
+  baseUrl?: string;
+}
+
+export interface InterviewProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  generateText(request: GenerateRequest): Promise<string>;
+  // Resolves with the full text once the stream ends; rejects on abort or failure.
+  streamText(request: GenerateRequest, options: StreamOptions): Promise<string>;
+  generateJson<T>(request: GenerateJsonRequest): Promise<T>;
+}
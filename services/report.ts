@@ -0,0 +1,403 @@
+import { AdaptiveState, ChatMessage, CodeSubmission, DeliveryMetrics, DesignEvaluation, EvaluationResult, HiringSignal, SessionDebrief, InterviewConfig, InterviewPlan, JobDescriptionAnalysis, PlanItem, ResumeAnalysis, SessionRecord } from "../types";
+import { formatClock } from "./timing";
+import { pairExchanges } from "./transcript";
+import { rankGaps } from "./jobDescription";
+import { findPanelist, panelistLabel } from "./panel";
+import { describeCategoryDetails } from "./categoryFlows";
+import { INTERVIEW_PHASES, phaseItems, phaseLabel } from "./interviewPlan";
+import { describeHintPenalty } from "./coaching";
+
+export const REPORT_FORMAT = 'interviewgen-report';
+// v2 added the session debrief; v3 the adaptive-difficulty history; v4 the job description;
+// v5 the interview plan.
+export const REPORT_FORMAT_VERSION = 5;
+
+export const SIGNAL_LABELS: Record<HiringSignal, string> = {
+  'strong-hire': 'Strong Hire',
+  'hire': 'Hire',
+  'no-hire': 'No Hire',
+  'strong-no-hire': 'Strong No Hire',
+};
+
+export interface ReportExchange {
+  number: number;
+  question: { messageIndex: number; text: string };
+  answer: { messageIndex: number; text: string; latencyMs?: number; delivery?: DeliveryMetrics; submission?: CodeSubmission };
+  evaluation: EvaluationResult | null;
+}
+
+// One structured view of a session; every export format is rendered from this.
+export interface SessionReport {
+  format: typeof REPORT_FORMAT;
+  formatVersion: number;
+  generatedAt: string;
+  session: {
+    id: string;
+    role: string;
+    config: InterviewConfig;
+    createdAt: string;
+    elapsedMs: number;
+    closed: boolean;
+  };
+  resume: ResumeAnalysis | null;
+  jobDescription: JobDescriptionAnalysis | null;
+  debrief: SessionDebrief | null;
+  adaptive: AdaptiveState | null;
+  plan: InterviewPlan | null;
+  summary: {
+    answers: number;
+    evaluatedAnswers: number;
+    averageScore: number | null;
+    averageLatencyMs: number | null;
+  };
+  exchanges: ReportExchange[];
+  transcript: ChatMessage[];
+}
+
+const average = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : null;
+
+export function buildSessionReport(record: SessionRecord, generatedAt: Date = new Date()): SessionReport {
+  const { messages, evaluationHistory } = record;
+  const exchanges: ReportExchange[] = pairExchanges(messages).map(({ questionIndex, answerIndex }, i) => ({
+    number: i + 1,
+    question: { messageIndex: questionIndex, text: messages[questionIndex].text },
+    answer: {
+      messageIndex: answerIndex,
+      text: messages[answerIndex].text,
+      latencyMs: messages[answerIndex].latencyMs,
+      delivery: messages[answerIndex].delivery,
+      submission: messages[answerIndex].submission,
+    },
+    evaluation: evaluationHistory[answerIndex] ?? null,
+  }));
+  const scores = exchanges.flatMap(e => e.evaluation ? [e.evaluation.score] : []);
+  const latencies = exchanges.flatMap(e => e.answer.latencyMs !== undefined ? [e.answer.latencyMs] : []);
+
+  return {
+    format: REPORT_FORMAT,
+    formatVersion: REPORT_FORMAT_VERSION,
+    generatedAt: generatedAt.toISOString(),
+    session: {
+      id: record.id,
+      role: record.role,
+      config: record.config,
+      createdAt: new Date(record.createdAt).toISOString(),
+      elapsedMs: record.elapsedMs,
+      closed: record.closed,
+    },
+    resume: record.analysis,
+    jobDescription: record.jobDescription ?? null,
+    debrief: record.debrief ?? null,
+    adaptive: record.adaptive ?? null,
+    plan: record.plan ?? null,
+    summary: {
+      answers: exchanges.length,
+      evaluatedAnswers: scores.length,
+      averageScore: average(scores),
+      averageLatencyMs: average(latencies),
+    },
+    exchanges,
+    // A reply still streaming at export time is cut off where it is, as if stopped.
+    transcript: messages.map(({ role, text, sentAt, latencyMs, delivery, submission, design, speakerId, guardrailFlags, status, error }) =>
+      ({ role, text, sentAt, latencyMs, delivery, submission, design, speakerId, guardrailFlags, status: status === 'streaming' ? 'stopped' as const : status, error })),
+  };
+}
+
+export function renderJson(report: SessionReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+const describeDelivery = (d: DeliveryMetrics) =>
+  `Spoken for ${formatClock(d.speakingMs)} at ${d.wordsPerMinute} wpm with ${d.fillerCount} filler word${d.fillerCount === 1 ? '' : 's'}`;
+
+const describeSubmission = (s: CodeSubmission) => `Hidden tests passed: ${s.passed}/${s.total} (${s.language})`;
+
+const isDesignEvaluation = (e: EvaluationResult): e is DesignEvaluation => 'scalability_score' in e;
+
+const describeDesignRubric = (e: DesignEvaluation) =>
+  `Scalability ${e.scalability_score}/10, consistency ${e.consistency_score}/10, trade-offs ${e.tradeoffs_score}/10`;
+
+// Adjustments point at a message index; readers know answers by their number.
+const adjustmentAnchor = (report: SessionReport, answerIndex: number) => {
+  const exchange = report.exchanges.find(e => e.answer.messageIndex === answerIndex);
+  return exchange ? `after answer ${exchange.number}` : 'after an answer';
+};
+
+// Panel interviews name who spoke; one-on-one sessions just say "Interviewer".
+const speakerName = (report: SessionReport, m: ChatMessage) => {
+  const panelist = findPanelist(report.session.config.panel ?? [], m.speakerId);
+  return panelist ? panelistLabel(panelist) : 'Interviewer';
+};
+
+const describePlanItem = (item: PlanItem) =>
+  `${item.topic}: ${item.status}${item.answers.length ? ` (${item.answers.length} answer${item.answers.length === 1 ? '' : 's'})` : ''}`;
+
+// Phases in order with their topics; the close has none to list.
+const planPhases = (plan: InterviewPlan) => INTERVIEW_PHASES
+  .map(phase => ({ ...phase, items: phaseItems(plan, phase.value) }))
+  .filter(p => p.items.length > 0);
+
+const quote = (text: string) => text.split('\n').map(line => `> ${line}`).join('\n');
+
+export function renderMarkdown(report: SessionReport): string {
+  const { session, resume, summary } = report;
+  const lines: string[] = [
+    `# InterviewGen Session Report: ${session.role}`,
+    '',
+    `- **Difficulty:** ${session.config.difficulty}`,
+    `- **Category:** ${session.config.category}`,
+    `- **Style:** ${session.config.style}`,
+    `- **Duration:** ${session.config.duration} (elapsed ${formatClock(session.elapsedMs)})`,
+    `- **Date:** ${new Date(session.createdAt).toLocaleString()}`,
+    `- **Answers:** ${summary.answers} (${summary.evaluatedAnswers} evaluated)`,
+  ];
+  if (summary.averageScore !== null) lines.push(`- **Average score:** ${summary.averageScore.toFixed(1)}/10`);
+  if (summary.averageLatencyMs !== null) lines.push(`- **Average answer latency:** ${formatClock(summary.averageLatencyMs)}`);
+
+  if (resume) {
+    lines.push(
+      '', '## Resume Insights', '',
+      '| Skill | Score |', '| --- | --- |',
+      `| DSA | ${resume.skillMap.dsa}% |`,
+      `| System Design | ${resume.skillMap.systemDesign}% |`,
+      `| Communication | ${resume.skillMap.communication}% |`,
+      '', '**Missing skills**', '',
+      ...resume.missingSkills.map(s => `- ${s}`),
+      '', '**Follow-up questions**', '',
+      ...resume.followUpQuestions.map(q => `- ${q}`),
+    );
+  }
+
+  if (report.jobDescription) {
+    const jd = report.jobDescription;
+    lines.push('', '## Job Fit', '', `**${jd.title}** (${jd.seniority}, ${jd.domain})`);
+    if (resume?.skillMatrix) {
+      lines.push(
+        '', '| Skill | Importance | Match | Evidence |', '| --- | --- | --- | --- |',
+        ...resume.skillMatrix.map(m => `| ${m.skill} | ${m.importance} | ${m.level} | ${m.evidence.replace(/\|/g, '\\|')} |`),
+      );
+      const gaps = rankGaps(resume.skillMatrix);
+      if (gaps.length) lines.push('', `**Biggest gaps:** ${gaps.map(m => m.skill).join(', ')}`);
+    }
+  }
+
+  if (report.debrief) {
+    const d = report.debrief;
+    lines.push(
+      '', '## Debrief', '',
+      `**Signal:** ${SIGNAL_LABELS[d.signal]}`, '', d.summary,
+      '', '**Strengths**', '', ...(d.strengths.length ? d.strengths.map(s => `- ${s}`) : ['- None identified']),
+      '', '**Red flags**', '', ...(d.redFlags.length ? d.redFlags.map(f => `- ${f}`) : ['- None identified']),
+    );
+    if (d.skillCoverage.length) {
+      lines.push('', '**Coverage of missing skills**', '', '| Skill | Covered | Evidence |', '| --- | --- | --- |',
+        ...d.skillCoverage.map(c => `| ${c.skill} | ${c.covered ? 'Yes' : 'No'} | ${c.evidence.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`));
+    }
+    if (d.unprobedFollowUps.length) lines.push('', '**Follow-ups never probed**', '', ...d.unprobedFollowUps.map(q => `- ${q}`));
+  }
+
+  if (report.adaptive) {
+    lines.push('', '## Difficulty Adjustments', '', `Adaptive difficulty started at **${report.adaptive.startedAt}**.`);
+    if (report.adaptive.adjustments.length === 0) lines.push('', '_Scores stayed within range, so the difficulty never changed._');
+    report.adaptive.adjustments.forEach(a => lines.push('', `- **${a.from} → ${a.to}** ${adjustmentAnchor(report, a.answerIndex)}: ${a.reason}`));
+  }
+
+  if (report.plan) {
+    lines.push('', '## Interview Plan', '', `Ended in the **${phaseLabel(report.plan.phase)}** phase.`);
+    planPhases(report.plan).forEach(p => {
+      lines.push('', `**${p.label}**`, '', ...p.items.map(i => `- ${describePlanItem(i)}`));
+    });
+    const moves = report.plan.transitions.filter(t => t.reason !== 'completed');
+    if (moves.length) lines.push('', '**Skipped and revisited**', '', ...moves.map(t => `- ${t.reason === 'skipped' ? 'Skipped' : 'Revisited'} from ${phaseLabel(t.from)} to ${phaseLabel(t.to)} at message ${t.messageIndex + 1}`));
+  }
+
+  lines.push('', '## Answers');
+  report.exchanges.forEach(e => {
+    const asker = report.session.config.panel ? ` from ${speakerName(report, report.transcript[e.question.messageIndex])}` : '';
+    lines.push('', `### ${e.number}. Question${asker}`, '', quote(e.question.text), '', '**Answer**', '', quote(e.answer.text));
+    if (e.answer.latencyMs !== undefined) lines.push('', `_Answered after ${formatClock(e.answer.latencyMs)}_`);
+    if (e.answer.delivery) lines.push('', `_${describeDelivery(e.answer.delivery)}_`);
+    if (e.answer.submission) lines.push('', `_${describeSubmission(e.answer.submission)}_`);
+    if (!e.evaluation) {
+      lines.push('', '_Not evaluated._');
+      return;
+    }
+    lines.push('', `**Score:** ${e.evaluation.score}/10`);
+    if (e.evaluation.hintPenalty) lines.push('', `_${describeHintPenalty(e.evaluation.hintPenalty)}_`);
+    if (e.evaluation.criteria?.length) {
+      lines.push(
+        '', '| Criterion | Weight | Score | Justification |', '| --- | --- | --- | --- |',
+        ...e.evaluation.criteria.map(c => `| ${c.name} | ${c.weight} | ${c.score}/10 | ${c.justification.replace(/\|/g, '\\|').replace(/\n/g, ' ')} |`),
+      );
+    }
+    lines.push(
+      '', e.evaluation.feedback,
+      '', '**Improvement tips**', '',
+      ...e.evaluation.improvement_tips.map(t => `- ${t}`),
+      '', '**Model answer outline**', '',
+      e.evaluation.model_answer_outline,
+    );
+    if (isDesignEvaluation(e.evaluation)) {
+      lines.push('', `**Design rubric:** ${describeDesignRubric(e.evaluation)}`);
+      if (e.evaluation.bottlenecks.length) lines.push('', '**Bottlenecks**', '', ...e.evaluation.bottlenecks.map(b => `- ${b}`));
+    }
+    if (e.evaluation.categoryDetails) {
+      lines.push('', ...describeCategoryDetails(e.evaluation.categoryDetails).map(d => `- ${d}`));
+    }
+    if (e.evaluation.panel?.length) {
+      lines.push('', '**Panel impressions**', '', ...e.evaluation.panel.map(p => `- **${p.name}** (${p.score}/10): ${p.impression}`));
+    }
+    if (e.evaluation.communication_score !== undefined) {
+      lines.push('', `**Delivery:** ${e.evaluation.communication_score}/10. ${e.evaluation.delivery_feedback ?? ''}`.trimEnd());
+    }
+  });
+
+  lines.push('', '## Full Transcript', '');
+  report.transcript.forEach(m => {
+    const marker = (m.status === 'stopped' ? ' _(stopped)_' : m.status === 'failed' ? ` _(stream failed: ${m.error})_` : '')
+      + (m.guardrailFlags ? ` _(off-limits topic flagged: ${m.guardrailFlags.join(', ')})_` : '');
+    lines.push(`**${m.role === 'user' ? 'Candidate' : speakerName(report, m)}:**${marker} ${m.text}`, '');
+  });
+
+  return lines.join('\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function scoreChartSvg(exchanges: ReportExchange[]): string {
+  const scored = exchanges.filter(e => e.evaluation);
+  if (scored.length === 0) return '<p class="muted">No answers were evaluated.</p>';
+  const barWidth = 36;
+  const gap = 16;
+  const height = 160;
+  const width = scored.length * (barWidth + gap) + gap;
+  const bars = scored.map((e, i) => {
+    const h = (e.evaluation!.score / 10) * (height - 30);
+    const x = gap + i * (barWidth + gap);
+    return `<rect x="${x}" y="${height - 20 - h}" width="${barWidth}" height="${h}" rx="6" fill="#6366f1"/>`
+      + `<text x="${x + barWidth / 2}" y="${height - 24 - h}" text-anchor="middle" font-size="11" fill="#0f172a">${e.evaluation!.score}</text>`
+      + `<text x="${x + barWidth / 2}" y="${height - 4}" text-anchor="middle" font-size="10" fill="#64748b">Q${e.number}</text>`;
+  });
+  return `<svg viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${bars.join('')}</svg>`;
+}
+
+function skillBarsHtml(resume: ResumeAnalysis): string {
+  return [
+    ['DSA', resume.skillMap.dsa],
+    ['System Design', resume.skillMap.systemDesign],
+    ['Communication', resume.skillMap.communication],
+  ].map(([label, value]) =>
+    `<div class="skill"><span>${label}</span><div class="track"><div class="fill" style="width:${value}%"></div></div><span>${value}%</span></div>`
+  ).join('');
+}
+
+function jobFitHtml(jd: JobDescriptionAnalysis, resume: ResumeAnalysis | null): string {
+  const rows = (resume?.skillMatrix ?? []).map(m =>
+    `<tr><td>${escapeHtml(m.skill)}</td><td>${m.importance}</td><td>${m.level}</td><td>${escapeHtml(m.evidence)}</td></tr>`).join('');
+  return `
+  <h2>Job Fit</h2>
+  <p><strong>${escapeHtml(jd.title)}</strong> (${jd.seniority}, ${escapeHtml(jd.domain)})</p>
+  ${rows ? `<table class="criteria"><tr><th>Skill</th><th>Importance</th><th>Match</th><th>Evidence</th></tr>${rows}</table>` : ''}`;
+}
+
+function debriefHtml(d: SessionDebrief): string {
+  const list = (items: string[]) => items.length ? `<ul>${items.map(i => `<li>${escapeHtml(i)}</li>`).join('')}</ul>` : '<p class="muted">None identified.</p>';
+  return `
+  <h2>Debrief</h2>
+  <p><span class="signal signal-${d.signal}">${SIGNAL_LABELS[d.signal]}</span> ${escapeHtml(d.summary)}</p>
+  <p><strong>Strengths</strong></p>${list(d.strengths)}
+  <p><strong>Red flags</strong></p>${list(d.redFlags)}
+  ${d.skillCoverage.length ? `<p><strong>Coverage of missing skills</strong></p>
+  <table class="criteria">${d.skillCoverage.map(c =>
+    `<tr><td>${escapeHtml(c.skill)}</td><td><strong>${c.covered ? 'Covered' : 'Not covered'}</strong></td><td>${escapeHtml(c.evidence)}</td></tr>`).join('')}</table>` : ''}
+  ${d.unprobedFollowUps.length ? `<p><strong>Follow-ups never probed</strong></p>${list(d.unprobedFollowUps)}` : ''}`;
+}
+
+export function renderPrintableHtml(report: SessionReport): string {
+  const { session, resume, summary } = report;
+  const exchanges = report.exchanges.map(e => `
+    <section class="exchange">
+      <h3>${e.number}. ${escapeHtml(e.question.text)}</h3>
+      ${session.config.panel ? `<p class="muted">Asked by ${escapeHtml(speakerName(report, report.transcript[e.question.messageIndex]))}</p>` : ''}
+      <p class="answer">${escapeHtml(e.answer.text)}</p>
+      ${e.answer.latencyMs !== undefined ? `<p class="muted">Answered after ${formatClock(e.answer.latencyMs)}</p>` : ''}
+      ${e.answer.delivery ? `<p class="muted">${describeDelivery(e.answer.delivery)}</p>` : ''}
+      ${e.answer.submission ? `<p class="muted">${describeSubmission(e.answer.submission)}</p>` : ''}
+      ${e.evaluation ? `
+        <p><strong>Score: ${e.evaluation.score}/10.</strong> ${escapeHtml(e.evaluation.feedback)}</p>
+        ${e.evaluation.hintPenalty ? `<p class="muted">${escapeHtml(describeHintPenalty(e.evaluation.hintPenalty))}</p>` : ''}
+        ${e.evaluation.criteria?.length ? `<table class="criteria">${e.evaluation.criteria.map(c =>
+          `<tr><td>${escapeHtml(c.name)}</td><td class="muted">weight ${c.weight}</td><td><strong>${c.score}/10</strong></td><td>${escapeHtml(c.justification)}</td></tr>`).join('')}</table>` : ''}
+        <ul>${e.evaluation.improvement_tips.map(t => `<li>${escapeHtml(t)}</li>`).join('')}</ul>
+        <p class="outline"><strong>Model answer outline:</strong> ${escapeHtml(e.evaluation.model_answer_outline)}</p>
+        ${isDesignEvaluation(e.evaluation) ? `<p><strong>Design rubric:</strong> ${describeDesignRubric(e.evaluation)}</p>
+        ${e.evaluation.bottlenecks.length ? `<ul>${e.evaluation.bottlenecks.map(b => `<li>${escapeHtml(b)}</li>`).join('')}</ul>` : ''}` : ''}
+        ${e.evaluation.categoryDetails ? `<ul>${describeCategoryDetails(e.evaluation.categoryDetails).map(d => `<li>${escapeHtml(d)}</li>`).join('')}</ul>` : ''}
+        ${e.evaluation.panel?.length ? `<table class="criteria">${e.evaluation.panel.map(p =>
+          `<tr><td>${escapeHtml(p.name)}</td><td><strong>${p.score}/10</strong></td><td>${escapeHtml(p.impression)}</td></tr>`).join('')}</table>` : ''}
+        ${e.evaluation.communication_score !== undefined ? `<p><strong>Delivery: ${e.evaluation.communication_score}/10.</strong> ${escapeHtml(e.evaluation.delivery_feedback ?? '')}</p>` : ''}
+      ` : '<p class="muted">Not evaluated.</p>'}
+    </section>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>InterviewGen Report: ${escapeHtml(session.role)}</title>
+<style>
+  body { font-family: Inter, system-ui, sans-serif; color: #0f172a; max-width: 820px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 28px; margin-bottom: 4px; }
+  h2 { font-size: 13px; text-transform: uppercase; letter-spacing: 0.1em; color: #64748b; margin-top: 36px; border-bottom: 1px solid #e2e8f0; padding-bottom: 6px; }
+  h3 { font-size: 15px; margin-bottom: 6px; }
+  .muted { color: #94a3b8; font-size: 12px; }
+  .meta { display: flex; flex-wrap: wrap; gap: 8px 24px; font-size: 13px; color: #475569; }
+  .answer { background: #f8fafc; border-left: 4px solid #6366f1; padding: 10px 14px; white-space: pre-wrap; }
+  .outline { font-size: 13px; color: #475569; }
+  .exchange { break-inside: avoid; margin-bottom: 24px; }
+  .criteria { border-collapse: collapse; font-size: 13px; margin-bottom: 12px; }
+  .criteria td { padding: 4px 12px 4px 0; vertical-align: top; }
+  .criteria th { text-align: left; padding: 4px 12px 4px 0; color: #64748b; }
+  .signal { display: inline-block; padding: 2px 10px; border-radius: 999px; font-size: 12px; font-weight: 700; text-transform: uppercase; margin-right: 8px; }
+  .signal-strong-hire, .signal-hire { background: #ccfbf1; color: #0f766e; }
+  .signal-no-hire, .signal-strong-no-hire { background: #fee2e2; color: #b91c1c; }
+  .skill { display: grid; grid-template-columns: 140px 1fr 48px; align-items: center; gap: 12px; font-size: 13px; margin-bottom: 8px; }
+  .track { height: 8px; background: #e2e8f0; border-radius: 4px; }
+  .fill { height: 100%; background: linear-gradient(90deg, #6366f1, #14b8a6); border-radius: 4px; }
+  @media print { body { margin: 0 auto; } h2 { break-after: avoid; } }
+</style>
+</head>
+<body>
+  <h1>${escapeHtml(session.role)}</h1>
+  <div class="meta">
+    <span>Difficulty: ${session.config.difficulty}</span>
+    <span>Category: ${session.config.category}</span>
+    <span>Style: ${session.config.style}</span>
+    <span>Duration: ${session.config.duration} (elapsed ${formatClock(session.elapsedMs)})</span>
+    <span>Date: ${new Date(session.createdAt).toLocaleString()}</span>
+    ${summary.averageScore !== null ? `<span>Average score: ${summary.averageScore.toFixed(1)}/10</span>` : ''}
+  </div>
+  ${report.debrief ? debriefHtml(report.debrief) : ''}
+  ${report.adaptive ? `
+  <h2>Difficulty Adjustments</h2>
+  <p>Adaptive difficulty started at <strong>${report.adaptive.startedAt}</strong>.</p>
+  ${report.adaptive.adjustments.length
+    ? `<ul>${report.adaptive.adjustments.map(a => `<li><strong>${a.from} → ${a.to}</strong> ${adjustmentAnchor(report, a.answerIndex)}: ${escapeHtml(a.reason)}</li>`).join('')}</ul>`
+    : '<p class="muted">Scores stayed within range, so the difficulty never changed.</p>'}` : ''}
+  ${report.plan ? `
+  <h2>Interview Plan</h2>
+  ${planPhases(report.plan).map(p => `<p><strong>${p.label}</strong></p><ul>${p.items.map(i => `<li>${escapeHtml(describePlanItem(i))}</li>`).join('')}</ul>`).join('')}` : ''}
+  <h2>Scores per Answer</h2>
+  ${scoreChartSvg(report.exchanges)}
+  ${resume ? `
+  <h2>Resume Insights</h2>
+  ${skillBarsHtml(resume)}
+  <p><strong>Missing skills:</strong> ${resume.missingSkills.map(escapeHtml).join(', ')}</p>
+  <p><strong>Follow-up questions:</strong></p>
+  <ul>${resume.followUpQuestions.map(q => `<li>${escapeHtml(q)}</li>`).join('')}</ul>` : ''}
+  ${report.jobDescription ? jobFitHtml(report.jobDescription, resume) : ''}
+  <h2>Answers</h2>
+  ${exchanges || '<p class="muted">No answers yet.</p>'}
+</body>
+</html>`;
+}
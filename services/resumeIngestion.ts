@@ -0,0 +1,283 @@
+import { RedactionKind, ResumeProfile, ResumeProject, ResumeRole } from "../types";
+import { extractPdfText } from "./pdfText";
+
+// Everything here runs in the browser. Contact details are redacted before the
+// text or the profile built from it is sent to any model.
+
+const REDACTION_LABELS: Record<RedactionKind, string> = { email: '[EMAIL]', phone: '[PHONE]', address: '[ADDRESS]' };
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g;
+// Candidates are confirmed by isPhone below, so dates, year ranges and labelled IDs survive.
+const PHONE = /(?<![\w/])\+?\(?\d[\d ().-]{7,}\d(?![\w/])/g;
+// Numbers after these labels are identifiers, not phone numbers.
+const NOT_PHONE_LABEL = /\b(?:ISBN(?:-1[03])?|ISSN|DOI|ID|No|Ref|Order|Invoice|Account|Acct|Patent)\.?\s*[#:]?\s*$/i;
+const STREET_SUFFIX = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Parkway|Pkwy|Highway|Hwy|Circle|Cir|Square|Sq|Marg|Nagar|Layout|Colony';
+const INDIAN_CITIES = 'Bengaluru|Bangalore|Mumbai|New Delhi|Delhi|Chennai|Hyderabad|Pune|Kolkata|Ahmedabad|Gurugram|Gurgaon|Noida|Jaipur|Kochi|Chandigarh|Lucknow|Indore|Coimbatore|Thiruvananthapuram|Mysuru';
+// A six-digit PIN only counts in an address: after a street or locality, an earlier
+// redacted address or a known city, and set off by a separator or ending the line.
+// "Onboarded 120000 merchants" is a metric, not a PIN.
+const PIN_PLACE = `(?:\\b(?:${STREET_SUFFIX})\\.?|\\[ADDRESS\\])(?:,?\\s*[A-Z][a-z]+)?|\\b(?:${INDIAN_CITIES})`;
+const ADDRESSES = [
+  // 221B Baker Street, Apt 4, London
+  new RegExp(`\\b\\d{1,6}[A-Z]?,?\\s+(?:[A-Z][\\w.'-]*\\s+){1,4}(?:${STREET_SUFFIX})\\b\\.?(?:,?\\s*(?:Apt|Suite|Unit|Flat|#)\\.?\\s*[\\w-]+)?`, 'g'),
+  // Springfield, IL 62704
+  /\b[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)*,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g,
+  // Bengaluru - 560034, or Koramangala Layout, Bengaluru 560034 at the end of a line
+  new RegExp(`(?:${PIN_PLACE})(?:\\s*[-,:]\\s*[1-9]\\d{2}\\s?\\d{3}\\b|[ \\t]+[1-9]\\d{2}\\s?\\d{3}[ \\t]*$)`, 'gm'),
+  // SW1A 1AA
+  /\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/g,
+  // Address: anything on the rest of the line
+  /(?<=\b(?:address|addr\.?)\s*:\s*)\S[^\n]*/gi,
+];
+
+const isPhone = (candidate: string, before: string) => {
+  const digits = candidate.replace(/\D/g, '');
+  // A trunk prefix like "+44 (0) 20" is the one single-digit group a phone number has.
+  const groups = candidate.replace(/\(0\)/, '').match(/\d+/g) ?? [];
+  if (digits.length < 10 || digits.length > 15 || NOT_PHONE_LABEL.test(before)) return false;
+  // Runs of years ("2019 2020 2021") have enough digits but aren't numbers anyone dials.
+  if (groups.every(g => /^(19|20)\d{2}$/.test(g))) return false;
+  // ISBN-13s (978-3-16-148410-0) split into single digits where phone numbers never do.
+  return !groups.slice(1).some(g => g.length === 1);
+};
+
+export function redactPii(text: string): { text: string; counts: Record<RedactionKind, number> } {
+  const counts: Record<RedactionKind, number> = { email: 0, phone: 0, address: 0 };
+  const replace = (kind: RedactionKind) => () => {
+    counts[kind]++;
+    return REDACTION_LABELS[kind];
+  };
+  let out = text.replace(EMAIL, replace('email'));
+  out = out.replace(PHONE, (match, offset: number) => isPhone(match, out.slice(Math.max(0, offset - 16), offset)) ? replace('phone')() : match);
+  ADDRESSES.forEach(pattern => {
+    out = out.replace(pattern, match => /^[\s,]*(\[ADDRESS\][\s,]*)+$/.test(match) ? match : REDACTION_LABELS.address);
+  });
+  // Street, city and postcode are often matched separately; one address is one redaction.
+  out = out.replace(/\[ADDRESS\](?:,?\s*\[ADDRESS\])+/g, REDACTION_LABELS.address);
+  counts.address = out.split(REDACTION_LABELS.address).length - text.split(REDACTION_LABELS.address).length;
+  return { text: out, counts };
+}
+
+// Matched case-insensitively unless listed in CASE_SENSITIVE, where the lower-case
+// word is ordinary English ("go", "rest", "spring").
+const TECHNOLOGIES = [
+  'JavaScript', 'TypeScript', 'Python', 'Java', 'Go', 'Golang', 'Rust', 'C++', 'C#', 'Kotlin', 'Swift', 'Ruby', 'PHP', 'Scala', 'SQL', 'Bash',
+  'React', 'React Native', 'Angular', 'Vue', 'Next.js', 'Node.js', 'Express', 'NestJS', 'Django', 'Flask', 'FastAPI', 'Spring', 'Spring Boot',
+  '.NET', 'Rails', 'GraphQL', 'REST', 'gRPC', 'WebSockets', 'Redux', 'HTML', 'CSS', 'Tailwind', 'Sass', 'Webpack', 'Vite',
+  'PostgreSQL', 'MySQL', 'SQLite', 'MongoDB', 'Redis', 'Cassandra', 'DynamoDB', 'Elasticsearch', 'Kafka', 'RabbitMQ', 'Spark', 'Hadoop',
+  'Airflow', 'Snowflake', 'BigQuery', 'AWS', 'GCP', 'Azure', 'Docker', 'Kubernetes', 'Terraform', 'Ansible', 'Jenkins', 'GitHub Actions',
+  'CI/CD', 'Linux', 'Git', 'Prometheus', 'Grafana', 'TensorFlow', 'PyTorch', 'scikit-learn', 'Pandas', 'NumPy', 'LLMs',
+  'Jest', 'Cypress', 'Playwright', 'Selenium', 'JUnit', 'Figma', 'Microservices', 'Android', 'iOS', 'Flutter',
+];
+const CASE_SENSITIVE = new Set(['Go', 'Rust', 'Swift', 'Ruby', 'Spring', 'Express', 'Rails', 'REST', 'Git', 'Bash', 'Vue', 'React']);
+const TECH_PATTERNS = TECHNOLOGIES.map(name => ({
+  name,
+  pattern: new RegExp(`(?<![\\w+#.])${name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![\\w+#]|\\.\\w)`, CASE_SENSITIVE.has(name) ? '' : 'i'),
+}));
+
+const findTechnologies = (text: string) => TECH_PATTERNS.filter(t => t.pattern.test(text)).map(t => t.name);
+
+type Section = 'header' | 'summary' | 'experience' | 'projects' | 'skills' | 'education' | 'other';
+
+const SECTION_HEADINGS: [Exclude<Section, 'header'>, RegExp][] = [
+  ['experience', /^(work |professional |employment |relevant )?(experience|history)$|^employment$/i],
+  ['projects', /^(personal |side |selected |key |academic )?projects$/i],
+  ['skills', /^(technical |core |key )?(skills|competencies)( & tools)?$|^(technologies|tech stack|tools( & technologies)?)$/i],
+  ['education', /^(education|academics?|qualifications)$/i],
+  ['summary', /^(professional )?(summary|profile)$|^(about( me)?|objective)$/i],
+  ['other', /^(certifications?|awards|achievements|publications|interests|hobbies|languages|volunteering|activities|references)$/i],
+];
+
+const MONTH = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+const DATE = `(?:${MONTH}\\s*'?\\d{2,4}|\\d{1,2}[/.-]\\d{4}|(?:19|20)\\d{2})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|today)`, 'i');
+const BULLET = /^[•\-*▪●◦‣–·]\s*/;
+const TITLE_WORDS = /engineer|developer|manager|lead|intern|architect|analyst|scientist|designer|consultant|director|head|officer|administrator|specialist|programmer|founder|sde|swe/i;
+
+function headingOf(line: string): Exclude<Section, 'header'> | null {
+  const text = line.replace(/[:\s]+$/, '').trim();
+  if (text.length > 40) return null;
+  return SECTION_HEADINGS.find(([, pattern]) => pattern.test(text))?.[0] ?? null;
+}
+
+function splitSections(text: string): Record<Section, string[]> {
+  const sections: Record<Section, string[]> = { header: [], summary: [], experience: [], projects: [], skills: [], education: [], other: [] };
+  let current: Section = 'header';
+  text.split('\n').map(l => l.trim()).filter(Boolean).forEach(line => {
+    const heading = headingOf(line);
+    if (heading) current = heading;
+    else sections[current].push(line);
+  });
+  return sections;
+}
+
+// "Senior Engineer at Acme", "Acme | Senior Engineer", "Senior Engineer, Acme"...
+function titleAndOrganization(parts: string[]): { title: string; organization: string } {
+  const [first = '', second = ''] = parts;
+  return TITLE_WORDS.test(second) && !TITLE_WORDS.test(first)
+    ? { title: second, organization: first }
+    : { title: first, organization: second };
+}
+
+const splitHeader = (text: string) =>
+  text.split(/\s+at\s+|\s*[|@–—]\s*|\s+-\s+|,\s+/).map(p => p.replace(/^[(\s]+|[)\s]+$/g, '')).filter(Boolean);
+
+function parseRoles(lines: string[]): ResumeRole[] {
+  const roles: ResumeRole[] = [];
+  let pending: string[] = [];
+  lines.forEach(line => {
+    const range = line.match(DATE_RANGE);
+    const current = roles[roles.length - 1];
+    if (range) {
+      const rest = splitHeader(line.replace(range[0], ''));
+      // The title/organization is on the date line, on the line(s) just before it, or split across both.
+      const header = rest.length >= 2 ? rest : rest.length === 1 ? [...rest, ...pending.slice(-1).flatMap(splitHeader)] : pending.slice(-2).flatMap(splitHeader);
+      const consumed = rest.length >= 2 ? 0 : rest.length === 1 ? 1 : 2;
+      if (current) current.highlights.push(...pending.slice(0, Math.max(0, pending.length - consumed)));
+      const end = range[2];
+      roles.push({ ...titleAndOrganization(header), start: range[1], end: /^(present|current|now|today)$/i.test(end) ? 'Present' : end, highlights: [] });
+      pending = [];
+    } else if (BULLET.test(line) && current) {
+      current.highlights.push(...pending, line.replace(BULLET, ''));
+      pending = [];
+    } else if (current && current.highlights.length > 0 && /^[a-z(]/.test(line) && pending.length === 0) {
+      // A wrapped bullet continues on a line starting in lower case.
+      current.highlights[current.highlights.length - 1] += ` ${line}`;
+    } else {
+      pending.push(line.replace(BULLET, ''));
+    }
+  });
+  roles[roles.length - 1]?.highlights.push(...pending);
+  return roles;
+}
+
+function listItems(line: string): string[] {
+  return line.replace(/^[^:]{1,30}:\s*/, '').split(/\s*[,;|•·/]\s*/).map(s => s.replace(BULLET, '').trim()).filter(s => s.length > 0 && s.length <= 30);
+}
+
+const TECH_LINE = /^(tech(nologies)?|tech stack|stack|built with|tools)\s*:/i;
+
+function parseProjects(lines: string[]): ResumeProject[] {
+  const projects: ResumeProject[] = [];
+  lines.forEach(line => {
+    const current = projects[projects.length - 1];
+    if (current && TECH_LINE.test(line)) {
+      current.technologies.push(...listItems(line));
+    } else if (current && (BULLET.test(line) || line.length > 80 || /^[a-z]/.test(line))) {
+      current.description = `${current.description} ${line.replace(BULLET, '')}`.trim();
+    } else {
+      // "Name (React, Node.js)", "Name | React, Node.js" or "Name: what it does"
+      const [, name, detail = ''] = line.match(/^(.+?)(?:\s*[(|:–—]\s*|\s+-\s+)(.*?)\)?$/) ?? [line, line];
+      const explicit = /[(|]/.test(line) ? listItems(detail) : [];
+      projects.push({ name: name.trim(), description: explicit.length ? '' : detail.trim(), technologies: explicit });
+    }
+  });
+  return projects.map(p => ({
+    ...p,
+    technologies: Array.from(new Set([...p.technologies, ...findTechnologies(`${p.name} ${p.description}`)])),
+  }));
+}
+
+const MAX_TECHNOLOGIES = 40;
+const EXCERPT_LENGTH = 1000;
+
+// Expects text that has already been through redactPii.
+export function parseResumeProfile(text: string, redactions: Record<RedactionKind, number>): ResumeProfile {
+  const sections = splitSections(text);
+  const projects = parseProjects(sections.projects);
+  const listed = sections.skills.flatMap(listItems);
+  const technologies = Array.from(new Set([...listed, ...findTechnologies(text), ...projects.flatMap(p => p.technologies)]))
+    .slice(0, MAX_TECHNOLOGIES);
+  return {
+    roles: parseRoles(sections.experience),
+    projects,
+    technologies,
+    education: sections.education.filter(l => !BULLET.test(l) && !/\[(EMAIL|PHONE|ADDRESS)\]/.test(l)).slice(0, 4),
+    excerpt: text.slice(0, EXCERPT_LENGTH),
+    redactions,
+  };
+}
+
+export interface IngestedResume {
+  // The full resume text with contact details redacted.
+  text: string;
+  profile: ResumeProfile;
+  // The file itself, when no text could be read from it and the user agreed to send it as is.
+  attachment?: ResumeFile;
+}
+
+export interface ResumeFile {
+  data: string;
+  mimeType: string;
+}
+
+// What resume analysis accepts as an attachment.
+export const ATTACHABLE_RESUME_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif'];
+
+const decode = (data: string) => Uint8Array.from(atob(data), c => c.charCodeAt(0));
+
+export function ingestResumeText(raw: string): IngestedResume {
+  const { text, counts } = redactPii(raw);
+  return { text, profile: parseResumeProfile(text, counts) };
+}
+
+// Images and scanned PDFs have no text layer, so nothing in them can be redacted.
+// Errors other than a missing text layer are left for ingestResume to report.
+export async function needsAttachment(file: ResumeFile): Promise<boolean> {
+  if (file.mimeType !== 'application/pdf') return ATTACHABLE_RESUME_TYPES.includes(file.mimeType);
+  try {
+    return !(await extractPdfText(decode(file.data))).trim();
+  } catch {
+    return false;
+  }
+}
+
+// PDFs are read locally and only their redacted text is sent. A file with no
+// text goes as is, and only with `attach`: the user's explicit consent.
+export async function ingestResume(source: { text: string } | { file: ResumeFile }, options: { attach?: boolean } = {}): Promise<IngestedResume> {
+  if ('text' in source) return ingestResumeText(source.text);
+  const { file } = source;
+  if (!ATTACHABLE_RESUME_TYPES.includes(file.mimeType)) throw new Error('Upload a PDF or an image of your resume, or paste the text instead.');
+  const text = file.mimeType === 'application/pdf' ? await extractPdfText(decode(file.data)) : '';
+  if (text.trim()) return ingestResumeText(text);
+  if (!options.attach) {
+    throw new Error("No text could be read from that file, so its contact details can't be redacted. Agree to send it as is, or paste the text instead.");
+  }
+  return {
+    text: '',
+    profile: { ...parseResumeProfile('', { email: 0, phone: 0, address: 0 }), sentUnredacted: true },
+    attachment: file,
+  };
+}
+
+const clip = (text: string, max: number) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// The compact form interviewer prompts see in place of the raw resume.
+export function describeResumeProfile(profile: ResumeProfile | null): string {
+  if (!profile) return 'No resume details available.';
+  if (profile.sentUnredacted) return 'No resume details available; the resume was shared as a file that could not be read locally.';
+  const { roles, projects, technologies, education } = profile;
+  if (roles.length === 0 && projects.length === 0 && technologies.length === 0) {
+    return `Resume excerpt (layout not recognised): ${profile.excerpt}`;
+  }
+  const lines: string[] = [];
+  if (roles.length) {
+    lines.push('Experience:', ...roles.slice(0, 6).map(r => {
+      const dates = r.start ? ` (${r.start} – ${r.end ?? '?'})` : '';
+      const highlights = r.highlights.slice(0, 3).map(h => clip(h, 140)).join('; ');
+      return `- ${r.title || 'Role'}${r.organization ? ` at ${r.organization}` : ''}${dates}${highlights ? `: ${highlights}` : ''}`;
+    }));
+  }
+  if (projects.length) {
+    lines.push('Projects:', ...projects.slice(0, 5).map(p =>
+      `- ${p.name}${p.technologies.length ? ` [${p.technologies.join(', ')}]` : ''}${p.description ? `: ${clip(p.description, 160)}` : ''}`));
+  }
+  if (technologies.length) lines.push(`Technologies: ${technologies.join(', ')}`);
+  if (education.length) lines.push(`Education: ${education.join('; ')}`);
+  return lines.join('\n');
+}
+
+export function describeRedactions(counts: Record<RedactionKind, number>): string {
+  const parts = (Object.keys(counts) as RedactionKind[]).filter(k => counts[k] > 0).map(k => `${counts[k]} ${k}${counts[k] === 1 ? '' : k === 'address' ? 'es' : 's'}`);
+  return parts.length ? `Redacted ${parts.join(', ')}` : 'No contact details found';
+}
@@ -0,0 +1,99 @@
+import { Category, CriterionScore, InterviewConfig, Rubric } from "../types";
+import { Issues, ValidationError, validateRubric } from "./validation";
+
+export const DEFAULT_RUBRICS: Record<Category, Rubric> = {
+  technical: {
+    id: 'default-technical',
+    name: 'Technical (default)',
+    category: 'technical',
+    builtIn: true,
+    criteria: [
+      { id: 'correctness', name: 'Correctness', description: 'Facts, APIs and reasoning are accurate; no hand-waving over errors.', weight: 35 },
+      { id: 'depth', name: 'Depth', description: 'Goes beyond the surface: internals, edge cases, failure modes.', weight: 30 },
+      { id: 'trade-offs', name: 'Trade-offs', description: 'Names alternatives and explains why one was chosen.', weight: 15 },
+      { id: 'clarity', name: 'Clarity', description: 'Structured, concise and easy to follow.', weight: 20 },
+    ],
+  },
+  behavioral: {
+    id: 'default-behavioral',
+    name: 'Behavioral (default)',
+    category: 'behavioral',
+    builtIn: true,
+    criteria: [
+      { id: 'star-structure', name: 'STAR structure', description: 'Situation, Task, Action and Result are each clearly present.', weight: 30 },
+      { id: 'ownership', name: 'Ownership', description: "The candidate's own actions and decisions are distinguishable from the team's.", weight: 25 },
+      { id: 'impact', name: 'Impact', description: 'Outcomes are concrete and, where possible, quantified.', weight: 25 },
+      { id: 'reflection', name: 'Reflection', description: 'Shows what was learned or would be done differently.', weight: 20 },
+    ],
+  },
+  scenario: {
+    id: 'default-scenario',
+    name: 'Scenario (default)',
+    category: 'scenario',
+    builtIn: true,
+    criteria: [
+      { id: 'framing', name: 'Problem framing', description: 'Clarifies goals, constraints and unknowns before acting.', weight: 25 },
+      { id: 'prioritization', name: 'Prioritization', description: 'Orders actions by urgency and impact.', weight: 25 },
+      { id: 'decision-quality', name: 'Decision quality', description: 'Decisions are sound, justified and account for risk.', weight: 30 },
+      { id: 'communication', name: 'Stakeholder communication', description: 'Keeps the right people informed at the right time.', weight: 20 },
+    ],
+  },
+  'hr-fit': {
+    id: 'default-hr-fit',
+    name: 'HR fit (default)',
+    category: 'hr-fit',
+    builtIn: true,
+    criteria: [
+      { id: 'motivation', name: 'Motivation', description: 'Clear, specific reasons for wanting this role and company.', weight: 30 },
+      { id: 'values', name: 'Values alignment', description: 'Working style and values fit a healthy team culture.', weight: 30 },
+      { id: 'self-awareness', name: 'Self-awareness', description: 'Honest about strengths, weaknesses and growth areas.', weight: 20 },
+      { id: 'professionalism', name: 'Professionalism', description: 'Tone is respectful and answers stay on topic.', weight: 20 },
+    ],
+  },
+};
+
+const STORAGE_KEY = 'interviewgen.customRubrics';
+
+export function loadCustomRubrics(): Rubric[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomRubrics(rubrics: Rubric[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rubrics));
+}
+
+export function rubricsForCategory(category: Category, custom: Rubric[]): Rubric[] {
+  return [DEFAULT_RUBRICS[category], ...custom.filter(r => r.category === category)];
+}
+
+// A rubric chosen for another category (or since deleted) falls back to the default.
+export function resolveRubric(config: InterviewConfig, custom: Rubric[]): Rubric {
+  return rubricsForCategory(config.category, custom).find(r => r.id === config.rubricId) ?? DEFAULT_RUBRICS[config.category];
+}
+
+// A file may hold one rubric or an array of them.
+export function parseRubricFile(text: string): Rubric[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new ValidationError([`file is not valid JSON (${err.message})`], 'Rubric file');
+  }
+  const rubrics = Array.isArray(data) ? data : [data];
+  const issues: Issues = [];
+  rubrics.forEach((r, i) => validateRubric(r, Array.isArray(data) ? `$[${i}]` : '$', issues));
+  if (issues.length > 0) throw new ValidationError(issues, 'Rubric file');
+  return rubrics.map(({ builtIn, ...rubric }: Rubric) => rubric);
+}
+
+export function computeOverallScore(criteria: CriterionScore[]): number {
+  const totalWeight = criteria.reduce((sum, c) => sum + c.weight, 0);
+  if (totalWeight <= 0) return 0;
+  const weighted = criteria.reduce((sum, c) => sum + c.score * c.weight, 0) / totalWeight;
+  return Math.round(weighted * 10) / 10;
+}
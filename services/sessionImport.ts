@@ -0,0 +1,98 @@
+import { EvaluationResult, SessionRecord } from "../types";
+import { REPORT_FORMAT, REPORT_FORMAT_VERSION } from "./report";
+import { createSessionId, SESSION_SCHEMA_VERSION } from "./sessionStore";
+import {
+  expectNumber, expectString, isObject, Issues, validateChatMessage, validateEvaluationResult,
+  validateInterviewConfig, validateResumeAnalysis, validateSessionDebrief, validateAdaptiveState, validateJobDescription, validateInterviewPlan, ValidationError,
+} from "./validation";
+
+// Reads back the JSON produced by the report export (services/report.ts).
+
+function validateReportFile(value: unknown, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push('$ must be a JSON object');
+    return;
+  }
+  if (value.format !== REPORT_FORMAT) {
+    issues.push(`$.format must be '${REPORT_FORMAT}'. Is this an InterviewGen JSON export?`);
+    return;
+  }
+  expectNumber(value.formatVersion, '$.formatVersion', issues, 1, REPORT_FORMAT_VERSION);
+
+  if (!isObject(value.session)) {
+    issues.push('$.session must be an object');
+  } else {
+    expectString(value.session.role, '$.session.role', issues);
+    validateInterviewConfig(value.session.config, '$.session.config', issues);
+    expectNumber(value.session.elapsedMs, '$.session.elapsedMs', issues, 0);
+    if (Number.isNaN(Date.parse(value.session.createdAt))) issues.push('$.session.createdAt must be an ISO date');
+  }
+
+  if (value.resume !== null) validateResumeAnalysis(value.resume, '$.resume', issues);
+  // Older versions predate these sections.
+  if (value.debrief != null) validateSessionDebrief(value.debrief, '$.debrief', issues);
+  if (value.adaptive != null) validateAdaptiveState(value.adaptive, '$.adaptive', issues);
+  if (value.jobDescription != null) validateJobDescription(value.jobDescription, '$.jobDescription', issues);
+  if (value.plan != null) validateInterviewPlan(value.plan, '$.plan', issues);
+
+  if (!Array.isArray(value.transcript)) {
+    issues.push('$.transcript must be an array');
+    return;
+  }
+  value.transcript.forEach((m: unknown, i: number) => validateChatMessage(m, `$.transcript[${i}]`, issues));
+
+  if (!Array.isArray(value.exchanges)) {
+    issues.push('$.exchanges must be an array');
+    return;
+  }
+  value.exchanges.forEach((e: any, i: number) => {
+    const path = `$.exchanges[${i}]`;
+    const answerIdx = e?.answer?.messageIndex;
+    const questionIdx = e?.question?.messageIndex;
+    if (value.transcript[answerIdx]?.role !== 'user') {
+      issues.push(`${path}.answer.messageIndex must point at a candidate message in $.transcript`);
+    }
+    if (value.transcript[questionIdx]?.role !== 'interviewer') {
+      issues.push(`${path}.question.messageIndex must point at an interviewer message in $.transcript`);
+    }
+    if (e?.evaluation !== null) validateEvaluationResult(e?.evaluation, `${path}.evaluation`, issues);
+  });
+}
+
+export function parseSessionFile(text: string): SessionRecord {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (err: any) {
+    throw new ValidationError([`file is not valid JSON (${err.message})`], 'Session file');
+  }
+
+  const issues: Issues = [];
+  validateReportFile(data, issues);
+  if (issues.length > 0) throw new ValidationError(issues, 'Session file');
+
+  const evaluationHistory: Record<number, EvaluationResult> = {};
+  data.exchanges.forEach((e: any) => {
+    if (e.evaluation) evaluationHistory[e.answer.messageIndex] = e.evaluation;
+  });
+  const now = Date.now();
+
+  return {
+    id: createSessionId(),
+    schemaVersion: SESSION_SCHEMA_VERSION,
+    createdAt: Date.parse(data.session.createdAt),
+    updatedAt: now,
+    role: data.session.role,
+    resumeText: '',
+    config: data.session.config,
+    analysis: data.resume,
+    messages: data.transcript,
+    evaluationHistory,
+    elapsedMs: data.session.elapsedMs,
+    closed: true,
+    debrief: data.debrief ?? undefined,
+    adaptive: data.adaptive ?? undefined,
+    jobDescription: data.jobDescription ?? undefined,
+    plan: data.plan ?? undefined,
+  };
+}
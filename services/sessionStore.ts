@@ -0,0 +1,106 @@
+import { SessionRecord } from "../types";
+import { lastAnswerIndex } from "./transcript";
+
+const DB_NAME = 'interviewgen';
+const DB_VERSION = 1;
+const STORE = 'sessions';
+
+export const SESSION_SCHEMA_VERSION = 2;
+
+type Migration = (record: any) => any;
+
+// MIGRATIONS[n] upgrades a record from schemaVersion n to n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: records written before versioning had no timing or close state.
+  0: (record) => ({
+    ...record,
+    elapsedMs: record.elapsedMs ?? 0,
+    closed: record.closed ?? false,
+    evaluationHistory: record.evaluationHistory ?? {},
+    config: { difficulty: 'intermediate', category: 'technical', duration: '30m', style: 'faang', ...record.config },
+  }),
+  // v1: evaluations were keyed one past the latest interviewer message, which is not
+  // always the answer that was scored. Re-key each onto the answer it graded.
+  1: (record) => ({
+    ...record,
+    evaluationHistory: Object.fromEntries(
+      Object.entries(record.evaluationHistory).map(([key, evaluation]) => {
+        const idx = Number(key);
+        const answerIdx = record.messages[idx]?.role === 'user' ? idx : lastAnswerIndex(record.messages.slice(0, idx));
+        return [answerIdx, evaluation];
+      }).filter(([answerIdx]) => answerIdx !== -1)
+    ),
+  }),
+};
+
+export function migrateSession(raw: any): SessionRecord {
+  let record = { ...raw };
+  let version: number = record.schemaVersion ?? 0;
+  if (version > SESSION_SCHEMA_VERSION) {
+    throw new Error(`Session ${record.id} was saved by a newer version of InterviewGen (v${version}).`);
+  }
+  while (version < SESSION_SCHEMA_VERSION) {
+    record = MIGRATIONS[version](record);
+    version += 1;
+  }
+  return { ...record, schemaVersion: SESSION_SCHEMA_VERSION } as SessionRecord;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(STORE)) {
+          db.createObjectStore(STORE, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const req = run(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export function createSessionId(): string {
+  return crypto.randomUUID();
+}
+
+export async function listSessions(): Promise<SessionRecord[]> {
+  const raw = await withStore<any[]>('readonly', store => store.getAll());
+  return raw.map(migrateSession).sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getSession(id: string): Promise<SessionRecord | null> {
+  const raw = await withStore<any>('readonly', store => store.get(id));
+  return raw ? migrateSession(raw) : null;
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore('readwrite', store => store.put({ ...record, schemaVersion: SESSION_SCHEMA_VERSION, updatedAt: Date.now() }));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export async function duplicateSession(id: string): Promise<SessionRecord> {
+  const original = await getSession(id);
+  if (!original) throw new Error(`Session ${id} no longer exists.`);
+  const now = Date.now();
+  const copy: SessionRecord = { ...original, id: createSessionId(), createdAt: now, updatedAt: now };
+  await saveSession(copy);
+  return copy;
+}
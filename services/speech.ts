@@ -0,0 +1,104 @@
+import { DeliveryMetrics } from "../types";
+
+// Thin wrappers over the Web Speech API. Recognition is still vendor-prefixed in
+// Chromium and absent from TypeScript's DOM lib, so the bits we use are typed here.
+
+interface SpeechRecognitionAlternativeLike { transcript: string }
+interface SpeechRecognitionResultLike { isFinal: boolean; 0: SpeechRecognitionAlternativeLike }
+interface SpeechRecognitionEventLike { resultIndex: number; results: ArrayLike<SpeechRecognitionResultLike> }
+
+interface SpeechRecognitionLike {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult: ((event: SpeechRecognitionEventLike) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognitionCtor = new () => SpeechRecognitionLike;
+
+const recognitionCtor = (): SpeechRecognitionCtor | undefined =>
+  (window as any).SpeechRecognition ?? (window as any).webkitSpeechRecognition;
+
+export const isSpeechSynthesisSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+export const isSpeechRecognitionSupported = () => typeof window !== 'undefined' && !!recognitionCtor();
+
+export function speak(text: string, onEnd?: () => void): void {
+  if (!isSpeechSynthesisSupported()) return;
+  window.speechSynthesis.cancel();
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.rate = 1;
+  if (onEnd) utterance.onend = () => onEnd();
+  window.speechSynthesis.speak(utterance);
+}
+
+export function cancelSpeech(): void {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+}
+
+export interface Recorder {
+  stop(): void;
+  abort(): void;
+}
+
+// Streams the running transcript (final text plus the current interim guess)
+// to onTranscript until stopped; onEnd fires once with the final transcript.
+export function startRecognition(handlers: {
+  onTranscript: (transcript: string) => void;
+  onEnd: (finalTranscript: string) => void;
+  onError: (message: string) => void;
+}): Recorder {
+  const Ctor = recognitionCtor();
+  if (!Ctor) throw new Error("Speech recognition is not supported in this browser.");
+  const recognition = new Ctor();
+  recognition.continuous = true;
+  recognition.interimResults = true;
+  recognition.lang = navigator.language || 'en-US';
+
+  let finalText = '';
+  recognition.onresult = (event) => {
+    let interim = '';
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) finalText += result[0].transcript;
+      else interim += result[0].transcript;
+    }
+    handlers.onTranscript(`${finalText}${interim}`.trim());
+  };
+  recognition.onerror = (event) => {
+    if (event.error !== 'aborted' && event.error !== 'no-speech') handlers.onError(`Microphone error: ${event.error}`);
+  };
+  recognition.onend = () => handlers.onEnd(finalText.trim());
+  recognition.start();
+
+  return { stop: () => recognition.stop(), abort: () => recognition.abort() };
+}
+
+// Multi-word fillers are listed before their single-word parts so "you know" isn't also counted as "know".
+const FILLERS = ['you know', 'i mean', 'sort of', 'kind of', 'um', 'uh', 'er', 'ah', 'hmm', 'like', 'basically', 'actually', 'literally'];
+
+export function computeDeliveryMetrics(transcript: string, speakingMs: number): DeliveryMetrics {
+  let remaining = ` ${transcript.toLowerCase().replace(/[^a-z'\s]/g, ' ')} `;
+  const fillers: Record<string, number> = {};
+  FILLERS.forEach(filler => {
+    const pattern = new RegExp(`\\s${filler.replace(' ', '\\s+')}(?=\\s)`, 'g');
+    const count = remaining.match(pattern)?.length ?? 0;
+    if (count > 0) {
+      fillers[filler] = count;
+      remaining = remaining.replace(pattern, ' ');
+    }
+  });
+  const wordCount = transcript.split(/\s+/).filter(Boolean).length;
+  const minutes = speakingMs / 60_000;
+  return {
+    speakingMs,
+    wordCount,
+    wordsPerMinute: minutes > 0 ? Math.round(wordCount / minutes) : 0,
+    fillerCount: Object.values(fillers).reduce((a, b) => a + b, 0),
+    fillers,
+  };
+}
@@ -0,0 +1,34 @@
+import { ChatMessage, Duration, SessionTiming } from "../types";
+
+export const DURATION_MINUTES: Record<Duration, number> = {
+  '15m': 15,
+  '30m': 30,
+  '60m': 60,
+};
+
+// Below this share of the session left, the interviewer is told to start wrapping up.
+export const WRAP_UP_THRESHOLD = 0.2;
+
+export function getSessionTiming(duration: Duration, startedAt: number | null, now: number): SessionTiming {
+  const totalMs = DURATION_MINUTES[duration] * 60_000;
+  const elapsedMs = startedAt ? Math.max(0, now - startedAt) : 0;
+  return { totalMs, elapsedMs, remainingMs: Math.max(0, totalMs - elapsedMs) };
+}
+
+export function formatClock(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+// Time from the interviewer's question landing to the candidate sending an answer.
+export function answerLatency(messages: ChatMessage[], sentAt: number): number | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'interviewer') {
+      const askedAt = messages[i].sentAt;
+      return askedAt ? sentAt - askedAt : undefined;
+    }
+  }
+  return undefined;
+}
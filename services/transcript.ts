@@ -0,0 +1,30 @@
+import { ChatMessage } from "../types";
+
+// An answer and the interviewer message it responds to, by index into `messages`.
+// Evaluations are keyed by `answerIndex`.
+export interface Exchange {
+  questionIndex: number;
+  answerIndex: number;
+}
+
+export function findQuestionIndex(messages: ChatMessage[], answerIndex: number): number {
+  for (let i = answerIndex - 1; i >= 0; i--) {
+    if (messages[i].role === 'interviewer' && messages[i].text.trim()) return i;
+  }
+  return -1;
+}
+
+export function lastAnswerIndex(messages: ChatMessage[]): number {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return i;
+  }
+  return -1;
+}
+
+export function pairExchanges(messages: ChatMessage[]): Exchange[] {
+  return messages.flatMap((m, answerIndex) => {
+    if (m.role !== 'user') return [];
+    const questionIndex = findQuestionIndex(messages, answerIndex);
+    return questionIndex === -1 ? [] : [{ questionIndex, answerIndex }];
+  });
+}
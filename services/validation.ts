@@ -0,0 +1,648 @@
+// Hand-rolled runtime checks for the shapes in types.ts (ChatMessage,
+// EvaluationResult, InterviewConfig, ResumeAnalysis, Rubric, SessionDebrief) and
+// the prompt inputs server/ accepts. Each validator records
+// every problem it finds (with a JSON-path-like location) rather than stopping
+// at the first, so a rejected file explains everything that is wrong with it.
+
+import { DESIGN_COMPONENT_KINDS } from "./designGraph";
+import { MIN_PANELISTS, MAX_PANELISTS } from "./panel";
+import { ATTACHABLE_RESUME_TYPES } from "./resumeIngestion";
+import type { PromptInput } from "./geminiService";
+
+export class ValidationError extends Error {
+  constructor(public readonly issues: string[], subject = 'Value') {
+    super(`${subject} is invalid:\n${issues.map(i => `• ${i}`).join('\n')}`);
+    this.name = 'ValidationError';
+  }
+}
+
+export type Issues = string[];
+
+export const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export function expectString(value: unknown, path: string, issues: Issues): void {
+  if (typeof value !== 'string') issues.push(`${path} must be a string`);
+}
+
+export function expectNumber(value: unknown, path: string, issues: Issues, min?: number, max?: number): void {
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    issues.push(`${path} must be a number`);
+  } else if ((min !== undefined && value < min) || (max !== undefined && value > max)) {
+    issues.push(`${path} must be between ${min ?? '-∞'} and ${max ?? '∞'} (got ${value})`);
+  }
+}
+
+export function expectOneOf(value: unknown, allowed: readonly string[], path: string, issues: Issues): void {
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push(`${path} must be one of ${allowed.map(a => `'${a}'`).join(', ')}`);
+  }
+}
+
+export function expectOnlyKeys(value: Record<string, unknown>, allowed: readonly string[], path: string, issues: Issues): void {
+  Object.keys(value).filter(k => !allowed.includes(k)).forEach(k => issues.push(`${path}.${k} is not expected`));
+}
+
+export function expectStringArray(value: unknown, path: string, issues: Issues): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array of strings`);
+    return;
+  }
+  value.forEach((item, i) => expectString(item, `${path}[${i}]`, issues));
+}
+
+export function validateChatMessage(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOneOf(value.role, ['interviewer', 'user'], `${path}.role`, issues);
+  expectString(value.text, `${path}.text`, issues);
+  if (value.sentAt !== undefined) expectNumber(value.sentAt, `${path}.sentAt`, issues);
+  if (value.latencyMs !== undefined) expectNumber(value.latencyMs, `${path}.latencyMs`, issues, 0);
+  if (value.status !== undefined) expectOneOf(value.status, ['stopped', 'failed'], `${path}.status`, issues);
+  if (value.retryAction !== undefined) expectOneOf(value.retryAction, ['coding-problem'], `${path}.retryAction`, issues);
+  if (value.delivery !== undefined) validateDeliveryMetrics(value.delivery, `${path}.delivery`, issues);
+  if (value.submission !== undefined) {
+    if (!isObject(value.submission)) issues.push(`${path}.submission must be an object`);
+    else {
+      expectOneOf(value.submission.language, ['javascript', 'typescript'], `${path}.submission.language`, issues);
+      expectString(value.submission.code, `${path}.submission.code`, issues);
+    }
+  }
+  if (value.design !== undefined) validateDesignGraph(value.design, `${path}.design`, issues);
+  if (value.speakerId !== undefined) expectString(value.speakerId, `${path}.speakerId`, issues);
+  if (value.guardrailFlags !== undefined) expectStringArray(value.guardrailFlags, `${path}.guardrailFlags`, issues);
+}
+
+export function validateDesignGraph(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value) || !Array.isArray(value.nodes) || !Array.isArray(value.edges)) {
+    issues.push(`${path} must be an object with nodes and edges arrays`);
+    return;
+  }
+  const ids = new Set<unknown>();
+  value.nodes.forEach((n: any, i: number) => {
+    expectString(n?.id, `${path}.nodes[${i}].id`, issues);
+    expectOneOf(n?.kind, DESIGN_COMPONENT_KINDS.map(k => k.kind), `${path}.nodes[${i}].kind`, issues);
+    expectString(n?.label, `${path}.nodes[${i}].label`, issues);
+    expectNumber(n?.x, `${path}.nodes[${i}].x`, issues);
+    expectNumber(n?.y, `${path}.nodes[${i}].y`, issues);
+    ids.add(n?.id);
+  });
+  value.edges.forEach((e: any, i: number) => {
+    if (!ids.has(e?.from) || !ids.has(e?.to)) issues.push(`${path}.edges[${i}] must connect two existing nodes`);
+    expectString(e?.label, `${path}.edges[${i}].label`, issues);
+  });
+}
+
+export function validateDeliveryMetrics(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  (['speakingMs', 'wordCount', 'wordsPerMinute', 'fillerCount'] as const).forEach(k =>
+    expectNumber(value[k], `${path}.${k}`, issues, 0));
+  if (!isObject(value.fillers)) issues.push(`${path}.fillers must be an object`);
+}
+
+const HINT_POLICY_IDS = ['off', 'lenient', 'standard', 'strict'];
+
+export function validateEvaluationResult(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectNumber(value.score, `${path}.score`, issues, 0, 10);
+  expectString(value.feedback, `${path}.feedback`, issues);
+  expectStringArray(value.improvement_tips, `${path}.improvement_tips`, issues);
+  expectString(value.model_answer_outline, `${path}.model_answer_outline`, issues);
+  if (value.communication_score !== undefined) expectNumber(value.communication_score, `${path}.communication_score`, issues, 0, 10);
+  if (value.delivery_feedback !== undefined) expectString(value.delivery_feedback, `${path}.delivery_feedback`, issues);
+  if (value.hintPenalty !== undefined) {
+    if (!isObject(value.hintPenalty)) issues.push(`${path}.hintPenalty must be an object`);
+    else {
+      expectOneOf(value.hintPenalty.policy, HINT_POLICY_IDS, `${path}.hintPenalty.policy`, issues);
+      if (!Array.isArray(value.hintPenalty.hints)) issues.push(`${path}.hintPenalty.hints must be an array`);
+      else value.hintPenalty.hints.forEach((h: unknown, i: number) => expectOneOf(h, ['nudge', 'approach', 'partial'], `${path}.hintPenalty.hints[${i}]`, issues));
+      expectNumber(value.hintPenalty.clarifications, `${path}.hintPenalty.clarifications`, issues, 0);
+      expectNumber(value.hintPenalty.points, `${path}.hintPenalty.points`, issues, 0, 10);
+      expectNumber(value.hintPenalty.rawScore, `${path}.hintPenalty.rawScore`, issues, 0, 10);
+    }
+  }
+  if (value.criteria !== undefined) {
+    if (!Array.isArray(value.criteria)) issues.push(`${path}.criteria must be an array`);
+    else value.criteria.forEach((c: any, i: number) => {
+      expectString(c?.criterionId, `${path}.criteria[${i}].criterionId`, issues);
+      expectString(c?.name, `${path}.criteria[${i}].name`, issues);
+      expectNumber(c?.weight, `${path}.criteria[${i}].weight`, issues, 0);
+      expectNumber(c?.score, `${path}.criteria[${i}].score`, issues, 0, 10);
+      expectString(c?.justification, `${path}.criteria[${i}].justification`, issues);
+    });
+  }
+  if (value.panel !== undefined) {
+    if (!Array.isArray(value.panel)) issues.push(`${path}.panel must be an array`);
+    else value.panel.forEach((p: any, i: number) => {
+      expectString(p?.panelistId, `${path}.panel[${i}].panelistId`, issues);
+      expectString(p?.name, `${path}.panel[${i}].name`, issues);
+      expectNumber(p?.score, `${path}.panel[${i}].score`, issues, 0, 10);
+      expectString(p?.impression, `${path}.panel[${i}].impression`, issues);
+    });
+  }
+  if (value.categoryDetails !== undefined) validateCategoryDetails(value.categoryDetails, `${path}.categoryDetails`, issues);
+}
+
+function validateCategoryDetails(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  switch (value.category) {
+    case 'technical':
+      expectStringArray(value.conceptsCovered, `${path}.conceptsCovered`, issues);
+      expectStringArray(value.misconceptions, `${path}.misconceptions`, issues);
+      break;
+    case 'behavioral':
+      if (!isObject(value.star)) issues.push(`${path}.star must be an object`);
+      else (['situation', 'task', 'action', 'result'] as const).forEach(k =>
+        expectOneOf(value.star[k], ['clear', 'vague', 'missing'], `${path}.star.${k}`, issues));
+      expectStringArray(value.competencies, `${path}.competencies`, issues);
+      break;
+    case 'scenario':
+      expectStringArray(value.decisions, `${path}.decisions`, issues);
+      expectStringArray(value.risksMissed, `${path}.risksMissed`, issues);
+      expectNumber(value.adaptabilityScore, `${path}.adaptabilityScore`, issues, 0, 10);
+      break;
+    case 'hr-fit':
+      expectStringArray(value.motivations, `${path}.motivations`, issues);
+      if (value.compensationExpectation !== null) expectString(value.compensationExpectation, `${path}.compensationExpectation`, issues);
+      expectStringArray(value.concerns, `${path}.concerns`, issues);
+      break;
+    default:
+      expectOneOf(value.category, ['technical', 'behavioral', 'scenario', 'hr-fit'], `${path}.category`, issues);
+  }
+}
+
+export function validateSessionDebrief(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOneOf(value.signal, ['strong-hire', 'hire', 'no-hire', 'strong-no-hire'], `${path}.signal`, issues);
+  expectString(value.summary, `${path}.summary`, issues);
+  expectStringArray(value.strengths, `${path}.strengths`, issues);
+  expectStringArray(value.redFlags, `${path}.redFlags`, issues);
+  expectStringArray(value.unprobedFollowUps, `${path}.unprobedFollowUps`, issues);
+  expectNumber(value.generatedAt, `${path}.generatedAt`, issues);
+  expectNumber(value.messageCount, `${path}.messageCount`, issues, 0);
+  if (!Array.isArray(value.skillCoverage)) issues.push(`${path}.skillCoverage must be an array`);
+  else value.skillCoverage.forEach((c: any, i: number) => {
+    expectString(c?.skill, `${path}.skillCoverage[${i}].skill`, issues);
+    if (typeof c?.covered !== 'boolean') issues.push(`${path}.skillCoverage[${i}].covered must be a boolean`);
+    expectString(c?.evidence, `${path}.skillCoverage[${i}].evidence`, issues);
+  });
+}
+
+const DIFFICULTIES = ['beginner', 'intermediate', 'advanced'];
+
+export function validateAdaptiveState(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOneOf(value.startedAt, DIFFICULTIES, `${path}.startedAt`, issues);
+  if (value.estimate !== null) expectNumber(value.estimate, `${path}.estimate`, issues, 0, 10);
+  if (!Array.isArray(value.scoredAnswers)) issues.push(`${path}.scoredAnswers must be an array`);
+  expectNumber(value.answersSinceChange, `${path}.answersSinceChange`, issues, 0);
+  if (!Array.isArray(value.adjustments)) {
+    issues.push(`${path}.adjustments must be an array`);
+    return;
+  }
+  value.adjustments.forEach((a: any, i: number) => {
+    expectNumber(a?.answerIndex, `${path}.adjustments[${i}].answerIndex`, issues, 0);
+    expectOneOf(a?.from, DIFFICULTIES, `${path}.adjustments[${i}].from`, issues);
+    expectOneOf(a?.to, DIFFICULTIES, `${path}.adjustments[${i}].to`, issues);
+    expectString(a?.reason, `${path}.adjustments[${i}].reason`, issues);
+  });
+}
+
+const PHASES = ['intro', 'core', 'deep-dive', 'candidate-questions', 'close'];
+
+export function validateInterviewPlan(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOneOf(value.phase, PHASES, `${path}.phase`, issues);
+  if (value.activeItemId !== null) expectString(value.activeItemId, `${path}.activeItemId`, issues);
+  if (!Array.isArray(value.items)) issues.push(`${path}.items must be an array`);
+  else value.items.forEach((item: any, i: number) => {
+    const at = `${path}.items[${i}]`;
+    expectString(item?.id, `${at}.id`, issues);
+    expectOneOf(item?.phase, PHASES, `${at}.phase`, issues);
+    expectString(item?.topic, `${at}.topic`, issues);
+    expectString(item?.brief, `${at}.brief`, issues);
+    expectOneOf(item?.source, ['standard', 'pinned', 'missing-skill', 'follow-up', 'category'], `${at}.source`, issues);
+    expectNumber(item?.answersNeeded, `${at}.answersNeeded`, issues, 1);
+    if (!Array.isArray(item?.answers)) issues.push(`${at}.answers must be an array`);
+    expectOneOf(item?.status, ['pending', 'covered', 'skipped'], `${at}.status`, issues);
+  });
+  if (!Array.isArray(value.transitions)) issues.push(`${path}.transitions must be an array`);
+  else value.transitions.forEach((t: any, i: number) => {
+    const at = `${path}.transitions[${i}]`;
+    expectOneOf(t?.from, PHASES, `${at}.from`, issues);
+    expectOneOf(t?.to, PHASES, `${at}.to`, issues);
+    expectOneOf(t?.reason, ['completed', 'skipped', 'revisited'], `${at}.reason`, issues);
+    expectNumber(t?.messageIndex, `${at}.messageIndex`, issues, 0);
+  });
+}
+
+export function validateRubric(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectString(value.id, `${path}.id`, issues);
+  expectString(value.name, `${path}.name`, issues);
+  expectOneOf(value.category, ['technical', 'behavioral', 'scenario', 'hr-fit'], `${path}.category`, issues);
+  if (!Array.isArray(value.criteria) || value.criteria.length === 0) {
+    issues.push(`${path}.criteria must be a non-empty array`);
+    return;
+  }
+  const ids = new Set<unknown>();
+  value.criteria.forEach((c: any, i: number) => {
+    expectString(c?.id, `${path}.criteria[${i}].id`, issues);
+    expectString(c?.name, `${path}.criteria[${i}].name`, issues);
+    expectString(c?.description, `${path}.criteria[${i}].description`, issues);
+    expectNumber(c?.weight, `${path}.criteria[${i}].weight`, issues, 0);
+    if (ids.has(c?.id)) issues.push(`${path}.criteria[${i}].id "${c.id}" is used more than once`);
+    ids.add(c?.id);
+  });
+  if (value.criteria.every((c: any) => !(c?.weight > 0))) issues.push(`${path}.criteria must have at least one positive weight`);
+}
+
+export function validatePersona(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectString(value.id, `${path}.id`, issues);
+  expectString(value.name, `${path}.name`, issues);
+  if (typeof value.name === 'string' && !value.name.trim()) issues.push(`${path}.name must not be empty`);
+  expectString(value.tone, `${path}.tone`, issues);
+  expectOneOf(value.probingDepth, ['light', 'moderate', 'deep'], `${path}.probingDepth`, issues);
+  (['focusAreas', 'bannedTopics', 'openingLines', 'sampleQuestions'] as const).forEach(k =>
+    expectStringArray(value[k], `${path}.${k}`, issues));
+}
+
+function validatePanelist(value: unknown, path: string, issues: Issues): void {
+  (['id', 'name', 'title', 'personaId', 'focus'] as const).forEach(k => expectString(isObject(value) ? value[k] : undefined, `${path}.${k}`, issues));
+}
+
+export function validateInterviewConfig(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOneOf(value.difficulty, DIFFICULTIES, `${path}.difficulty`, issues);
+  expectOneOf(value.category, ['technical', 'behavioral', 'scenario', 'hr-fit'], `${path}.category`, issues);
+  expectOneOf(value.duration, ['15m', '30m', '60m'], `${path}.duration`, issues);
+  expectOneOf(value.style, ['faang', 'startup', 'service-based'], `${path}.style`, issues);
+  if (value.rubricId !== undefined) expectString(value.rubricId, `${path}.rubricId`, issues);
+  if (value.personaId !== undefined) expectString(value.personaId, `${path}.personaId`, issues);
+  if (value.hintPolicy !== undefined) expectOneOf(value.hintPolicy, HINT_POLICY_IDS, `${path}.hintPolicy`, issues);
+  if (value.panel !== undefined) {
+    if (!Array.isArray(value.panel) || value.panel.length < MIN_PANELISTS || value.panel.length > MAX_PANELISTS) {
+      issues.push(`${path}.panel must be an array of ${MIN_PANELISTS} to ${MAX_PANELISTS} panelists`);
+    } else value.panel.forEach((p: unknown, i: number) => validatePanelist(p, `${path}.panel[${i}]`, issues));
+  }
+  if (value.adaptive !== undefined) {
+    if (!isObject(value.adaptive)) issues.push(`${path}.adaptive must be an object`);
+    else {
+      expectOneOf(value.adaptive.min, DIFFICULTIES, `${path}.adaptive.min`, issues);
+      expectOneOf(value.adaptive.max, DIFFICULTIES, `${path}.adaptive.max`, issues);
+    }
+  }
+}
+
+export function validateJobDescription(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectString(value.title, `${path}.title`, issues);
+  expectOneOf(value.seniority, ['junior', 'mid', 'senior', 'staff', 'principal'], `${path}.seniority`, issues);
+  expectString(value.domain, `${path}.domain`, issues);
+  expectStringArray(value.requiredSkills, `${path}.requiredSkills`, issues);
+  expectStringArray(value.niceToHaveSkills, `${path}.niceToHaveSkills`, issues);
+}
+
+function validateSkillMatch(value: unknown, path: string, issues: Issues): void {
+  const m = isObject(value) ? value : {};
+  expectString(m.skill, `${path}.skill`, issues);
+  expectOneOf(m.importance, ['required', 'nice-to-have'], `${path}.importance`, issues);
+  expectOneOf(m.level, ['strong', 'partial', 'missing'], `${path}.level`, issues);
+  expectString(m.evidence, `${path}.evidence`, issues);
+}
+
+export function validateResumeAnalysis(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectStringArray(value.missingSkills, `${path}.missingSkills`, issues);
+  expectStringArray(value.followUpQuestions, `${path}.followUpQuestions`, issues);
+  if (value.skillMatrix !== undefined) {
+    if (!Array.isArray(value.skillMatrix)) issues.push(`${path}.skillMatrix must be an array`);
+    else value.skillMatrix.forEach((m: unknown, i: number) => validateSkillMatch(m, `${path}.skillMatrix[${i}]`, issues));
+  }
+  if (!isObject(value.skillMap)) {
+    issues.push(`${path}.skillMap must be an object`);
+    return;
+  }
+  (['dsa', 'systemDesign', 'communication'] as const).forEach(k =>
+    expectNumber(value.skillMap[k], `${path}.skillMap.${k}`, issues, 0, 100));
+}
+
+export function validateResumeProfile(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (!Array.isArray(value.roles)) issues.push(`${path}.roles must be an array`);
+  else value.roles.forEach((r: any, i: number) => {
+    const at = `${path}.roles[${i}]`;
+    expectString(r?.title, `${at}.title`, issues);
+    expectString(r?.organization, `${at}.organization`, issues);
+    if (r?.start !== null) expectString(r?.start, `${at}.start`, issues);
+    if (r?.end !== null) expectString(r?.end, `${at}.end`, issues);
+    expectStringArray(r?.highlights, `${at}.highlights`, issues);
+  });
+  if (!Array.isArray(value.projects)) issues.push(`${path}.projects must be an array`);
+  else value.projects.forEach((p: any, i: number) => {
+    expectString(p?.name, `${path}.projects[${i}].name`, issues);
+    expectString(p?.description, `${path}.projects[${i}].description`, issues);
+    expectStringArray(p?.technologies, `${path}.projects[${i}].technologies`, issues);
+  });
+  expectStringArray(value.technologies, `${path}.technologies`, issues);
+  expectStringArray(value.education, `${path}.education`, issues);
+  expectString(value.excerpt, `${path}.excerpt`, issues);
+  (['email', 'phone', 'address'] as const).forEach(k =>
+    expectNumber(isObject(value.redactions) ? value.redactions[k] : undefined, `${path}.redactions.${k}`, issues, 0));
+  if (value.sentUnredacted !== undefined && typeof value.sentUnredacted !== 'boolean') issues.push(`${path}.sentUnredacted must be a boolean`);
+}
+
+// The inputs server/ rebuilds prompts from. Anything a prompt builder doesn't
+// read is rejected, so a request can't carry extra instructions past the server.
+
+function validateTurns(value: unknown, path: string, issues: Issues): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+  value.forEach((t, i) => {
+    const at = `${path}[${i}]`;
+    if (!isObject(t)) {
+      issues.push(`${at} must be an object`);
+      return;
+    }
+    expectOnlyKeys(t, ['role', 'text', 'speakerId'], at, issues);
+    expectOneOf(t.role, ['interviewer', 'user'], `${at}.role`, issues);
+    expectString(t.text, `${at}.text`, issues);
+    if (t.speakerId !== undefined) expectString(t.speakerId, `${at}.speakerId`, issues);
+  });
+}
+
+function validatePanel(value: unknown, path: string, issues: Issues): void {
+  if (!Array.isArray(value)) issues.push(`${path} must be an array`);
+  else value.forEach((p, i) => validatePanelist(p, `${path}[${i}]`, issues));
+}
+
+function validateOptionalProfile(value: unknown, path: string, issues: Issues): void {
+  if (value !== null) validateResumeProfile(value, path, issues);
+}
+
+function validateInterviewerOptions(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOnlyKeys(value, ['timing', 'seedQuestion', 'plan', 'design', 'jobDescription', 'skillMatrix', 'persona', 'panelTurn', 'coveredCompetencies'], path, issues);
+  if (value.timing !== undefined) {
+    (['totalMs', 'elapsedMs', 'remainingMs'] as const).forEach(k =>
+      expectNumber(isObject(value.timing) ? value.timing[k] : undefined, `${path}.timing.${k}`, issues));
+  }
+  if (value.seedQuestion !== undefined) {
+    const q = isObject(value.seedQuestion) ? value.seedQuestion : {};
+    expectString(q.text, `${path}.seedQuestion.text`, issues);
+    if (q.follow_ups !== undefined) expectStringArray(q.follow_ups, `${path}.seedQuestion.follow_ups`, issues);
+  }
+  if (value.plan !== undefined) validateInterviewPlan(value.plan, `${path}.plan`, issues);
+  if (value.design !== undefined) validateDesignGraph(value.design, `${path}.design`, issues);
+  if (value.jobDescription !== undefined) validateJobDescription(value.jobDescription, `${path}.jobDescription`, issues);
+  if (value.skillMatrix !== undefined) {
+    if (!Array.isArray(value.skillMatrix)) issues.push(`${path}.skillMatrix must be an array`);
+    else value.skillMatrix.forEach((m: unknown, i: number) => validateSkillMatch(m, `${path}.skillMatrix[${i}]`, issues));
+  }
+  if (value.persona !== undefined) validatePersona(value.persona, `${path}.persona`, issues);
+  if (value.panelTurn !== undefined) {
+    const turn = isObject(value.panelTurn) ? value.panelTurn : {};
+    validatePanel(turn.panel, `${path}.panelTurn.panel`, issues);
+    validatePanelist(turn.speaker, `${path}.panelTurn.speaker`, issues);
+    if (turn.followUpOf !== undefined) validatePanelist(turn.followUpOf, `${path}.panelTurn.followUpOf`, issues);
+  }
+  if (value.coveredCompetencies !== undefined) expectStringArray(value.coveredCompetencies, `${path}.coveredCompetencies`, issues);
+}
+
+function validateCoachingRequest(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  expectOnlyKeys(value, ['kind', 'level', 'request', 'question', 'draft', 'earlier'], path, issues);
+  expectOneOf(value.kind, ['hint', 'clarification'], `${path}.kind`, issues);
+  if (value.level !== undefined) expectOneOf(value.level, ['nudge', 'approach', 'partial'], `${path}.level`, issues);
+  if (value.request !== undefined) expectString(value.request, `${path}.request`, issues);
+  expectString(value.question, `${path}.question`, issues);
+  if (value.draft !== undefined) expectString(value.draft, `${path}.draft`, issues);
+  if (!Array.isArray(value.earlier)) issues.push(`${path}.earlier must be an array`);
+  else value.earlier.forEach((e: any, i: number) => {
+    if (isObject(e)) expectOnlyKeys(e, ['kind', 'request', 'reply'], `${path}.earlier[${i}]`, issues);
+    expectOneOf(e?.kind, ['hint', 'clarification'], `${path}.earlier[${i}].kind`, issues);
+    if (e?.request !== undefined) expectString(e.request, `${path}.earlier[${i}].request`, issues);
+    expectString(e?.reply, `${path}.earlier[${i}].reply`, issues);
+  });
+}
+
+function validateCodingProblem(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  (['title', 'statement', 'functionName', 'signature'] as const).forEach(k => expectString(value[k], `${path}.${k}`, issues));
+  expectStringArray(value.constraints, `${path}.constraints`, issues);
+  (['javascript', 'typescript'] as const).forEach(k =>
+    expectString(isObject(value.starterCode) ? value.starterCode[k] : undefined, `${path}.starterCode.${k}`, issues));
+  (['examples', 'hiddenTests'] as const).forEach(k => {
+    if (!Array.isArray(value[k])) issues.push(`${path}.${k} must be an array`);
+    else value[k].forEach((t: any, i: number) => {
+      if (!Array.isArray(t?.args)) issues.push(`${path}.${k}[${i}].args must be an array`);
+      if (t?.explanation !== undefined) expectString(t.explanation, `${path}.${k}[${i}].explanation`, issues);
+    });
+  });
+}
+
+function validateTestResults(value: unknown, path: string, issues: Issues): void {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array`);
+    return;
+  }
+  value.forEach((r: any, i: number) => {
+    const at = `${path}[${i}]`;
+    expectNumber(r?.index, `${at}.index`, issues, 0);
+    if (typeof r?.passed !== 'boolean') issues.push(`${at}.passed must be a boolean`);
+    if (r?.error !== undefined) expectString(r.error, `${at}.error`, issues);
+    expectNumber(r?.durationMs, `${at}.durationMs`, issues, 0);
+    expectStringArray(r?.logs, `${at}.logs`, issues);
+  });
+}
+
+const PROMPT_INPUTS: Record<PromptInput['kind'], { keys: string[]; validate: (input: Record<string, any>, path: string, issues: Issues) => void }> = {
+  'analyze-job-description': {
+    keys: ['jd'],
+    validate: ({ jd }, path, issues) => {
+      if (!isObject(jd)) {
+        issues.push(`${path}.jd must be an object`);
+        return;
+      }
+      expectOnlyKeys(jd, ['text', 'file'], `${path}.jd`, issues);
+      if (jd.text !== undefined) expectString(jd.text, `${path}.jd.text`, issues);
+      if (jd.file !== undefined) {
+        expectString(jd.file?.data, `${path}.jd.file.data`, issues);
+        expectString(jd.file?.mimeType, `${path}.jd.file.mimeType`, issues);
+      }
+    },
+  },
+  'analyze-resume': {
+    keys: ['resumeText', 'targetRole', 'jobDescription', 'attachment'],
+    validate: (input, path, issues) => {
+      expectString(input.resumeText, `${path}.resumeText`, issues);
+      expectString(input.targetRole, `${path}.targetRole`, issues);
+      if (input.jobDescription !== undefined) validateJobDescription(input.jobDescription, `${path}.jobDescription`, issues);
+      if (input.attachment !== undefined) {
+        if (!isObject(input.attachment)) issues.push(`${path}.attachment must be an object`);
+        else {
+          expectOnlyKeys(input.attachment, ['data', 'mimeType'], `${path}.attachment`, issues);
+          expectString(input.attachment.data, `${path}.attachment.data`, issues);
+          expectOneOf(input.attachment.mimeType, ATTACHABLE_RESUME_TYPES, `${path}.attachment.mimeType`, issues);
+        }
+      }
+    },
+  },
+  'interviewer-turn': {
+    keys: ['config', 'history', 'role', 'resume', 'options'],
+    validate: (input, path, issues) => {
+      validateInterviewConfig(input.config, `${path}.config`, issues);
+      validateTurns(input.history, `${path}.history`, issues);
+      expectString(input.role, `${path}.role`, issues);
+      validateOptionalProfile(input.resume, `${path}.resume`, issues);
+      validateInterviewerOptions(input.options, `${path}.options`, issues);
+    },
+  },
+  'panel-coordinator': {
+    keys: ['panel', 'history', 'role'],
+    validate: (input, path, issues) => {
+      validatePanel(input.panel, `${path}.panel`, issues);
+      validateTurns(input.history, `${path}.history`, issues);
+      expectString(input.role, `${path}.role`, issues);
+    },
+  },
+  'coaching': {
+    keys: ['coaching', 'role', 'category'],
+    validate: (input, path, issues) => {
+      validateCoachingRequest(input.coaching, `${path}.coaching`, issues);
+      expectString(input.role, `${path}.role`, issues);
+      expectOneOf(input.category, ['technical', 'behavioral', 'scenario', 'hr-fit'], `${path}.category`, issues);
+    },
+  },
+  'evaluate-answer': {
+    keys: ['question', 'answer', 'role', 'rubric', 'delivery', 'panel'],
+    validate: (input, path, issues) => {
+      (['question', 'answer', 'role'] as const).forEach(k => expectString(input[k], `${path}.${k}`, issues));
+      validateRubric(input.rubric, `${path}.rubric`, issues);
+      if (input.delivery !== undefined) validateDeliveryMetrics(input.delivery, `${path}.delivery`, issues);
+      if (input.panel !== undefined) validatePanel(input.panel, `${path}.panel`, issues);
+    },
+  },
+  'question-bank': {
+    keys: ['role', 'resume', 'config', 'count'],
+    validate: (input, path, issues) => {
+      expectString(input.role, `${path}.role`, issues);
+      validateOptionalProfile(input.resume, `${path}.resume`, issues);
+      validateInterviewConfig(input.config, `${path}.config`, issues);
+      expectNumber(input.count, `${path}.count`, issues, 1, 50);
+    },
+  },
+  'coding-problem': {
+    keys: ['role', 'config', 'resume'],
+    validate: (input, path, issues) => {
+      expectString(input.role, `${path}.role`, issues);
+      validateInterviewConfig(input.config, `${path}.config`, issues);
+      validateOptionalProfile(input.resume, `${path}.resume`, issues);
+    },
+  },
+  'evaluate-code': {
+    keys: ['problem', 'code', 'language', 'results', 'role'],
+    validate: (input, path, issues) => {
+      validateCodingProblem(input.problem, `${path}.problem`, issues);
+      expectString(input.code, `${path}.code`, issues);
+      expectOneOf(input.language, ['javascript', 'typescript'], `${path}.language`, issues);
+      validateTestResults(input.results, `${path}.results`, issues);
+      expectString(input.role, `${path}.role`, issues);
+    },
+  },
+  'evaluate-design': {
+    keys: ['question', 'answer', 'design', 'role'],
+    validate: (input, path, issues) => {
+      (['question', 'answer', 'role'] as const).forEach(k => expectString(input[k], `${path}.${k}`, issues));
+      validateDesignGraph(input.design, `${path}.design`, issues);
+    },
+  },
+  'session-debrief': {
+    keys: ['messages', 'analysis', 'scores', 'role', 'config'],
+    validate: (input, path, issues) => {
+      validateTurns(input.messages, `${path}.messages`, issues);
+      if (input.analysis !== null) validateResumeAnalysis(input.analysis, `${path}.analysis`, issues);
+      if (!isObject(input.scores)) issues.push(`${path}.scores must be an object`);
+      else Object.entries(input.scores).forEach(([i, score]) => expectNumber(score, `${path}.scores.${i}`, issues, 0, 10));
+      expectString(input.role, `${path}.role`, issues);
+      validateInterviewConfig(input.config, `${path}.config`, issues);
+    },
+  },
+};
+
+export function validatePromptInput(value: unknown, path: string, issues: Issues): void {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object`);
+    return;
+  }
+  if (typeof value.kind !== 'string' || !Object.hasOwn(PROMPT_INPUTS, value.kind)) {
+    expectOneOf(value.kind, Object.keys(PROMPT_INPUTS), `${path}.kind`, issues);
+    return;
+  }
+  const spec = PROMPT_INPUTS[value.kind as PromptInput['kind']];
+  expectOnlyKeys(value, ['kind', ...spec.keys], path, issues);
+  spec.validate(value, path, issues);
+}
+
+// Convenience wrapper: run a validator and throw a ValidationError if anything failed.
+export function assertValid<T>(
+  value: unknown,
+  validate: (value: unknown, path: string, issues: Issues) => void,
+  subject: string,
+  path = '$'
+): T {
+  const issues: Issues = [];
+  validate(value, path, issues);
+  if (issues.length > 0) throw new ValidationError(issues, subject);
+  return value as T;
+}
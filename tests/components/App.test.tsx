@@ -0,0 +1,81 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen, waitFor } from '@testing-library/react';
+import App from '../../App';
+import { downloadFile } from '../../services/download';
+import { loadReviewCards } from '../../services/practice';
+import { listSessions } from '../../services/sessionStore';
+import { useCassettes } from '../support/cassettes';
+
+// jsdom can't download or print; the export test checks what would have been saved.
+vi.mock('../../services/download', () => ({ downloadFile: vi.fn(), printHtml: vi.fn() }));
+
+const play = useCassettes('app');
+
+const RESUME = `Frontend Engineer, 6 years.
+Led the migration of a React 16 checkout to React 18 with Suspense, cutting bundle size 38%.
+Built a TypeScript design system used by 40 engineers.`;
+const OPENER = "Thanks for joining today. To start, walk me through your background and what you're working on now.";
+const ANSWER = 'I lead the checkout team. Most recently I moved our checkout to React 18 and split the bundle by step.';
+
+const launch = (resume = RESUME) => {
+  fireEvent.change(screen.getByPlaceholderText(/manually describe your core experience/), { target: { value: resume } });
+  fireEvent.click(screen.getByRole('button', { name: 'Launch AI Assessment' }));
+};
+
+describe('landing', () => {
+  it('asks for a resume before starting', () => {
+    render(<App />);
+    launch('');
+    expect(screen.getByText('Please provide a role and a resume to continue.')).toBeTruthy();
+  });
+
+  it('stays on the landing page and shows why when the analysis is unusable', async () => {
+    play('analysis-invalid');
+    render(<App />);
+    launch();
+    expect(await screen.findByText(/didn't have the expected shape\. \(analyze-resume\)/)).toBeTruthy();
+    expect(screen.getByRole('button', { name: 'Launch AI Assessment' })).toBeTruthy();
+  });
+});
+
+describe('dashboard', () => {
+  it('runs an interview from start to exported report', async () => {
+    play('interview-flow');
+    render(<App />);
+
+    // handleStart: the analysis lands and the interviewer opens the plan's intro.
+    launch();
+    expect(await screen.findByText(OPENER)).toBeTruthy();
+    expect(screen.getByText('Active Session: Senior Frontend Developer')).toBeTruthy();
+    expect(screen.getByText('background')).toBeTruthy();
+
+    // handleSendMessage: the answer goes into the transcript and the interviewer moves on.
+    fireEvent.change(screen.getByPlaceholderText(/Articulate your response/), { target: { value: ANSWER } });
+    fireEvent.click(screen.getByRole('button', { name: 'TRANSMIT' }));
+    expect(screen.getByText(ANSWER)).toBeTruthy();
+    expect(await screen.findByText(/How would you design the schema for a checkout that several clients share\?/)).toBeTruthy();
+
+    // handleEvaluate: the answer is graded against the opener, not the follow-up.
+    fireEvent.click(screen.getByRole('button', { name: 'EVALUATE' }));
+    expect(await screen.findByText('5.8/10')).toBeTruthy();
+    expect(screen.getByText('This question is now in your Daily Drill practice queue')).toBeTruthy();
+    expect(loadReviewCards().map(c => c.question)).toEqual([OPENER]);
+
+    // handleExport: the Markdown report carries the exchange and its score.
+    fireEvent.click(screen.getByRole('button', { name: 'REPORT' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Markdown (.md)' }));
+    expect(downloadFile).toHaveBeenCalledWith('InterviewGen_Report_Senior_Frontend_Developer.md', expect.any(String), 'text/markdown');
+    const markdown = vi.mocked(downloadFile).mock.calls[0][1];
+    expect(markdown).toContain(`### 1. Question\n\n> ${OPENER}`);
+    expect(markdown).toContain(ANSWER);
+    expect(markdown).toContain('**Score:** 5.8/10');
+
+    await waitFor(async () => {
+      const [saved] = await listSessions();
+      expect(saved?.messages).toHaveLength(3);
+      expect(saved?.evaluationHistory[1]?.score).toBe(5.8);
+    });
+  });
+});
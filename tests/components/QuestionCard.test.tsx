@@ -0,0 +1,50 @@
+// @vitest-environment jsdom
+import React from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { fireEvent, render, screen } from '@testing-library/react';
+import QuestionCard from '../../components/QuestionCard';
+import { InterviewQuestion } from '../../types';
+
+const question: InterviewQuestion = {
+  text: 'Design the theming layer for a design system shared by several product teams.',
+  type: 'system-design',
+  difficulty: 'hard',
+  skills: ['Design systems', 'CSS architecture'],
+  rationale: 'They built a design system but describe no theming work.',
+  follow_ups: ['How do teams override a token safely?', 'How do you version breaking visual changes?'],
+};
+
+describe('QuestionCard', () => {
+  it('shows the question with its type, difficulty, skills, rationale and follow-ups', () => {
+    render(<QuestionCard question={question} />);
+    expect(screen.getByRole('heading', { level: 3 })).toHaveProperty('textContent', question.text);
+    expect(screen.getByText('system design')).toBeTruthy();
+    expect(screen.getByText('🏗️')).toBeTruthy();
+    expect(screen.getByText('HARD')).toBeTruthy();
+    expect(screen.getByText('Design systems')).toBeTruthy();
+    expect(screen.getByText('CSS architecture')).toBeTruthy();
+    expect(screen.getByText(question.rationale)).toBeTruthy();
+    expect(screen.getAllByRole('listitem').map(li => li.textContent)).toEqual(question.follow_ups!.map(f => `•${f}`));
+  });
+
+  it('leaves out the follow-ups and actions when there are none', () => {
+    render(<QuestionCard question={{ ...question, type: 'puzzle', follow_ups: [] }} />);
+    expect(screen.queryByText('Follow-ups')).toBeNull();
+    expect(screen.queryByRole('button')).toBeNull();
+    // Types the card doesn't know still render, with a placeholder icon.
+    expect(screen.getByText('❓')).toBeTruthy();
+  });
+
+  it('pins and starts through its callbacks', () => {
+    const onTogglePin = vi.fn();
+    const onStart = vi.fn();
+    const { rerender } = render(<QuestionCard question={question} onTogglePin={onTogglePin} onStart={onStart} />);
+    fireEvent.click(screen.getByRole('button', { name: '☆ Pin for practice' }));
+    expect(onTogglePin).toHaveBeenCalledOnce();
+
+    rerender(<QuestionCard question={question} pinned onTogglePin={onTogglePin} onStart={onStart} />);
+    expect(screen.getByRole('button', { name: '★ Pinned' })).toBeTruthy();
+    fireEvent.click(screen.getByRole('button', { name: 'Start interview' }));
+    expect(onStart).toHaveBeenCalledOnce();
+  });
+});
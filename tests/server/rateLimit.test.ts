@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { clientKey, createRateLimiter } from '../../server/src/rateLimit';
+
+const request = (remoteAddress: string, forwardedFor?: string) => ({
+  socket: { remoteAddress },
+  headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor },
+}) as unknown as Parameters<typeof clientKey>[0];
+
+describe('clientKey', () => {
+  it('uses the address the dev proxy appended, not what the client claimed', () => {
+    expect(clientKey(request('127.0.0.1', '198.51.100.1, 203.0.113.7'))).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Forwarded-For from a client that is not the local proxy', () => {
+    expect(clientKey(request('203.0.113.7', '198.51.100.1'))).toBe('203.0.113.7');
+  });
+
+  it('falls back to the socket address without a forwarded header', () => {
+    expect(clientKey(request('::1'))).toBe('::1');
+  });
+
+  it("doesn't let a fresh spoofed header buy a fresh bucket", () => {
+    const limiter = createRateLimiter(3);
+    const waits = Array.from({ length: 5 }, (_, i) =>
+      limiter.take(clientKey(request('127.0.0.1', `10.0.0.${i}, 203.0.113.7`)), 0));
+    expect(waits.slice(0, 3)).toEqual([0, 0, 0]);
+    expect(waits[3]).toBeGreaterThan(0);
+    expect(waits[4]).toBeGreaterThan(0);
+  });
+});
+
+describe('createRateLimiter', () => {
+  it('allows a burst, then says how long until the next token', () => {
+    const limiter = createRateLimiter(60, 2);
+    expect([limiter.take('a', 0), limiter.take('a', 0), limiter.take('a', 0)]).toEqual([0, 0, 1000]);
+    expect(limiter.take('a', 400)).toBe(600);
+  });
+
+  it('refills evenly over the minute, up to the burst', () => {
+    const limiter = createRateLimiter(60, 2);
+    limiter.take('a', 0);
+    limiter.take('a', 0);
+    expect(limiter.take('a', 1000)).toBe(0);
+    expect(limiter.take('a', 1000)).toBeGreaterThan(0);
+    // A long idle spell still only buys the burst.
+    expect([limiter.take('a', 600_000), limiter.take('a', 600_000), limiter.take('a', 600_000)]).toEqual([0, 0, 1000]);
+  });
+
+  it('keeps a separate bucket per client', () => {
+    const limiter = createRateLimiter(1);
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('b', 0)).toBe(0);
+    expect(limiter.take('a', 0)).toBe(60_000);
+  });
+
+  it("doesn't prune a client that is still waiting on a refill", () => {
+    const limiter = createRateLimiter(60, 1);
+    limiter.take('a', 0);
+    limiter.prune(500);
+    expect(limiter.take('a', 500)).toBe(500);
+  });
+});
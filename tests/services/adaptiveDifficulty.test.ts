@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { applyScore, clampDifficulty, createAdaptiveState } from '../../services/adaptiveDifficulty';
+import { AdaptiveState, Difficulty } from '../../types';
+
+const FULL_RANGE = { min: 'beginner', max: 'advanced' } as const;
+
+// Feeds scores to consecutive answers (1, 3, 5, ...) and tracks the difficulty they lead to.
+function run(scores: number[], start: Difficulty = 'intermediate', bounds: { min: Difficulty; max: Difficulty } = FULL_RANGE) {
+  let state: AdaptiveState = createAdaptiveState(start);
+  let difficulty = start;
+  scores.forEach((score, i) => ({ state, difficulty } = applyScore(state, difficulty, bounds, i * 2 + 1, score, i)));
+  return { state, difficulty };
+}
+
+describe('applyScore', () => {
+  it('keeps a running estimate weighted towards the latest answer', () => {
+    expect(run([6]).state.estimate).toBe(6);
+    expect(run([6, 8]).state.estimate).toBe(7);
+    expect(run([6, 8, 3]).state.estimate).toBe(5);
+  });
+
+  it('waits for enough answers at a level before raising it', () => {
+    expect(run([9]).difficulty).toBe('intermediate');
+    const { state, difficulty } = run([9, 9]);
+    expect(difficulty).toBe('advanced');
+    expect(state.answersSinceChange).toBe(0);
+    expect(state.adjustments).toEqual([expect.objectContaining({ answerIndex: 3, from: 'intermediate', to: 'advanced', score: 9, estimate: 9 })]);
+  });
+
+  it('lowers the level after weak answers', () => {
+    expect(run([3, 4]).difficulty).toBe('beginner');
+    expect(run([3, 4]).state.adjustments[0].reason).toContain('at or below the lower threshold of 4.5');
+  });
+
+  it('stays put between the thresholds', () => {
+    const { state, difficulty } = run([6, 7, 5, 6]);
+    expect(difficulty).toBe('intermediate');
+    expect(state.adjustments).toEqual([]);
+  });
+
+  it('never leaves the configured bounds', () => {
+    expect(run([10, 10, 10, 10], 'intermediate', { min: 'beginner', max: 'intermediate' }).difficulty).toBe('intermediate');
+    expect(run([0, 0, 0, 0], 'advanced', { min: 'intermediate', max: 'advanced' }).difficulty).toBe('intermediate');
+  });
+
+  it('ignores an answer scored twice', () => {
+    const first = applyScore(createAdaptiveState('intermediate'), 'intermediate', FULL_RANGE, 1, 9);
+    expect(applyScore(first.state, first.difficulty, FULL_RANGE, 1, 2)).toEqual(first);
+  });
+});
+
+describe('clampDifficulty', () => {
+  it('pulls a level into range, and treats an inverted range as its minimum', () => {
+    expect(clampDifficulty('advanced', 'beginner', 'intermediate')).toBe('intermediate');
+    expect(clampDifficulty('beginner', 'intermediate', 'advanced')).toBe('intermediate');
+    expect(clampDifficulty('beginner', 'advanced', 'intermediate')).toBe('advanced');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { applyHintPenalty, describeHintPenalty, nextHintLevel } from '../../services/coaching';
+import { CoachingExchange, EvaluationResult } from '../../types';
+
+const result: EvaluationResult = { score: 8, feedback: 'Solid.', improvement_tips: [], model_answer_outline: '' };
+const hint = (level: CoachingExchange['level'], questionIndex = 2): CoachingExchange => ({ kind: 'hint', level, reply: '…', questionIndex, at: 0 });
+const clarification = (questionIndex = 2): CoachingExchange => ({ kind: 'clarification', request: 'Scope?', reply: '…', questionIndex, at: 0 });
+
+describe('applyHintPenalty', () => {
+  it('leaves an answer without coaching untouched', () => {
+    expect(applyHintPenalty(result, [hint('nudge', 4)], 2)).toBe(result);
+  });
+
+  it('deducts each hint at its level, and records the score before', () => {
+    const penalised = applyHintPenalty(result, [hint('nudge'), hint('approach')], 2);
+    expect(penalised.score).toBe(6);
+    expect(penalised.hintPenalty).toEqual({ policy: 'standard', hints: ['nudge', 'approach'], clarifications: 0, points: 2, rawScore: 8 });
+    expect(describeHintPenalty(penalised.hintPenalty!)).toBe('Coaching used (Nudge, Approach): −2 under the standard policy, from 8/10');
+  });
+
+  it('charges clarifications only where the policy does', () => {
+    expect(applyHintPenalty(result, [clarification()], 2, 'standard').score).toBe(8);
+    expect(applyHintPenalty(result, [clarification(), hint('nudge')], 2, 'strict').hintPenalty).toMatchObject({ clarifications: 1, points: 1.5 });
+  });
+
+  it('caps the penalty and never goes below zero', () => {
+    const all = [hint('nudge'), hint('approach'), hint('partial')];
+    expect(applyHintPenalty(result, all, 2, 'standard')).toMatchObject({ score: 3, hintPenalty: { points: 5 } });
+    expect(applyHintPenalty({ ...result, score: 2 }, all, 2, 'strict')).toMatchObject({ score: 0, hintPenalty: { points: 6 } });
+  });
+
+  it('records coaching even when the policy makes it free', () => {
+    const free = applyHintPenalty(result, [hint('partial')], 2, 'off');
+    expect(free).toMatchObject({ score: 8, hintPenalty: { points: 0, hints: ['partial'] } });
+    expect(describeHintPenalty(free.hintPenalty!)).toBe('Coaching used (Partial Answer): no penalty under the off policy');
+  });
+});
+
+describe('nextHintLevel', () => {
+  it('escalates past the last hint on the question, and stops after the partial answer', () => {
+    expect(nextHintLevel([], 2)).toBe('nudge');
+    expect(nextHintLevel([hint('approach'), clarification()], 2)).toBe('partial');
+    expect(nextHintLevel([hint('partial')], 2)).toBeNull();
+    expect(nextHintLevel([hint('partial', 4)], 2)).toBe('nudge');
+  });
+});
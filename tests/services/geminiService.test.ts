@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeResume, evaluateAnswer, generateCodingProblem, generateQuestionBank, generateSessionDebrief,
+  getCoachingReply, streamNextInterviewerMessage,
+} from '../../services/geminiService';
+import { DEFAULT_RUBRICS } from '../../services/rubrics';
+import { ingestResumeText } from '../../services/resumeIngestion';
+import { ChatMessage, InterviewConfig, JobDescriptionAnalysis, ResumeAnalysis } from '../../types';
+import { useCassettes } from '../support/cassettes';
+
+const play = useCassettes('geminiService');
+
+const ROLE = 'Senior Frontend Developer';
+const RESUME = `Jordan Lee - jordan.lee@example.com - +1 415 555 0142
+Frontend Engineer, 6 years.
+Led the migration of a React 16 checkout to React 18 with Suspense, cutting bundle size 38%.
+Built a TypeScript design system used by 40 engineers. Mentored 3 junior developers.
+Some Node.js/Express BFF work.`;
+const CONFIG: InterviewConfig = { difficulty: 'intermediate', category: 'technical', duration: '30m', style: 'faang' };
+const QUESTION = 'How does React decide what to re-render, and how would you stop unnecessary renders?';
+const ANSWER = 'React diffs the new tree against the old one and uses keys to match list items. To stop re-renders I wrap expensive values in useMemo.';
+
+describe('analyzeResume', () => {
+  it('returns the gaps, follow-ups and skill map', async () => {
+    play('analyze-resume');
+    const analysis = await analyzeResume(RESUME, ROLE);
+    expect(analysis.missingSkills).toEqual(['Web performance profiling', 'Accessibility (WCAG 2.1)', 'GraphQL']);
+    expect(analysis.followUpQuestions).toHaveLength(3);
+    expect(analysis.skillMap).toEqual({ dsa: 55, systemDesign: 68, communication: 82 });
+  });
+
+  it('builds one matrix row per job description skill and ranks the gaps', async () => {
+    play('analyze-resume-with-jd');
+    const jd: JobDescriptionAnalysis = {
+      title: 'Senior Frontend Engineer',
+      seniority: 'senior',
+      domain: 'E-commerce',
+      requiredSkills: ['React', 'TypeScript', 'GraphQL'],
+      niceToHaveSkills: ['Accessibility', 'Web Workers'],
+    };
+    const analysis = await analyzeResume(RESUME, ROLE, jd);
+    expect(analysis.skillMatrix?.map(m => [m.skill, m.importance, m.level])).toEqual([
+      ['React', 'required', 'strong'],
+      ['TypeScript', 'required', 'strong'],
+      ['GraphQL', 'required', 'missing'],
+      ['Accessibility', 'nice-to-have', 'partial'],
+      ['Web Workers', 'nice-to-have', 'missing'],
+    ]);
+    // The model skipped Web Workers; it counts as unproven rather than disappearing.
+    expect(analysis.skillMatrix?.[4].evidence).toBe('Not assessed.');
+    expect(analysis.missingSkills[0]).toBe('GraphQL');
+    expect(analysis.missingSkills).toEqual(expect.arrayContaining(['Accessibility', 'Web Workers']));
+  });
+});
+
+describe('evaluateAnswer', () => {
+  it('weights the rubric criteria into the overall score', async () => {
+    play('evaluate-answer');
+    const result = await evaluateAnswer(QUESTION, ANSWER, ROLE, DEFAULT_RUBRICS.technical);
+    // (6 × 35 + 5 × 30 + 4 × 15 + 8 × 20) / 100
+    expect(result.score).toBe(5.8);
+    expect(result.rubricId).toBe('default-technical');
+    expect(result.criteria?.map(c => c.criterionId)).toEqual(['correctness', 'depth', 'trade-offs', 'clarity']);
+    expect(result.categoryDetails).toEqual({
+      category: 'technical',
+      conceptsCovered: ['Reconciliation', 'Keys in lists'],
+      misconceptions: ['useMemo on its own does not stop a child component from re-rendering.'],
+    });
+  });
+
+  it('repairs a fenced reply with trailing commas', async () => {
+    play('evaluate-answer-fenced');
+    const result = await evaluateAnswer('Explain the event loop.', 'The call stack runs tasks...', ROLE, DEFAULT_RUBRICS.technical);
+    expect(result.feedback).toMatch(/event loop/);
+    expect(result.improvement_tips).toEqual(['Mention how long tasks block rendering.']);
+    expect(result.score).toBe(8.1);
+  });
+
+  it('re-asks once when a criterion score is out of range', async () => {
+    play('evaluate-answer-reask');
+    const result = await evaluateAnswer('How do you avoid layout thrashing?', 'Batch DOM reads...', ROLE, DEFAULT_RUBRICS.technical);
+    // Only the criteria the model scored count: (10 × 35 + 7 × 30) / 65
+    expect(result.score).toBe(8.6);
+    expect(result.criteria).toHaveLength(2);
+  });
+});
+
+describe('streamNextInterviewerMessage', () => {
+  it('delivers the reply chunk by chunk and resolves with the whole text', async () => {
+    play('interviewer-turn');
+    const chunks: string[] = [];
+    const text = await streamNextInterviewerMessage(CONFIG, [], ROLE, ingestResumeText(RESUME).profile, {}, {
+      onChunk: (chunk) => chunks.push(chunk),
+    });
+    expect(chunks).toHaveLength(3);
+    expect(text).toBe(chunks.join(''));
+    expect(text).toMatch(/^Thanks for joining today\./);
+  });
+
+  it('rejects when the stream is aborted', async () => {
+    play('interviewer-turn');
+    const controller = new AbortController();
+    const chunks: string[] = [];
+    const turn = streamNextInterviewerMessage(CONFIG, [], ROLE, null, {}, {
+      signal: controller.signal,
+      onChunk: (chunk) => {
+        chunks.push(chunk);
+        controller.abort();
+      },
+    });
+    await expect(turn).rejects.toThrow();
+    expect(chunks).toHaveLength(1);
+  });
+});
+
+describe('generateQuestionBank', () => {
+  it('keeps no more questions than were asked for', async () => {
+    play('question-bank');
+    const questions = await generateQuestionBank(ROLE, ingestResumeText(RESUME).profile, CONFIG, 2);
+    expect(questions.map(q => q.type)).toEqual(['technical', 'system-design']);
+  });
+});
+
+describe('generateCodingProblem', () => {
+  it('parses the test cases and drops the ones that are not valid JSON', async () => {
+    play('coding-problem');
+    const problem = await generateCodingProblem(ROLE, CONFIG, null);
+    expect(problem.functionName).toBe('mergeSlots');
+    expect(problem.examples[0]).toEqual({ args: [[[1, 3], [2, 6], [8, 10]]], expected: [[1, 6], [8, 10]], explanation: '[1,3] and [2,6] overlap.' });
+    expect(problem.hiddenTests).toHaveLength(3);
+  });
+});
+
+describe('getCoachingReply', () => {
+  it('returns the coach reply as text', async () => {
+    play('coaching');
+    const reply = await getCoachingReply({ kind: 'hint', level: 'nudge', question: QUESTION, earlier: [] }, ROLE, 'technical');
+    expect(reply).toMatch(/useMemo/);
+  });
+
+  it('fails loudly when the fixture has no reply left', async () => {
+    play('coaching');
+    await getCoachingReply({ kind: 'hint', level: 'nudge', question: QUESTION, earlier: [] }, ROLE, 'technical');
+    await expect(getCoachingReply({ kind: 'hint', level: 'approach', question: QUESTION, earlier: [] }, ROLE, 'technical'))
+      .rejects.toThrow('No recorded reply left for coaching');
+  });
+});
+
+describe('generateSessionDebrief', () => {
+  it('gives every flagged skill exactly one row', async () => {
+    play('session-debrief');
+    const analysis: ResumeAnalysis = {
+      missingSkills: ['Web performance profiling', 'GraphQL'],
+      followUpQuestions: [
+        'Walk me through how you measured the bundle-size reduction in the checkout migration.',
+        'What would you change about the Express BFF if traffic grew tenfold?',
+      ],
+      skillMap: { dsa: 55, systemDesign: 68, communication: 82 },
+    };
+    const messages: ChatMessage[] = [
+      { role: 'interviewer', text: QUESTION },
+      { role: 'user', text: ANSWER },
+    ];
+    const debrief = await generateSessionDebrief(messages, analysis, {}, ROLE, CONFIG);
+    expect(debrief.signal).toBe('hire');
+    expect(debrief.skillCoverage).toEqual([
+      { skill: 'Web performance profiling', covered: true, evidence: 'Described measuring the bundle with source-map-explorer.' },
+      { skill: 'GraphQL', covered: false, evidence: 'Not discussed.' },
+    ]);
+    expect(debrief.unprobedFollowUps).toEqual(['What would you change about the Express BFF if traffic grew tenfold?']);
+    expect(debrief.messageCount).toBe(2);
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { activePlanItem, buildInterviewPlan, moveToPhase, phaseJustStarted, recordPlanAnswer } from '../../services/interviewPlan';
+import { InterviewConfig, InterviewPlan } from '../../types';
+
+const config: InterviewConfig = { difficulty: 'intermediate', category: 'technical', duration: '15m', style: 'faang' };
+// 15 minutes: intro, two core topics of two answers each, one deep-dive question, their questions.
+const plan = buildInterviewPlan(config, {
+  missingSkills: ['GraphQL', 'Accessibility'],
+  followUpQuestions: ['How do you test for keyboard access?'],
+  skillMap: { dsa: 50, systemDesign: 50, communication: 50 },
+});
+const statuses = (p: InterviewPlan) => Object.fromEntries(p.items.map(i => [i.id, i.status]));
+
+describe('recordPlanAnswer', () => {
+  it('credits the active topic until it has its answers, then moves to the next topic', () => {
+    const intro = recordPlanAnswer(plan, 1, 10);
+    expect(intro).toMatchObject({ phase: 'core', activeItemId: 'core-1' });
+    expect(intro.transitions).toEqual([{ from: 'intro', to: 'core', reason: 'completed', messageIndex: 2, at: 10 }]);
+
+    const once = recordPlanAnswer(intro, 3, 20);
+    expect(activePlanItem(once)).toMatchObject({ id: 'core-1', answers: [3], status: 'pending' });
+    const twice = recordPlanAnswer(once, 5, 30);
+    expect(twice).toMatchObject({ phase: 'core', activeItemId: 'core-2' });
+    expect(statuses(twice)['core-1']).toBe('covered');
+  });
+
+  it('ignores an answer it has already counted', () => {
+    const once = recordPlanAnswer(recordPlanAnswer(plan, 1), 3);
+    expect(recordPlanAnswer(once, 3)).toBe(once);
+  });
+
+  it('ends in the close phase once every topic is covered', () => {
+    let p = plan;
+    for (let i = 1; p.phase !== 'close' && i < 40; i += 2) p = recordPlanAnswer(p, i);
+    expect(p.phase).toBe('close');
+    expect(p.items.every(i => i.status === 'covered')).toBe(true);
+  });
+});
+
+describe('moveToPhase', () => {
+  it('skips the pending topics passed over', () => {
+    const moved = moveToPhase(plan, 'deep-dive', 3, 50);
+    expect(moved).toMatchObject({ phase: 'deep-dive', activeItemId: 'deep-dive-1' });
+    expect(statuses(moved)).toMatchObject({ 'intro-1': 'skipped', 'core-1': 'skipped', 'core-2': 'skipped', 'deep-dive-1': 'pending' });
+    expect(moved.transitions).toEqual([{ from: 'intro', to: 'deep-dive', reason: 'skipped', messageIndex: 3, at: 50 }]);
+    expect(phaseJustStarted(moved, 3)).toBe(true);
+    expect(phaseJustStarted(moved, 4)).toBe(false);
+  });
+
+  it('reopens skipped topics when a phase is revisited', () => {
+    const covered = recordPlanAnswer(recordPlanAnswer(recordPlanAnswer(plan, 1), 3), 5);
+    const back = moveToPhase(moveToPhase(covered, 'close', 7), 'core', 9);
+    expect(back).toMatchObject({ phase: 'core', activeItemId: 'core-2' });
+    expect(statuses(back)).toMatchObject({ 'core-1': 'covered', 'core-2': 'pending', 'deep-dive-1': 'skipped' });
+    expect(back.transitions.at(-1)).toMatchObject({ from: 'close', to: 'core', reason: 'revisited', messageIndex: 9 });
+  });
+
+  it('gives a revisited topic that was covered one more answer', () => {
+    const covered = recordPlanAnswer(recordPlanAnswer(recordPlanAnswer(plan, 1), 3), 5);
+    const back = moveToPhase(moveToPhase(covered, 'close', 7), 'intro', 9);
+    expect(back.activeItemId).toBe('intro-1');
+    const answered = recordPlanAnswer(back, 10);
+    expect(answered.items[0]).toMatchObject({ answers: [1, 10], status: 'covered' });
+    // Everything after the intro was skipped on the way to close, so that is where it returns.
+    expect(answered.phase).toBe('close');
+  });
+
+  it('does nothing when already in the phase', () => {
+    expect(moveToPhase(plan, 'intro', 0)).toBe(plan);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { enforceTurnLimits, rotateSpeaker } from '../../services/panel';
+import { ChatMessage, Panelist } from '../../types';
+
+const panel: Panelist[] = ['ana', 'ben', 'cy'].map(id => ({ id, name: id, title: 'Engineer', personaId: 'faang', focus: '' }));
+const [ana, ben, cy] = panel;
+
+// Interviewer turns by the given speakers, each answered by the candidate.
+const history = (...speakers: string[]): ChatMessage[] =>
+  speakers.flatMap(speakerId => [{ role: 'interviewer' as const, text: 'Q', speakerId }, { role: 'user' as const, text: 'A' }]);
+
+describe('enforceTurnLimits', () => {
+  it('accepts a pick that has not had too many turns in a row', () => {
+    expect(enforceTurnLimits(panel, [], ana)).toBe(ana);
+    expect(enforceTurnLimits(panel, history('ben', 'ana'), ana)).toBe(ana);
+    expect(enforceTurnLimits(panel, history('ana', 'ben', 'ana'), ana)).toBe(ana);
+  });
+
+  it('hands the turn to whoever has spoken least once the limit is reached', () => {
+    expect(enforceTurnLimits(panel, history('cy', 'ana', 'ana'), ana)).toBe(ben);
+    expect(enforceTurnLimits(panel, history('ben', 'ben', 'cy', 'ana', 'ana'), ana)).toBe(cy);
+  });
+
+  it('breaks ties by seating order', () => {
+    expect(enforceTurnLimits(panel, history('cy', 'cy'), cy)).toBe(ana);
+  });
+
+  it('only counts turns from panel mode', () => {
+    const early: ChatMessage[] = [{ role: 'interviewer', text: 'Q' }, { role: 'user', text: 'A' }];
+    expect(enforceTurnLimits(panel, [...early, ...history('ana')], ana)).toBe(ana);
+  });
+});
+
+describe('rotateSpeaker', () => {
+  it('starts with the first panelist and wraps around', () => {
+    expect(rotateSpeaker(panel, [])).toBe(ana);
+    expect(rotateSpeaker(panel, history('ana'))).toBe(ben);
+    expect(rotateSpeaker(panel, history('cy'))).toBe(ana);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { addCardFromEvaluation, dueCards, qualityFromScore, reviewCard } from '../../services/practice';
+import { EvaluationResult, ReviewCard } from '../../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const evaluation = (score: number): EvaluationResult => ({ score, feedback: `scored ${score}`, improvement_tips: ['be specific'], model_answer_outline: 'outline' });
+const [card] = addCardFromEvaluation([], { question: 'Explain event delegation.', role: 'Frontend', category: 'technical', evaluation: evaluation(4) }, 0);
+
+// Reviews the card at its due time with each score in turn.
+const review = (scores: number[], start: ReviewCard = card) =>
+  scores.reduce((c, score) => reviewCard(c, evaluation(score), 'answer', c.dueAt), start);
+
+describe('reviewCard', () => {
+  it('stretches the interval 1, 6, then by the ease factor on passing reviews', () => {
+    expect(review([8]).intervalDays).toBe(1);
+    expect(review([8, 8]).intervalDays).toBe(6);
+    const third = review([8, 8, 8]);
+    expect(third.intervalDays).toBe(Math.round(6 * review([8, 8]).easeFactor));
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('moves ease with recall quality', () => {
+    expect(review([10]).easeFactor).toBe(2.6);
+    expect(review([8]).easeFactor).toBe(2.5);
+    expect(review([6]).easeFactor).toBe(2.36);
+  });
+
+  it('starts the card over after a lapse', () => {
+    const lapsed = review([8, 8, 8, 2]);
+    expect(lapsed).toMatchObject({ repetitions: 0, intervalDays: 1 });
+    expect(lapsed.dueAt).toBe(review([8, 8, 8]).dueAt + DAY_MS);
+  });
+
+  it('never lets ease fall below 1.3', () => {
+    expect(review([0, 0, 0, 0, 0, 0]).easeFactor).toBe(1.3);
+  });
+
+  it('records the review and refreshes the feedback', () => {
+    const reviewed = reviewCard(card, evaluation(7), 'My answer', 5 * DAY_MS);
+    expect(reviewed.reviews).toEqual([{ at: 5 * DAY_MS, score: 7, quality: 4, answer: 'My answer', intervalDays: 1 }]);
+    expect(reviewed).toMatchObject({ score: 7, feedback: 'scored 7', dueAt: 6 * DAY_MS });
+  });
+});
+
+describe('qualityFromScore', () => {
+  it.each([[0, 0], [5, 3], [6, 3], [9, 5], [10, 5]])('maps %d to %d', (score, quality) => {
+    expect(qualityFromScore(score)).toBe(quality);
+  });
+});
+
+describe('addCardFromEvaluation', () => {
+  it('queues weak answers once, due the next day', () => {
+    expect(card).toMatchObject({ dueAt: DAY_MS, repetitions: 0, easeFactor: 2.5 });
+    const again = addCardFromEvaluation([card], { question: '  explain EVENT delegation. ', role: 'Frontend', category: 'technical', evaluation: evaluation(2) });
+    expect(again).toEqual([card]);
+    expect(addCardFromEvaluation([], { question: 'q', role: 'r', category: 'technical', evaluation: evaluation(6) })).toEqual([]);
+    expect(dueCards([card], DAY_MS - 1)).toEqual([]);
+    expect(dueCards([card], DAY_MS)).toEqual([card]);
+  });
+});
@@ -0,0 +1,45 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { buildSessionReport, renderJson, renderMarkdown, renderPrintableHtml } from '../../services/report';
+import { parseSessionFile } from '../../services/sessionImport';
+import { SessionRecord } from '../../types';
+
+// A finished-looking session: a plan mid-way through, a spoken answer, a hint penalty and a debrief.
+const record: SessionRecord = JSON.parse(readFileSync(new URL('../fixtures/session.json', import.meta.url), 'utf8'));
+const report = buildSessionReport(record, new Date('2026-03-14T15:10:00Z'));
+
+// The golden files in tests/golden are the reviewed output of each format. After an
+// intended change to a report, run npm run test:update and review the diff they get.
+describe('session report', () => {
+  it('renders Markdown', async () => {
+    await expect(renderMarkdown(report)).toMatchFileSnapshot('../golden/report.md');
+  });
+
+  it('renders JSON', async () => {
+    await expect(renderJson(report)).toMatchFileSnapshot('../golden/report.json');
+  });
+
+  it('renders the printable HTML', async () => {
+    await expect(renderPrintableHtml(report)).toMatchFileSnapshot('../golden/report.html');
+  });
+
+  it('imports its own JSON export back into the same session', () => {
+    const imported = parseSessionFile(renderJson(report));
+    expect(imported.role).toBe(record.role);
+    expect(imported.messages.map(m => m.text)).toEqual(record.messages.map(m => m.text));
+    expect(imported.evaluationHistory).toEqual(record.evaluationHistory);
+    expect(imported.plan).toEqual(record.plan);
+    expect(imported.debrief).toEqual(record.debrief);
+  });
+
+  it('exports a reply that is still streaming as stopped, so the file imports again', () => {
+    const streaming: SessionRecord = {
+      ...record,
+      messages: [...record.messages, { role: 'interviewer', text: 'Next, tell me about', status: 'streaming' }],
+    };
+    const exported = buildSessionReport(streaming, new Date('2026-03-14T15:10:00Z'));
+    expect(exported.transcript.at(-1)?.status).toBe('stopped');
+    const imported = parseSessionFile(renderJson(exported));
+    expect(imported.messages.at(-1)).toMatchObject({ text: 'Next, tell me about', status: 'stopped' });
+  });
+});
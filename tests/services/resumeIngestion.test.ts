@@ -0,0 +1,148 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractPdfText } from '../../services/pdfText';
+import { describeResumeProfile, ingestResume, needsAttachment, parseResumeProfile, redactPii } from '../../services/resumeIngestion';
+
+const NO_REDACTIONS = { email: 0, phone: 0, address: 0 };
+
+describe('redactPii', () => {
+  it.each([
+    ['Reach me at jane.doe+jobs@example.co.uk', 'Reach me at [EMAIL]', { email: 1, phone: 0, address: 0 }],
+    ['Call +1 (415) 555-0142 or +91 98765 43210', 'Call [PHONE] or [PHONE]', { email: 0, phone: 2, address: 0 }],
+    ['Office: +44 (0) 20 7946 0958', 'Office: [PHONE]', { email: 0, phone: 1, address: 0 }],
+    ['Mobile 9876543210', 'Mobile [PHONE]', { email: 0, phone: 1, address: 0 }],
+    ['221B Baker Street, Apt 4, London', '[ADDRESS], London', { email: 0, phone: 0, address: 1 }],
+    ['Springfield, IL 62704', '[ADDRESS]', { email: 0, phone: 0, address: 1 }],
+    ['London SW1A 1AA', 'London [ADDRESS]', { email: 0, phone: 0, address: 1 }],
+    ['12 MG Road, Bengaluru - 560034', '[ADDRESS]', { email: 0, phone: 0, address: 1 }],
+    ['45 Park Avenue, Mysuru - 570001', '[ADDRESS]', { email: 0, phone: 0, address: 1 }],
+    ['Jane Doe\nPune 411001\nSenior Engineer', 'Jane Doe\n[ADDRESS]\nSenior Engineer', { email: 0, phone: 0, address: 1 }],
+    ['Address: 7 Elm Row, Leith', 'Address: [ADDRESS]', { email: 0, phone: 0, address: 1 }],
+  ])('redacts %j', (input, text, counts) => {
+    expect(redactPii(input)).toEqual({ text, counts });
+  });
+
+  it.each([
+    'Onboarded 120000 merchants in the first quarter',
+    'Saved 200000 per year in hosting costs',
+    'Co-author of Designing Checkouts, ISBN 978-3-16-148410-0',
+    'Cited in 978-3-16-148410-0 (2nd edition)',
+    'Employee ID 1234567890',
+    'Order No. 4400123456789 shipped',
+    'Acme Corp 2019 2020 2021 2022',
+    'Jan 2019 - Mar 2021',
+    'Bengaluru 560034 engineers hired',
+  ])('leaves %j alone', input => {
+    expect(redactPii(input)).toEqual({ text: input, counts: NO_REDACTIONS });
+  });
+});
+
+describe('parseResumeProfile', () => {
+  const resume = [
+    'Jane Doe',
+    '[EMAIL] | [PHONE]',
+    'Experience',
+    'Senior Frontend Engineer at Acme Payments',
+    'Jan 2021 - Present',
+    '• Led the checkout migration to React 18, cutting the bundle by 40%',
+    '• Built a design system used by',
+    'six product teams',
+    'Acme Corp | Frontend Developer | 2018 - 2020',
+    '- Shipped the merchant dashboard in TypeScript',
+    'Projects',
+    'Ledger (React, GraphQL)',
+    '• Personal finance tracker with offline sync',
+    'Skills',
+    'Languages: TypeScript, JavaScript, SQL',
+    'Tools: Docker, Git',
+    'Education',
+    'B.Tech Computer Science, IIT Madras, 2018',
+  ].join('\n');
+  const profile = parseResumeProfile(resume, { email: 1, phone: 1, address: 0 });
+
+  it('reads roles with their dates and highlights', () => {
+    expect(profile.roles).toEqual([
+      {
+        title: 'Senior Frontend Engineer',
+        organization: 'Acme Payments',
+        start: 'Jan 2021',
+        end: 'Present',
+        highlights: ['Led the checkout migration to React 18, cutting the bundle by 40%', 'Built a design system used by six product teams'],
+      },
+      { title: 'Frontend Developer', organization: 'Acme Corp', start: '2018', end: '2020', highlights: ['Shipped the merchant dashboard in TypeScript'] },
+    ]);
+  });
+
+  it('reads projects, technologies and education', () => {
+    expect(profile.projects).toEqual([
+      { name: 'Ledger', description: 'Personal finance tracker with offline sync', technologies: ['React', 'GraphQL'] },
+    ]);
+    expect(profile.technologies).toEqual(expect.arrayContaining(['TypeScript', 'JavaScript', 'SQL', 'Docker', 'Git', 'React', 'GraphQL']));
+    expect(profile.education).toEqual(['B.Tech Computer Science, IIT Madras, 2018']);
+    expect(profile.redactions).toEqual({ email: 1, phone: 1, address: 0 });
+  });
+
+  it('falls back to an excerpt when no section is recognised', () => {
+    const unparsed = parseResumeProfile('Just some prose about me.', NO_REDACTIONS);
+    expect(unparsed).toMatchObject({ roles: [], projects: [], excerpt: 'Just some prose about me.' });
+  });
+});
+
+describe('extractPdfText', () => {
+  // Two pages with Flate-compressed content: a WinAnsi font, and a Type0 font read through its ToUnicode CMap.
+  const pdf = new Uint8Array(readFileSync(new URL('../fixtures/resume.pdf', import.meta.url)));
+
+  it('reads the text of every page', async () => {
+    await expect(extractPdfText(pdf)).resolves.toBe(
+      'Jane Doe\nSenior Frontend Engineer\nSkills: TypeScript, React – Node.js\n\nled the checkout rewrite',
+    );
+  });
+
+  it('rejects files that are not PDFs', async () => {
+    await expect(extractPdfText(new TextEncoder().encode('Jane Doe, Senior Engineer'))).rejects.toThrow("That file isn't a PDF.");
+  });
+
+  it('rejects encrypted PDFs', async () => {
+    const encrypted = new TextEncoder().encode('%PDF-1.7\ntrailer\n<< /Root 1 0 R /Encrypt 2 0 R >>\n%%EOF');
+    await expect(extractPdfText(encrypted)).rejects.toThrow('That PDF is encrypted');
+  });
+
+  it('ingests an uploaded PDF from its base64 data', async () => {
+    const { text, profile } = await ingestResume({ file: { data: Buffer.from(pdf).toString('base64'), mimeType: 'application/pdf' } });
+    expect(text).toContain('Senior Frontend Engineer');
+    expect(profile.technologies).toEqual(expect.arrayContaining(['TypeScript', 'React', 'Node.js']));
+  });
+});
+
+describe('ingestResume without a text layer', () => {
+  const image = { data: Buffer.from('not really a png').toString('base64'), mimeType: 'image/png' };
+  const scan = { data: Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\ntrailer\n<< /Root 1 0 R >>\n%%EOF').toString('base64'), mimeType: 'application/pdf' };
+  const pdf = { data: readFileSync(new URL('../fixtures/resume.pdf', import.meta.url)).toString('base64'), mimeType: 'application/pdf' };
+
+  it('flags images and scanned PDFs, but not PDFs with text', async () => {
+    await expect(needsAttachment(image)).resolves.toBe(true);
+    await expect(needsAttachment(scan)).resolves.toBe(true);
+    await expect(needsAttachment(pdf)).resolves.toBe(false);
+  });
+
+  it('refuses to send the file without consent', async () => {
+    await expect(ingestResume({ file: image })).rejects.toThrow("can't be redacted");
+    await expect(ingestResume({ file: scan })).rejects.toThrow("can't be redacted");
+  });
+
+  it('attaches the file as is once the user agrees, and says so', async () => {
+    const ingested = await ingestResume({ file: image }, { attach: true });
+    expect(ingested).toMatchObject({ text: '', attachment: image, profile: { roles: [], sentUnredacted: true } });
+    expect(describeResumeProfile(ingested.profile)).toContain('shared as a file');
+  });
+
+  it('still reads PDFs with text when attaching is allowed', async () => {
+    const ingested = await ingestResume({ file: pdf }, { attach: true });
+    expect(ingested.attachment).toBeUndefined();
+    expect(ingested.text).toContain('Senior Frontend Engineer');
+  });
+
+  it('rejects file types resume analysis cannot take', async () => {
+    await expect(ingestResume({ file: { data: '', mimeType: 'application/zip' } }, { attach: true })).rejects.toThrow('Upload a PDF or an image');
+  });
+});
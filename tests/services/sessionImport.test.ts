@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { buildSessionReport, renderJson } from '../../services/report';
+import { parseSessionFile } from '../../services/sessionImport';
+import { ValidationError } from '../../services/validation';
+import { SessionRecord } from '../../types';
+
+const record: SessionRecord = JSON.parse(readFileSync(new URL('../fixtures/session.json', import.meta.url), 'utf8'));
+const exported = JSON.parse(renderJson(buildSessionReport(record, new Date('2026-03-14T15:10:00Z'))));
+
+// Every issue parseSessionFile reports for the file, or [] if it imports.
+function issuesOf(file: unknown): string[] {
+  try {
+    parseSessionFile(typeof file === 'string' ? file : JSON.stringify(file));
+    return [];
+  } catch (err) {
+    expect(err).toBeInstanceOf(ValidationError);
+    return (err as ValidationError).issues;
+  }
+}
+
+describe('parseSessionFile', () => {
+  it('imports an export as a new, closed session without the resume', () => {
+    expect(issuesOf(exported)).toEqual([]);
+    const imported = parseSessionFile(JSON.stringify(exported));
+    expect(imported.id).not.toBe(record.id);
+    expect(imported).toMatchObject({ closed: true, resumeText: '', createdAt: Date.parse(exported.session.createdAt) });
+  });
+
+  it('rejects text that is not JSON', () => {
+    expect(issuesOf('{"format":')).toEqual([expect.stringMatching(/^file is not valid JSON/)]);
+  });
+
+  it('rejects JSON that is not an export', () => {
+    expect(issuesOf([])).toEqual(['$ must be a JSON object']);
+    expect(issuesOf({ ...exported, format: 'something-else' })).toEqual([expect.stringContaining('Is this an InterviewGen JSON export?')]);
+  });
+
+  it('rejects exports from a newer version', () => {
+    expect(issuesOf({ ...exported, formatVersion: exported.formatVersion + 1 })).toEqual([expect.stringMatching(/^\$\.formatVersion must be/)]);
+  });
+
+  it('reports every broken field at once', () => {
+    const broken = {
+      ...exported,
+      session: { ...exported.session, role: 7, createdAt: 'yesterday' },
+      transcript: [{ ...exported.transcript[0], role: 'narrator' }, ...exported.transcript.slice(1)],
+    };
+    const issues = issuesOf(broken);
+    expect(issues).toEqual(expect.arrayContaining(['$.session.role must be a string', '$.session.createdAt must be an ISO date']));
+    expect(issues.some(i => i.startsWith('$.transcript[0].role'))).toBe(true);
+  });
+
+  it('rejects exchanges that point at the wrong messages', () => {
+    const [first] = exported.exchanges;
+    const swapped = { ...first, answer: first.question, question: first.answer };
+    expect(issuesOf({ ...exported, exchanges: [swapped] })).toEqual([
+      '$.exchanges[0].answer.messageIndex must point at a candidate message in $.transcript',
+      '$.exchanges[0].question.messageIndex must point at an interviewer message in $.transcript',
+    ]);
+  });
+
+  it('rejects a malformed evaluation', () => {
+    const [first] = exported.exchanges;
+    const issues = issuesOf({ ...exported, exchanges: [{ ...first, evaluation: { ...first.evaluation, score: 'high' } }] });
+    expect(issues).toEqual([expect.stringMatching(/^\$\.exchanges\[0\]\.evaluation\.score must be a number/)]);
+  });
+});
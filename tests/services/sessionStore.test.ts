@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { migrateSession, SESSION_SCHEMA_VERSION } from '../../services/sessionStore';
+import { ChatMessage, EvaluationResult } from '../../types';
+
+const evaluation = (score: number): EvaluationResult => ({ score, feedback: 'ok', improvement_tips: [], model_answer_outline: '' });
+const messages: ChatMessage[] = [
+  { role: 'interviewer', text: 'Tell me about yourself.' },
+  { role: 'user', text: 'I build checkouts.' },
+  { role: 'interviewer', text: 'Why React?' },
+  { role: 'user', text: 'The team knew it.' },
+  { role: 'interviewer', text: 'Thanks, that is all.' },
+];
+
+describe('migrateSession', () => {
+  it('fills in what records from before versioning lacked', () => {
+    const migrated = migrateSession({ id: 'old', role: 'Engineer', resumeText: '', messages: [], config: { category: 'behavioral' } });
+    expect(migrated).toMatchObject({
+      schemaVersion: SESSION_SCHEMA_VERSION,
+      elapsedMs: 0,
+      closed: false,
+      evaluationHistory: {},
+      config: { difficulty: 'intermediate', category: 'behavioral', duration: '30m', style: 'faang' },
+    });
+  });
+
+  it('keeps what a v0 record already had', () => {
+    const migrated = migrateSession({ id: 'old', messages, elapsedMs: 90_000, closed: true, config: { duration: '60m' }, evaluationHistory: { 1: evaluation(7) } });
+    expect(migrated).toMatchObject({ elapsedMs: 90_000, closed: true, config: { duration: '60m' }, evaluationHistory: { 1: evaluation(7) } });
+  });
+
+  it('re-keys v1 evaluations onto the answer they graded', () => {
+    const migrated = migrateSession({
+      id: 'v1',
+      schemaVersion: 1,
+      messages,
+      // 2 and 4 point at interviewer turns, 3 already at an answer, 0 has no answer before it.
+      evaluationHistory: { 0: evaluation(1), 2: evaluation(5), 3: evaluation(8) },
+    });
+    expect(migrated.evaluationHistory).toEqual({ 1: evaluation(5), 3: evaluation(8) });
+  });
+
+  it('runs every migration in turn from v0', () => {
+    const migrated = migrateSession({ id: 'old', messages, config: {}, evaluationHistory: { 4: evaluation(6) } });
+    expect(migrated.schemaVersion).toBe(SESSION_SCHEMA_VERSION);
+    expect(migrated.evaluationHistory).toEqual({ 3: evaluation(6) });
+  });
+
+  it('leaves current records alone', () => {
+    const record = { id: 'new', schemaVersion: SESSION_SCHEMA_VERSION, messages, evaluationHistory: { 2: evaluation(4) } };
+    expect(migrateSession(record)).toEqual(record);
+  });
+
+  it('refuses records from a newer version', () => {
+    expect(() => migrateSession({ id: 'future', schemaVersion: SESSION_SCHEMA_VERSION + 1 }))
+      .toThrow(`Session future was saved by a newer version of InterviewGen (v${SESSION_SCHEMA_VERSION + 1}).`);
+  });
+});
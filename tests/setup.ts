@@ -0,0 +1,11 @@
+import 'fake-indexeddb/auto';
+import { afterEach } from 'vitest';
+import { cleanup } from '@testing-library/react';
+
+afterEach(() => {
+  cleanup();
+  globalThis.localStorage?.clear();
+});
+
+// jsdom doesn't lay anything out, so there is nothing for the chat to scroll.
+if (typeof window !== 'undefined') window.HTMLElement.prototype.scrollIntoView = () => {};
@@ -0,0 +1,48 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { afterEach } from 'vitest';
+import { createProvider, resolveProviderConfig, setProvider } from '../../services/providers';
+import { withResilience } from '../../services/providers/resilience';
+import {
+  Cassette, RecordingProvider, ReplayProvider, createRecordingProvider, createReplayProvider,
+} from '../../services/providers/replayProvider';
+
+const FIXTURES = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures');
+
+// npm run test:record sets this: calls go to the backend configured in .env.local
+// and each cassette is rewritten with what it answered.
+const recording = process.env.RECORD_FIXTURES === '1';
+if (recording && existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+// Registers the cassettes of one suite (tests/fixtures/<suite>/<name>.json) and returns
+// a function that plays one for the current test. After each test the real provider is
+// restored, and a replay that left calls unasked fails the test.
+export function useCassettes(suite: string): (name: string) => void {
+  let active: { file: string; provider: ReplayProvider | RecordingProvider } | null = null;
+
+  afterEach(() => {
+    const current = active;
+    active = null;
+    setProvider(null);
+    if (!current) return;
+    if ('cassette' in current.provider) {
+      mkdirSync(path.dirname(current.file), { recursive: true });
+      writeFileSync(current.file, JSON.stringify(current.provider.cassette(), null, 2) + '\n');
+      return;
+    }
+    const unplayed = current.provider.unplayed();
+    if (unplayed.length > 0) {
+      throw new Error(`${path.relative(process.cwd(), current.file)} has replies nothing asked for (${unplayed.map(c => c.task).join(', ')}). Re-record it with npm run test:record.`);
+    }
+  });
+
+  return (name: string) => {
+    const file = path.join(FIXTURES, suite, `${name}.json`);
+    const provider = recording
+      ? createRecordingProvider(createProvider(resolveProviderConfig()))
+      : createReplayProvider(JSON.parse(readFileSync(file, 'utf8')) as Cassette);
+    active = { file, provider };
+    setProvider(withResilience(provider));
+  };
+}
@@ -4,9 +4,36 @@ export type Category = 'technical' | 'behavioral' | 'scenario' | 'hr-fit';
 export type Duration = '15m' | '30m' | '60m';
 export type InterviewerStyle = 'faang' | 'startup' | 'service-based';
 
+// How a spoken answer was delivered, measured from the speech-recognition transcript.
+export interface DeliveryMetrics {
+  speakingMs: number;
+  wordCount: number;
+  wordsPerMinute: number;
+  fillerCount: number;
+  fillers: Record<string, number>;
+}
+
 export interface ChatMessage {
   role: 'interviewer' | 'user';
   text: string;
+  sentAt?: number;
+  // Only set on user messages: ms between the preceding question and this answer.
+  latencyMs?: number;
+  // Only set on user messages answered by voice.
+  delivery?: DeliveryMetrics;
+  // Only set on user messages that submit code in a coding round.
+  submission?: CodeSubmission;
+  // Only set on user messages sent while the system-design canvas was open: the diagram as it stood.
+  design?: DesignGraph;
+  // Only set on interviewer messages in panel mode: the Panelist.id who spoke.
+  speakerId?: string;
+  // Only set on interviewer messages that touched an off-limits topic, e.g. 'salary history'.
+  guardrailFlags?: string[];
+  // Only set on streamed interviewer messages that have not completed normally.
+  status?: 'streaming' | 'stopped' | 'failed';
+  error?: string;
+  // Only set on failed messages whose RETRY should regenerate the coding problem rather than re-ask the interviewer.
+  retryAction?: 'coding-problem';
 }
 
 // Fix: Define InterviewQuestion interface expected by QuestionCard
@@ -19,7 +46,58 @@ export interface InterviewQuestion {
   follow_ups?: string[];
 }
 
+export type SkillImportance = 'required' | 'nice-to-have';
+export type SkillMatchLevel = 'strong' | 'partial' | 'missing';
+
+export interface JobDescriptionAnalysis {
+  title: string;
+  seniority: 'junior' | 'mid' | 'senior' | 'staff' | 'principal';
+  domain: string;
+  requiredSkills: string[];
+  niceToHaveSkills: string[];
+}
+
+// One row of the resume-to-JD gap matrix.
+export interface SkillMatch {
+  skill: string;
+  importance: SkillImportance;
+  level: SkillMatchLevel;
+  evidence: string;
+}
+
+export type RedactionKind = 'email' | 'phone' | 'address';
+
+export interface ResumeRole {
+  title: string;
+  organization: string;
+  // As written on the resume, e.g. 'Jan 2020'; end is 'Present' for a current role.
+  start: string | null;
+  end: string | null;
+  highlights: string[];
+}
+
+export interface ResumeProject {
+  name: string;
+  description: string;
+  technologies: string[];
+}
+
+// Parsed locally from the resume text after contact details were redacted;
+// this, not the raw resume, is what interviewer prompts see.
+export interface ResumeProfile {
+  roles: ResumeRole[];
+  projects: ResumeProject[];
+  technologies: string[];
+  education: string[];
+  // The start of the redacted text, for resumes whose layout couldn't be parsed.
+  excerpt: string;
+  redactions: Record<RedactionKind, number>;
+  // The resume had no readable text, so the file went to resume analysis unredacted.
+  sentUnredacted?: boolean;
+}
+
 export interface ResumeAnalysis {
+  // With a job description this is derived from `skillMatrix` (its gaps, biggest first).
   missingSkills: string[];
   followUpQuestions: string[];
   skillMap: {
@@ -27,6 +105,8 @@ export interface ResumeAnalysis {
     systemDesign: number;
     communication: number;
   };
+  // Only present when the resume was analyzed against a job description.
+  skillMatrix?: SkillMatch[];
 }
 
 export interface InterviewConfig {
@@ -34,11 +114,351 @@ export interface InterviewConfig {
   category: Category;
   duration: Duration;
   style: InterviewerStyle;
+  // Rubric used to grade answers; falls back to the category's default rubric.
+  rubricId?: string;
+  // Custom interviewer persona; falls back to the built-in persona for `style`.
+  personaId?: string;
+  // Present when adaptive difficulty is on: `difficulty` then moves within these bounds.
+  adaptive?: { min: Difficulty; max: Difficulty };
+  // Present in panel mode: two to four interviewers who take turns.
+  panel?: Panelist[];
+  // How much coaching costs in the score; falls back to 'standard'.
+  hintPolicy?: HintPolicyId;
+}
+
+// One interviewer on a panel. The persona sets how they speak; `focus` is what they probe.
+export interface Panelist {
+  id: string;
+  name: string;
+  title: string;
+  personaId: string;
+  focus: string;
+}
+
+export type CodeLanguage = 'javascript' | 'typescript';
+
+export interface CodingTestCase {
+  args: unknown[];
+  expected: unknown;
+  explanation?: string;
+}
+
+export interface CodingProblem {
+  title: string;
+  statement: string;
+  functionName: string;
+  signature: string;
+  constraints: string[];
+  starterCode: Record<CodeLanguage, string>;
+  // Shown to the candidate and used by "Run".
+  examples: CodingTestCase[];
+  // Only used on submit; the candidate never sees them.
+  hiddenTests: CodingTestCase[];
+}
+
+export interface TestResult {
+  index: number;
+  passed: boolean;
+  actual?: unknown;
+  error?: string;
+  timedOut?: boolean;
+  durationMs: number;
+  logs: string[];
+}
+
+export interface CodeSubmission {
+  language: CodeLanguage;
+  code: string;
+  passed: number;
+  total: number;
+}
+
+export interface SessionTiming {
+  totalMs: number;
+  elapsedMs: number;
+  remainingMs: number;
+}
+
+export type ProbingDepth = 'light' | 'moderate' | 'deep';
+
+export interface Persona {
+  id: string;
+  name: string;
+  // Free-form description of how the interviewer comes across, e.g. "warm but exacting".
+  tone: string;
+  probingDepth: ProbingDepth;
+  focusAreas: string[];
+  bannedTopics: string[];
+  // One of these opens the interview; empty means the interviewer writes its own greeting.
+  openingLines: string[];
+  sampleQuestions: string[];
+  // Built-in personas ship with the app; custom ones are authored in the app and stored locally.
+  builtIn?: boolean;
+}
+
+// Weights are relative: they're normalized when the overall score is computed.
+export interface RubricCriterion {
+  id: string;
+  name: string;
+  description: string;
+  weight: number;
+}
+
+export interface Rubric {
+  id: string;
+  name: string;
+  category: Category;
+  criteria: RubricCriterion[];
+  // Built-in rubrics ship with the app; custom ones are authored as JSON and stored locally.
+  builtIn?: boolean;
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  name: string;
+  weight: number;
+  score: number;
+  justification: string;
 }
 
 export interface EvaluationResult {
+  // With a rubric this is the weighted mean of `criteria`, not the model's own number.
   score: number;
   feedback: string;
   improvement_tips: string[];
   model_answer_outline: string;
+  // Only present when the answer was spoken: 0-10 rating of delivery (pace, fillers, clarity).
+  communication_score?: number;
+  delivery_feedback?: string;
+  rubricId?: string;
+  criteria?: CriterionScore[];
+  // Panel mode only: each panelist's own read of the answer.
+  panel?: PanelistImpression[];
+  // Extra findings specific to the interview category.
+  categoryDetails?: CategoryDetails;
+  // Present when the candidate used coaching on this question; `score` is after the penalty.
+  hintPenalty?: HintPenalty;
+}
+
+export type HintLevel = 'nudge' | 'approach' | 'partial';
+export type HintPolicyId = 'off' | 'lenient' | 'standard' | 'strict';
+
+export interface HintPenalty {
+  policy: HintPolicyId;
+  hints: HintLevel[];
+  clarifications: number;
+  // Points taken off the score.
+  points: number;
+  rawScore: number;
+}
+
+// One request to the coaching side-channel and its reply. Kept apart from
+// `messages`, so none of it reaches the interviewer or the transcript.
+export interface CoachingExchange {
+  kind: 'hint' | 'clarification';
+  // Hints only.
+  level?: HintLevel;
+  // Clarifications only: what the candidate asked.
+  request?: string;
+  reply: string;
+  // Index in `messages` of the question it was about.
+  questionIndex: number;
+  at: number;
+}
+
+export type StarElement = 'situation' | 'task' | 'action' | 'result';
+export type StarPresence = 'clear' | 'vague' | 'missing';
+
+export type CategoryDetails =
+  | { category: 'technical'; conceptsCovered: string[]; misconceptions: string[] }
+  | { category: 'behavioral'; star: Record<StarElement, StarPresence>; competencies: string[] }
+  | { category: 'scenario'; decisions: string[]; risksMissed: string[]; adaptabilityScore: number }
+  | { category: 'hr-fit'; motivations: string[]; compensationExpectation: string | null; concerns: string[] };
+
+export interface PanelistImpression {
+  panelistId: string;
+  name: string;
+  score: number;
+  impression: string;
+}
+
+// Scores from a coding-round submission; the base fields keep it usable anywhere
+// an EvaluationResult is (reports, analytics).
+export interface CodingEvaluation extends EvaluationResult {
+  correctness_score: number;
+  complexity_score: number;
+  style_score: number;
+  time_complexity: string;
+  space_complexity: string;
+}
+
+export type DesignComponentKind = 'client' | 'load-balancer' | 'service' | 'database' | 'cache' | 'queue' | 'storage';
+
+// Whiteboard state for the system-design round. Coordinates are canvas units and
+// only matter to the editor; the interviewer sees the serialized graph.
+export interface DesignNode {
+  id: string;
+  kind: DesignComponentKind;
+  label: string;
+  x: number;
+  y: number;
+}
+
+export interface DesignEdge {
+  id: string;
+  from: string;
+  to: string;
+  label: string;
+}
+
+export interface DesignGraph {
+  nodes: DesignNode[];
+  edges: DesignEdge[];
+}
+
+export interface DesignEvaluation extends EvaluationResult {
+  scalability_score: number;
+  consistency_score: number;
+  tradeoffs_score: number;
+  bottlenecks: string[];
+}
+
+export type HiringSignal = 'strong-hire' | 'hire' | 'no-hire' | 'strong-no-hire';
+
+export interface SkillCoverage {
+  skill: string;
+  covered: boolean;
+  evidence: string;
+}
+
+// Whole-session verdict, read from the full transcript rather than a single answer.
+export interface SessionDebrief {
+  signal: HiringSignal;
+  summary: string;
+  strengths: string[];
+  redFlags: string[];
+  // One entry per ResumeAnalysis.missingSkills item.
+  skillCoverage: SkillCoverage[];
+  // ResumeAnalysis.followUpQuestions the interview never got to.
+  unprobedFollowUps: string[];
+  generatedAt: number;
+  // Messages in the transcript when the debrief was written; more means it is stale.
+  messageCount: number;
+}
+
+export interface DifficultyAdjustment {
+  // Index of the scored answer that triggered the change.
+  answerIndex: number;
+  from: Difficulty;
+  to: Difficulty;
+  score: number;
+  estimate: number;
+  reason: string;
+  at: number;
+}
+
+// Running state of the adaptive-difficulty engine (services/adaptiveDifficulty.ts).
+export interface AdaptiveState {
+  startedAt: Difficulty;
+  // Exponential moving average of answer scores; null before the first score.
+  estimate: number | null;
+  scoredAnswers: number[];
+  answersSinceChange: number;
+  adjustments: DifficultyAdjustment[];
+}
+
+export interface CardReview {
+  at: number;
+  score: number;
+  // SM-2 recall quality, 0-5, derived from the score.
+  quality: number;
+  answer: string;
+  // Interval the review set, in days.
+  intervalDays: number;
+}
+
+// A weak answer kept for practice (services/practice.ts), rescheduled with SM-2 after each review.
+export interface ReviewCard {
+  id: string;
+  question: string;
+  role: string;
+  category: Category;
+  // From the evaluation that put the card in the queue, refreshed by every review.
+  score: number;
+  feedback: string;
+  modelAnswerOutline: string;
+  improvementTips: string[];
+  sourceSessionId?: string;
+  createdAt: number;
+  easeFactor: number;
+  intervalDays: number;
+  // Reviews in a row recalled well enough; a weak review resets it.
+  repetitions: number;
+  dueAt: number;
+  reviews: CardReview[];
+}
+
+export type InterviewPhase = 'intro' | 'core' | 'deep-dive' | 'candidate-questions' | 'close';
+
+export type PlanItemSource = 'standard' | 'pinned' | 'missing-skill' | 'follow-up' | 'category';
+
+export interface PlanItem {
+  id: string;
+  phase: InterviewPhase;
+  // Short label for the phase tracker.
+  topic: string;
+  // What the interviewer is told to do with the topic.
+  brief: string;
+  source: PlanItemSource;
+  // Candidate answers the topic gets before the plan moves on.
+  answersNeeded: number;
+  // Indexes in `messages` of the answers given on this topic.
+  answers: number[];
+  status: 'pending' | 'covered' | 'skipped';
+}
+
+export interface PhaseTransition {
+  from: InterviewPhase;
+  to: InterviewPhase;
+  reason: 'completed' | 'skipped' | 'revisited';
+  // Index in `messages` of the first message of the new phase.
+  messageIndex: number;
+  at: number;
+}
+
+// Running state of the interview engine (services/interviewPlan.ts).
+export interface InterviewPlan {
+  items: PlanItem[];
+  phase: InterviewPhase;
+  activeItemId: string | null;
+  transitions: PhaseTransition[];
+}
+
+// Persisted snapshot of one interview. Bump SESSION_SCHEMA_VERSION in
+// services/sessionStore.ts and add a migration whenever this shape changes.
+export interface SessionRecord {
+  id: string;
+  schemaVersion: number;
+  createdAt: number;
+  updatedAt: number;
+  role: string;
+  // For an uploaded file, the redacted text extracted from it; the file itself isn't kept.
+  resumeText: string;
+  resumeFileName?: string;
+  config: InterviewConfig;
+  analysis: ResumeAnalysis | null;
+  messages: ChatMessage[];
+  // Keyed by the index of the scored user answer in `messages`.
+  evaluationHistory: Record<number, EvaluationResult>;
+  elapsedMs: number;
+  closed: boolean;
+  // Present once a system-design canvas has been opened in this session.
+  design?: DesignGraph;
+  debrief?: SessionDebrief;
+  adaptive?: AdaptiveState;
+  jobDescription?: JobDescriptionAnalysis;
+  resumeProfile?: ResumeProfile;
+  // Absent for sessions started before interviews followed a plan.
+  plan?: InterviewPlan;
+  coaching?: CoachingExchange[];
 }
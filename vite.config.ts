@@ -8,11 +8,21 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // server/ holds the API keys; in dev the app reaches it through this proxy.
+        proxy: {
+          '/api': {
+            target: `http://127.0.0.1:${env.PROXY_PORT || 8787}`,
+            changeOrigin: true,
+            xfwd: true,
+          },
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only non-secret settings reach the bundle; keys stay with server/.
+        'process.env.LLM_PROVIDER': JSON.stringify(env.LLM_PROVIDER),
+        'process.env.LLM_MODEL': JSON.stringify(env.LLM_MODEL),
+        'process.env.LLM_PROXY_URL': JSON.stringify(env.LLM_PROXY_URL)
       },
       resolve: {
         alias: {
@@ -0,0 +1,21 @@
+import path from 'path';
+import { defineConfig } from 'vitest/config';
+import react from '@vitejs/plugin-react';
+
+// The printable report formats dates for the reader's locale and zone; pin both
+// so the golden files match on every machine. Test workers inherit these.
+process.env.TZ = 'UTC';
+process.env.LC_ALL = 'en_US.UTF-8';
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  },
+  test: {
+    include: ['tests/**/*.test.{ts,tsx}'],
+    setupFiles: ['tests/setup.ts'],
+  },
+});